@@ -0,0 +1,193 @@
+/**
+ * In-memory SQLite fixture for tool tests.
+ *
+ * Creates the build schema (scripts/lib/schema.ts) and fills it with a
+ * small, hand-written slice of the Privacy Act 1988, the Spam Act 2003 and
+ * the Privacy Regulation 2013. The FTS indexes are filled by the schema's
+ * triggers, as in a real build.
+ */
+
+import Database from 'better-sqlite3';
+import { SCHEMA } from '../../scripts/lib/schema.js';
+import type { searchLegislation } from '../../src/tools/search-legislation.js';
+
+export type FixtureDb = Parameters<typeof searchLegislation>[0];
+
+export const BUILT_AT = '2026-01-01T00:00:00.000Z';
+
+const DOCUMENTS = [
+  ['privacy-act-1988', 'statute', 'Privacy Act 1988', 'Privacy Act', 'in_force', '1988-12-14', '1989-01-01', null],
+  ['spam-act-2003', 'statute', 'Spam Act 2003', 'Spam Act', 'in_force', '2003-12-12', '2004-04-10', null],
+  ['privacy-regulation-2013', 'legislative_instrument', 'Privacy Regulation 2013', null, 'in_force', '2013-02-21', '2014-03-12', 'privacy-act-1988'],
+];
+
+const HEADINGS = [
+  ['privacy-act-1988', 'pti', null, 'part', 'I', 'Preliminary'],
+  ['privacy-act-1988', 'ptii', null, 'part', 'II', 'Interpretation'],
+  ['privacy-act-1988', 'ptii/div1', 'ptii', 'division', '1', 'General definitions'],
+  ['privacy-act-1988', 'ptiii', null, 'part', 'III', 'Information privacy'],
+  ['privacy-act-1988', 'ptiiic', null, 'part', 'IIIC', 'Notification of eligible data breaches'],
+  ['privacy-act-1988', 'ptiiic/div3', 'ptiiic', 'division', '3', 'Notification of eligible data breaches'],
+  ['privacy-act-1988', 'sch1', null, 'schedule', '1', 'Australian Privacy Principles'],
+];
+
+const PART_I = 'Part I—Preliminary';
+const PART_II = 'Part II—Interpretation > Division 1—General definitions';
+const PART_III = 'Part III—Information privacy';
+const PART_IIIC = 'Part IIIC—Notification of eligible data breaches';
+const PART_IIIC_DIV3 = `${PART_IIIC} > Division 3—Notification of eligible data breaches`;
+
+// document_id, provision_ref, chapter, heading_ref, section, title, content, valid_from
+const PROVISIONS: Array<[string, string, string | null, string | null, string, string, string, string | null]> = [
+  ['privacy-act-1988', 's1', PART_I, 'pti', '1', 'Short title', 'This Act may be cited as the Privacy Act 1988.', null],
+  ['privacy-act-1988', 's2', PART_I, 'pti', '2', 'Commencement', 'This Act commences on a day to be fixed by Proclamation.', null],
+  ['privacy-act-1988', 's6', PART_II, 'ptii/div1', '6', 'Interpretation',
+    '(1) In this Act: personal information means information or an opinion about an identified individual. ' +
+    'eligible data breach has the meaning given by section 26WE.', null],
+  ['privacy-act-1988', 's6A', PART_II, 'ptii/div1', '6A', 'Repealed', 'Repealed', null],
+  ['privacy-act-1988', 's13', PART_III, 'ptiii', '13', 'Interferences with privacy',
+    '(1) An act or practice of an APP entity is an interference with the privacy of an individual if the act ' +
+    'or practice breaches an Australian Privacy Principle in relation to personal information about the individual.', null],
+  ['privacy-act-1988', 's13G', PART_III, 'ptiii', '13G', 'Serious interferences with privacy of individual',
+    'An entity contravenes this section if the entity does an act, or engages in a practice, that is a serious ' +
+    'interference with the privacy of an individual. Civil penalty: 2,000 penalty units.', null],
+  ['privacy-act-1988', 's26WE', PART_IIIC, 'ptiiic', '26WE', 'Eligible data breach',
+    '(1) This section sets out the circumstances in which there is an eligible data breach of an entity. ' +
+    '(2) An eligible data breach happens if there is unauthorised access to, or unauthorised disclosure of, ' +
+    'personal information held by the entity.', '2018-02-22'],
+  ['privacy-act-1988', 's26WK', PART_IIIC_DIV3, 'ptiiic/div3', '26WK', 'Statement about eligible data breach',
+    '(1) If an entity is aware that there are reasonable grounds to believe that there has been an eligible data ' +
+    'breach of the entity, the entity must prepare a statement. (2) The statement must set out the kinds of ' +
+    'personal information concerned.', '2018-02-22'],
+  ['privacy-act-1988', 's26WL', PART_IIIC_DIV3, 'ptiiic/div3', '26WL', 'Entity must notify eligible data breach',
+    'The entity must give a copy of the statement to the Commissioner and notify each individual to whom the ' +
+    'personal information relates as soon as practicable after the entity completes the statement.', '2024-12-10'],
+  ['privacy-act-1988', 'sch1-app1', 'Schedule 1—Australian Privacy Principles', 'sch1', 'APP 1',
+    'Australian Privacy Principle 1—open and transparent management of personal information',
+    '1.1 The object of this principle is to ensure that APP entities manage personal information in an open and ' +
+    'transparent way.', null],
+  ['spam-act-2003', 's4', 'Part 1—Introduction', null, '4', 'Definitions',
+    'In this Act: personal information has the same meaning as in the Privacy Act 1988.', null],
+  ['spam-act-2003', 's16', 'Part 2—Rules about commercial electronic messages', null, '16',
+    'Unsolicited commercial electronic messages must not be sent',
+    '(1) A person must not send, or cause to be sent, an unsolicited commercial electronic message that has an ' +
+    'Australian link. Civil penalty: 100 penalty units.', null],
+  ['privacy-regulation-2013', 'r3', null, null, '3', 'Authority',
+    'This instrument is made under the Privacy Act 1988.', null],
+];
+
+// Text of s26WL in the compilation before 2024-12-10
+const SUPERSEDED_S26WL =
+  'The entity must give a copy of the statement to the Commissioner and notify each individual to whom the ' +
+  'information relates as soon as practicable after the entity completes the statement.';
+
+export function createFixtureDb(): FixtureDb {
+  const db = new Database(':memory:');
+  db.exec(SCHEMA);
+
+  const insertDocument = db.prepare(`
+    INSERT INTO legal_documents (id, type, title, short_name, status, issued_date, in_force_date, url, enabling_document_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const [id, type, title, shortName, status, issued, inForce, enabling] of DOCUMENTS) {
+    insertDocument.run(id, type, title, shortName, status, issued, inForce, `https://www.legislation.gov.au/${id}`, enabling);
+  }
+
+  const insertHeading = db.prepare(`
+    INSERT INTO document_headings (document_id, heading_ref, parent_ref, level, number, title) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  for (const heading of HEADINGS) insertHeading.run(...heading);
+
+  const insertProvision = db.prepare(`
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, heading_ref, section, title, content, valid_from)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const provision of PROVISIONS) insertProvision.run(...provision);
+
+  db.prepare(`
+    INSERT INTO provision_units (document_id, provision_ref, unit_ref, parent_ref, level, label, lead_in, content)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    'privacy-act-1988', 's26WE', 's26WE(2)', 's26WE', 'subsection', '(2)',
+    'An eligible data breach happens if there is unauthorised access to, or unauthorised disclosure of, personal information held by the entity.',
+    'An eligible data breach happens if there is unauthorised access to, or unauthorised disclosure of, personal information held by the entity.',
+  );
+
+  const insertPenalty = db.prepare(`
+    INSERT INTO penalties (document_id, provision_ref, unit_ref, penalty_type, penalty_units, imprisonment_months,
+      body_corporate_penalty_units, body_corporate_multiplier, text)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  insertPenalty.run('privacy-act-1988', 's13G', null, 'civil_penalty', 2000, null, null, 5, 'Civil penalty: 2,000 penalty units.');
+  insertPenalty.run('spam-act-2003', 's16', 's16(1)', 'civil_penalty', 100, null, null, null, 'Civil penalty: 100 penalty units.');
+
+  db.prepare(`
+    INSERT INTO provision_notes (document_id, provision_ref, unit_ref, kind, text) VALUES (?, ?, ?, ?, ?)
+  `).run('privacy-act-1988', 's26WE', 's26WE(2)', 'note', 'Note: A breach that is remedied before it causes serious harm is not an eligible data breach.');
+
+  const insertAmendment = db.prepare(`
+    INSERT INTO amendment_events (document_id, provision_ref, provision_label, action, amending_act, amending_title, assent_date, commencement_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  insertAmendment.run('privacy-act-1988', 's6A', 's 6A', 'rep', 'No 197, 2012', 'Privacy Amendment (Enhancing Privacy Protection) Act 2012', '2012-12-12', '2014-03-12');
+  insertAmendment.run('privacy-act-1988', 's26WE', 's 26WE', 'ad', 'No 12, 2017', 'Privacy Amendment (Notifiable Data Breaches) Act 2017', '2017-02-22', '2018-02-22');
+  insertAmendment.run('privacy-act-1988', 's26WL', 's 26WL', 'am', 'No 128, 2024', 'Privacy and Other Legislation Amendment Act 2024', '2024-12-10', '2024-12-10');
+
+  const insertCurrency = db.prepare(`
+    INSERT INTO provision_currency (document_id, provision_ref, status, effective_date, pending_action, pending_date, pending_act)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  insertCurrency.run('privacy-act-1988', 's6A', 'repealed', '2014-03-12', null, null, null);
+  insertCurrency.run('privacy-act-1988', 's26WE', 'in_force', '2018-02-22', null, null, null);
+  insertCurrency.run('privacy-act-1988', 's26WL', 'in_force', '2024-12-10', 'am', '2099-01-01', 'No 1, 2099');
+
+  const insertItem = db.prepare(`
+    INSERT INTO commencement_items (document_id, item, provisions, commencement, commencement_date) VALUES (?, ?, ?, ?, ?)
+  `);
+  insertItem.run('privacy-act-1988', '1', 'Sections 1 and 2', 'The day this Act receives the Royal Assent.', '1988-12-14');
+  insertItem.run('privacy-act-1988', '2', 'The remainder of this Act', 'A day fixed by Proclamation.', '1989-01-01');
+  const insertCovered = db.prepare('INSERT INTO commencement_provisions (document_id, provision_ref, item) VALUES (?, ?, ?)');
+  insertCovered.run('privacy-act-1988', 's1', '1');
+  insertCovered.run('privacy-act-1988', 's2', '1');
+  insertCovered.run('privacy-act-1988', 's6', '2');
+
+  const insertVersion = db.prepare(`
+    INSERT INTO document_versions (document_id, compilation_number, register_id, start_date, end_date) VALUES (?, ?, ?, ?, ?)
+  `);
+  insertVersion.run('privacy-act-1988', '95', 'C2024C00201', '2024-06-01', '2024-12-10');
+  insertVersion.run('privacy-act-1988', '96', 'C2024C00453', '2024-12-10', null);
+  db.prepare(`
+    INSERT INTO provision_versions (document_id, provision_ref, chapter, section, title, content, valid_from, valid_to)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run('privacy-act-1988', 's26WL', PART_IIIC_DIV3, '26WL', 'Entity must notify eligible data breach', SUPERSEDED_S26WL, '2018-02-22', '2024-12-10');
+
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references
+      (source_document_id, source_provision_ref, target_document_id, target_provision_ref, target_heading_ref, ref_type, reference_text)
+    VALUES (?, ?, ?, ?, ?, 'references', ?)
+  `);
+  insertCrossReference.run('spam-act-2003', 's4', 'privacy-act-1988', null, null, 'the Privacy Act 1988');
+  insertCrossReference.run('privacy-regulation-2013', 'r3', 'privacy-act-1988', 's6', null, 'section 6 of the Privacy Act 1988');
+  insertCrossReference.run('privacy-act-1988', 's26WE', 'privacy-act-1988', 's6', null, 'section 6');
+  insertCrossReference.run('privacy-act-1988', 's13', 'privacy-act-1988', null, 'ptiiic', 'Part IIIC');
+
+  const insertDefinition = db.prepare(`
+    INSERT INTO definitions (document_id, term, definition, source_provision) VALUES (?, ?, ?, ?)
+  `);
+  insertDefinition.run('privacy-act-1988', 'personal information', 'information or an opinion about an identified individual', 's6');
+  insertDefinition.run('privacy-act-1988', 'eligible data breach', 'has the meaning given by section 26WE', 's6');
+  insertDefinition.run('spam-act-2003', 'personal information', 'has the same meaning as in the Privacy Act 1988', 's4');
+
+  const insertThesaurus = db.prepare('INSERT INTO search_thesaurus (term, expansion, kind) VALUES (?, ?, ?)');
+  insertThesaurus.run('NDB', 'eligible data breach', 'acronym');
+  insertThesaurus.run('NDB', 'notifiable data breach', 'acronym');
+  insertThesaurus.run('organization', 'organisation', 'spelling');
+  insertThesaurus.run('personal data', 'personal information', 'synonym');
+
+  const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
+  insertMeta.run('tier', 'free');
+  insertMeta.run('schema_version', '4');
+  insertMeta.run('built_at', BUILT_AT);
+
+  return db as unknown as FixtureDb;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { checkCurrency } from '../../src/tools/check-currency.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('check_currency', () => {
+  it('warns that a provision is repealed', async () => {
+    const response = await checkCurrency(db, { document_id: 'privacy-act-1988', provision_ref: 's6A' });
+    expect(response.results.warnings).toEqual(['s 6A has been repealed (with effect from 2014-03-12).']);
+  });
+
+  describe('as at a date', () => {
+    it('resolves a pinpoint written with a space', async () => {
+      const response = await checkCurrency(db, { document_id: 'privacy-act-1988', provision_ref: 's 26WL', as_of_date: '2024-07-01' });
+      expect(response.results.compilation).toMatchObject({ compilation_number: '95' });
+      expect(response.results.provision_in_force).toBe(true);
+    });
+
+    it('resolves schedule and regulation refs', async () => {
+      const app = await checkCurrency(db, { document_id: 'privacy-act-1988', provision_ref: 'APP 1', as_of_date: '2025-01-01' });
+      expect(app.results.provision_in_force).toBe(true);
+
+      const regulation = await checkCurrency(db, { document_id: 'privacy-regulation-2013', provision_ref: 'r 3', as_of_date: '2025-01-01' });
+      expect(regulation.results.provision_in_force).toBe(true);
+    });
+
+    it('warns of an amendment pending on the date', async () => {
+      const response = await checkCurrency(db, { document_id: 'privacy-act-1988', provision_ref: 's 26WL', as_of_date: '2024-07-01' });
+      expect(response.results.warnings).toContain('s 26WL is to be amended by No 1, 2099 with effect from 2099-01-01.');
+    });
+
+    it('reports a provision repealed by the date as not in force', async () => {
+      const before = await checkCurrency(db, { document_id: 'privacy-act-1988', provision_ref: 's 6A', as_of_date: '2010-01-01' });
+      expect(before.results.provision_in_force).toBe(true);
+      expect(before.results.warnings).toContain('s 6A is to be repealed with effect from 2014-03-12.');
+
+      const after = await checkCurrency(db, { document_id: 'privacy-act-1988', provision_ref: 's 6A', as_of_date: '2020-01-01' });
+      expect(after.results.provision_in_force).toBe(false);
+      expect(after.results.warnings).toContain('s 6A has been repealed (with effect from 2014-03-12).');
+    });
+  });
+});
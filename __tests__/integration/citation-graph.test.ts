@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getCitingProvisions } from '../../src/tools/get-citing-provisions.js';
+import { getCrossReferences } from '../../src/tools/get-cross-references.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_citing_provisions', () => {
+  it('lists citations of an Act, same-Act citations first', async () => {
+    const response = await getCitingProvisions(db, { document_id: 'privacy-act-1988' });
+    expect(response.results.map(r => [r.source_document_id, r.source_provision_ref])).toEqual([
+      ['privacy-act-1988', 's26WE'],
+      ['privacy-act-1988', 's13'],
+      ['spam-act-2003', 's4'],
+      ['privacy-regulation-2013', 'r3'],
+    ]);
+  });
+
+  it('resolves a pinpoint written with a space', async () => {
+    const response = await getCitingProvisions(db, { document_id: 'privacy-act-1988', provision_ref: 's 6' });
+    expect(response.results.map(r => r.source_provision_ref)).toEqual(['s26WE', 'r3']);
+  });
+
+  it('finds citations of a Part, not of the whole Act', async () => {
+    const response = await getCitingProvisions(db, { document_id: 'privacy-act-1988', provision_ref: 'Part IIIC' });
+    expect(response.results.map(r => [r.source_provision_ref, r.target_heading_ref])).toEqual([['s13', 'ptiiic']]);
+  });
+
+  it('notes a Part the Act does not have', async () => {
+    const response = await getCitingProvisions(db, { document_id: 'privacy-act-1988', provision_ref: 'Part IX' });
+    expect(response.results).toEqual([]);
+    expect(response._metadata.note).toMatch(/No Part IX/);
+  });
+
+  it('applies the limit', async () => {
+    const response = await getCitingProvisions(db, { document_id: 'privacy-act-1988', limit: 1 });
+    expect(response.results).toHaveLength(1);
+  });
+});
+
+describe('get_cross_references', () => {
+  it('resolves a pinpoint written with a space', async () => {
+    const response = await getCrossReferences(db, { document_id: 'privacy-act-1988', provision_ref: 's 26WE' });
+    expect(response.results.map(r => [r.target_provision_ref, r.target_title])).toEqual([['s6', 'Interpretation']]);
+  });
+
+  it('titles a cited Part from its heading', async () => {
+    const response = await getCrossReferences(db, { document_id: 'privacy-act-1988', provision_ref: '13' });
+    expect(response.results.map(r => [r.target_heading_ref, r.target_title])).toEqual([['ptiiic', 'Notification of eligible data breaches']]);
+  });
+
+  it('applies the limit', async () => {
+    const all = await getCrossReferences(db, { document_id: 'privacy-act-1988' });
+    const limited = await getCrossReferences(db, { document_id: 'privacy-act-1988', limit: 1 });
+    expect(all.results).toHaveLength(2);
+    expect(limited.results).toEqual(all.results.slice(0, 1));
+  });
+});
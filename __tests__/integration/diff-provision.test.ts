@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { diffProvision, type DocumentDiffResult, type ProvisionDiffResult } from '../../src/tools/diff-provision.js';
+import { INVALID_CURSOR_NOTE } from '../../src/utils/cursor.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('diff_provision', () => {
+  it('diffs a provision between two compilations', async () => {
+    const response = await diffProvision(db, {
+      document_id: 'privacy-act-1988',
+      provision_ref: 's 26WL',
+      from_date: '2024-07-01',
+      to_date: '2025-01-01',
+    });
+    const diff = response.results as ProvisionDiffResult;
+    expect(diff).toMatchObject({
+      mode: 'provision',
+      provision_ref: 's26WL',
+      from: { compilation_number: '95', exists: true },
+      to: { compilation_number: '96', exists: true },
+      changed: true,
+      inserted_words: 1,
+      deleted_words: 0,
+    });
+    expect(diff.segments.filter(s => s.type !== 'equal')).toEqual([{ type: 'insert', text: 'personal' }]);
+  });
+
+  it('diffs a section inserted between the two dates', async () => {
+    const response = await diffProvision(db, { document_id: 'privacy-act-1988', provision_ref: '26WE', from_date: '2017-01-01' });
+    expect(response.results).toMatchObject({ provision_ref: 's26WE', from: { exists: false }, to: { exists: true } });
+  });
+
+  it('lists the sections changed in the Act', async () => {
+    const response = await diffProvision(db, { document_id: 'privacy-act-1988' });
+    const diff = response.results as DocumentDiffResult;
+    expect(diff.changed.map(c => [c.provision_ref, c.inserted_words])).toEqual([['s26WL', 1]]);
+    expect(diff).toMatchObject({ total_changes: 1, unchanged_count: 9 });
+    expect(response._metadata.next_cursor).toBeUndefined();
+  });
+
+  it('pages through the sections changed in the Act', async () => {
+    const input = { document_id: 'privacy-act-1988', from_date: '2017-01-01', page_size: 2 };
+    const first = await diffProvision(db, input);
+    const firstPage = first.results as DocumentDiffResult;
+    expect(firstPage.added.map(a => a.provision_ref)).toEqual(['s26WE', 's26WK']);
+    expect(firstPage.total_changes).toBe(3);
+    expect(first._metadata.note).toBe('Changes 1–2 of 3.');
+
+    const second = await diffProvision(db, { ...input, cursor: first._metadata.next_cursor });
+    expect((second.results as DocumentDiffResult).added.map(a => a.provision_ref)).toEqual(['s26WL']);
+    expect(second._metadata.next_cursor).toBeUndefined();
+  });
+
+  it('rejects a cursor issued for other dates', async () => {
+    const first = await diffProvision(db, { document_id: 'privacy-act-1988', from_date: '2017-01-01', page_size: 1 });
+    const response = await diffProvision(db, { document_id: 'privacy-act-1988', page_size: 1, cursor: first._metadata.next_cursor });
+    expect(response.results).toBeNull();
+    expect(response._metadata.note).toBe(INVALID_CURSOR_NOTE);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { getAmendmentHistory } from '../../src/tools/get-amendment-history.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_amendment_history', () => {
+  it('lists the amendments of a provision', async () => {
+    const response = await getAmendmentHistory(db, { document_id: 'privacy-act-1988', provision_ref: 's 26WE' });
+    expect(response.results).toEqual([expect.objectContaining({
+      action: 'ad',
+      action_description: 'added or inserted',
+      amending_act: 'No 12, 2017',
+      commencement_date: '2018-02-22',
+    })]);
+  });
+});
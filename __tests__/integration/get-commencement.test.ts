@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { getCommencement } from '../../src/tools/get-commencement.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_commencement', () => {
+  it('returns the commencement item covering a provision', async () => {
+    const response = await getCommencement(db, { document_id: 'privacy-act-1988', provision_ref: 's 2' });
+    expect(response.results?.items).toEqual([{
+      item: '1',
+      provisions: 'Sections 1 and 2',
+      commencement: 'The day this Act receives the Royal Assent.',
+      commencement_date: '1988-12-14',
+      details: null,
+    }]);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getDefinitions } from '../../src/tools/get-definitions.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_definitions', () => {
+  it('finds a term in every Act that defines it', async () => {
+    const response = await getDefinitions(db, { term: 'personal information' });
+    expect(response.results.map(r => [r.document_id, r.source_provision]).sort()).toEqual([
+      ['privacy-act-1988', 's6'],
+      ['spam-act-2003', 's4'],
+    ]);
+  });
+
+  it('limits the search to one Act', async () => {
+    const response = await getDefinitions(db, { term: 'personal information', document_id: 'Spam Act' });
+    expect(response.results.map(r => r.document_id)).toEqual(['spam-act-2003']);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getDocumentOutline } from '../../src/tools/get-document-outline.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_document_outline', () => {
+  it('nests headings with the span of sections under each', async () => {
+    const response = await getDocumentOutline(db, { document_id: 'privacy-act-1988' });
+    expect(response.results?.provision_count).toBe(10);
+    const part = response.results?.headings.find(h => h.heading_ref === 'ptiiic');
+    expect(part).toMatchObject({
+      label: 'Part IIIC',
+      first_section: '26WE',
+      last_section: '26WL',
+      provision_count: 3,
+      children: [{ heading_ref: 'ptiiic/div3', label: 'Division 3', provision_count: 2 }],
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { getPenalties } from '../../src/tools/get-penalties.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_penalties', () => {
+  it('converts penalty units at the value in force on the date', async () => {
+    const response = await getPenalties(db, { document_id: 'privacy-act-1988', as_of_date: '2025-01-01' });
+    expect(response.results).toEqual([
+      expect.objectContaining({
+        provision_ref: 's13G',
+        penalty_type: 'civil_penalty',
+        penalty_units: 2000,
+        max_amount_individual: 660000,
+        max_amount_body_corporate: 3300000,
+      }),
+    ]);
+    expect(response._metadata.penalty_unit).toEqual({ amount: 330, from: '2024-11-07' });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { getProvision } from '../../src/tools/get-provision.js';
+import { INVALID_CURSOR_NOTE } from '../../src/utils/cursor.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_provision', () => {
+  it('returns a subsection with its parent chain and notes', async () => {
+    const response = await getProvision(db, { document_id: 'privacy-act-1988', section: 's 26WE(2)' });
+    expect(response.results).toHaveLength(1);
+    expect(response.results[0]).toMatchObject({
+      provision_ref: 's26WE(2)',
+      level: 'subsection',
+      parent_chain: [{ provision_ref: 's26WE', level: 'section', text: 'Eligible data breach' }],
+      notes: [{ unit_ref: 's26WE(2)', kind: 'note', non_operative: true }],
+    });
+    expect(response.results[0].content).toMatch(/^An eligible data breach happens/);
+  });
+
+  it('returns schedule provisions by citation', async () => {
+    const response = await getProvision(db, { document_id: 'Privacy Act', section: 'APP 1' });
+    expect(response.results.map(r => r.provision_ref)).toEqual(['sch1-app1']);
+  });
+
+  it('returns a whole Part with its span', async () => {
+    const response = await getProvision(db, { document_id: 'privacy-act-1988', part: 'IIIC' });
+    expect(response.results.map(r => r.provision_ref)).toEqual(['s26WE', 's26WK', 's26WL']);
+    expect(response._metadata.note).toBe('Part IIIC—Notification of eligible data breaches: 3 provisions (26WE–26WL).');
+    expect(response._metadata.next_cursor).toBeUndefined();
+  });
+
+  it('pages through a whole Act in document order', async () => {
+    const seen: string[] = [];
+    const notes: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getProvision(db, { document_id: 'privacy-act-1988', page_size: 4, cursor });
+      seen.push(...page.results.map(r => r.provision_ref));
+      notes.push(page._metadata.note ?? '');
+      cursor = page._metadata.next_cursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['s1', 's2', 's6', 's6A', 's13', 's13G', 's26WE', 's26WK', 's26WL', 'sch1-app1']);
+    expect(notes).toEqual(['Provisions 1–4 of 10.', 'Provisions 5–8 of 10.', 'Provisions 9–10 of 10.']);
+  });
+
+  it('rejects a cursor issued for another document', async () => {
+    const first = await getProvision(db, { document_id: 'privacy-act-1988', page_size: 4 });
+    const other = await getProvision(db, { document_id: 'spam-act-2003', cursor: first._metadata.next_cursor });
+    expect(other.results).toEqual([]);
+    expect(other._metadata.note).toBe(INVALID_CURSOR_NOTE);
+  });
+
+  it('ends a page before the provision that would overrun max_chars', async () => {
+    const response = await getProvision(db, { document_id: 'privacy-act-1988', part: 'IIIC', max_chars: 400 });
+    expect(response.results.map(r => r.provision_ref)).toEqual(['s26WE']);
+    expect(response.results[0].truncated).toBe(false);
+    expect(response._metadata.note).toMatch(/Provision 1 of 3\.$/);
+
+    const next = await getProvision(db, {
+      document_id: 'privacy-act-1988', part: 'IIIC', max_chars: 400, cursor: response._metadata.next_cursor,
+    });
+    expect(next.results.map(r => r.provision_ref)).toEqual(['s26WK']);
+  });
+
+  it('applies a character window to a single provision', async () => {
+    const response = await getProvision(db, { document_id: 'privacy-act-1988', section: '26WE', offset: 100, max_chars: 50 });
+    const [provision] = response.results;
+    expect(provision.content).toHaveLength(50);
+    expect(provision).toMatchObject({ truncated: true, next_offset: 150 });
+    expect(provision.content_length).toBeGreaterThan(150);
+  });
+
+  it('warns about a pending amendment', async () => {
+    const response = await getProvision(db, { document_id: 'privacy-act-1988', section: '26WL' });
+    expect(response._metadata.note).toBe('s 26WL is to be amended by No 1, 2099 with effect from 2099-01-01.');
+  });
+
+  it('numbers regulations without their prefix', async () => {
+    const single = await getProvision(db, { document_id: 'privacy-regulation-2013', section: 'r 3' });
+    const listed = await getProvision(db, { document_id: 'privacy-regulation-2013' });
+    expect(single.results[0].section_number).toBe('3');
+    expect(listed.results[0].section_number).toBe('3');
+  });
+
+  it('returns the text in force on an earlier date', async () => {
+    const response = await getProvision(db, { document_id: 'privacy-act-1988', section: '26WL', as_of_date: '2024-07-01' });
+    expect(response.results[0]).toMatchObject({ valid_from: '2018-02-22', valid_to: '2024-12-10' });
+    expect(response.results[0].content).not.toMatch(/personal information/);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { getSubordinateInstruments } from '../../src/tools/get-subordinate-instruments.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+describe('get_subordinate_instruments', () => {
+  it('lists the instruments made under an Act', async () => {
+    const response = await getSubordinateInstruments(db, { document_id: 'privacy-act-1988' });
+    expect(response.results.map(r => r.document_id)).toEqual(['privacy-regulation-2013']);
+  });
+
+  it('names the enabling Act of an instrument', async () => {
+    const response = await getSubordinateInstruments(db, { document_id: 'privacy-regulation-2013' });
+    expect(response.results).toEqual([]);
+    expect(response._metadata.note).toMatch(/made under Privacy Act 1988 \(privacy-act-1988\)/);
+  });
+});
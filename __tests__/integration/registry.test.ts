@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { buildTools } from '../../src/tools/registry.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const OPTIONAL_TOOLS = ['diff_provision', 'get_citing_provisions', 'get_cross_references', 'get_subordinate_instruments'];
+
+describe('buildTools', () => {
+  it('lists tools whose tables the database has', () => {
+    const names = buildTools(createFixtureDb()).map(t => t.name);
+    expect(names).toEqual(expect.arrayContaining(OPTIONAL_TOOLS));
+  });
+
+  it('leaves out tools whose tables or columns the database lacks', () => {
+    const db = createFixtureDb();
+    db.prepare('DROP TABLE cross_references').run();
+    db.prepare('DROP TABLE document_versions').run();
+    db.prepare('DROP INDEX idx_documents_enabling').run();
+    db.prepare('ALTER TABLE legal_documents DROP COLUMN enabling_document_id').run();
+
+    const names = buildTools(db).map(t => t.name);
+    expect(names).toContain('get_provision');
+    expect(names.filter(name => OPTIONAL_TOOLS.includes(name))).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { searchLegislation, type SearchLegislationInput } from '../../src/tools/search-legislation.js';
+import { INVALID_CURSOR_NOTE } from '../../src/utils/cursor.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const db = createFixtureDb();
+
+async function refs(input: SearchLegislationInput): Promise<string[]> {
+  const response = await searchLegislation(db, input);
+  return response.results.map(r => `${r.document_id}:${r.provision_ref}`).sort();
+}
+
+describe('search_legislation', () => {
+  it('walks every page of results once with next_cursor', async () => {
+    const all = await refs({ query: 'personal information', page_size: 50 });
+    expect(all).toHaveLength(7);
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = await searchLegislation(db, { query: 'personal information', page_size: 3, cursor });
+      seen.push(...page.results.map(r => `${r.document_id}:${r.provision_ref}`));
+      cursor = page._metadata.next_cursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen.sort()).toEqual(all);
+  });
+
+  it('rejects a cursor issued for another query', async () => {
+    const first = await searchLegislation(db, { query: 'personal information', page_size: 3 });
+    const other = await searchLegislation(db, { query: 'eligible data breach', cursor: first._metadata.next_cursor });
+    expect(other.results).toEqual([]);
+    expect(other._metadata.note).toBe(INVALID_CURSOR_NOTE);
+  });
+
+  it('floors a fractional page_size', async () => {
+    const first = await searchLegislation(db, { query: 'personal information', page_size: 2.5 });
+    expect(first.results).toHaveLength(2);
+
+    const second = await searchLegislation(db, { query: 'personal information', page_size: 2.5, cursor: first._metadata.next_cursor });
+    expect(second.results).toHaveLength(2);
+    expect(second._metadata.note).toBeUndefined();
+  });
+
+  it('fills every page and keeps next_cursor when duplicates are dropped', async () => {
+    // The Privacy Act held three times under different IDs
+    const duplicated = createFixtureDb();
+    for (const id of ['1988-119', 'C2004A03712']) {
+      duplicated.prepare(
+        "INSERT INTO legal_documents (id, type, title, status) VALUES (?, 'statute', 'Privacy Act 1988', 'in_force')",
+      ).run(id);
+      duplicated.prepare(`
+        INSERT INTO legal_provisions (document_id, provision_ref, chapter, heading_ref, section, title, content, valid_from)
+        SELECT ?, provision_ref, chapter, heading_ref, section, title, content, valid_from
+        FROM legal_provisions WHERE document_id = 'privacy-act-1988'
+      `).run(id);
+    }
+
+    const seen: string[] = [];
+    const pageSizes: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await searchLegislation(duplicated, { query: 'personal information', page_size: 2, cursor });
+      seen.push(...page.results.map(r => `${r.document_title}:${r.provision_ref}`));
+      pageSizes.push(page.results.length);
+      cursor = page._metadata.next_cursor;
+    } while (cursor);
+
+    expect(pageSizes).toEqual([2, 2, 2, 1]);
+    expect(new Set(seen).size).toBe(7);
+  });
+
+  it('counts facets over every hit, not just the page', async () => {
+    const response = await searchLegislation(db, { query: 'personal information', page_size: 2, facets: true });
+    expect(response.results).toHaveLength(2);
+    expect(response._metadata.facets).toMatchObject({
+      total_hits: 7,
+      documents: [
+        { document_id: 'privacy-act-1988', count: 6 },
+        { document_id: 'spam-act-2003', count: 1 },
+      ],
+      years: [{ from: 1980, to: 1989, count: 6 }, { from: 2000, to: 2009, count: 1 }],
+    });
+    expect(response._metadata.facets?.chapters[0]).toEqual({
+      document_id: 'privacy-act-1988',
+      chapter: 'Part IIIC—Notification of eligible data breaches',
+      count: 3,
+    });
+  });
+
+  it('filters by the year of the Act and by heading', async () => {
+    expect(await refs({ query: 'personal information', year_from: 2000, year_to: 2010 })).toEqual(['spam-act-2003:s4']);
+    expect(await refs({ query: 'personal information', chapter: 'Part IIIC' })).toEqual([
+      'privacy-act-1988:s26WE',
+      'privacy-act-1988:s26WK',
+      'privacy-act-1988:s26WL',
+    ]);
+    const invalid = await searchLegislation(db, { query: 'personal information', year_from: 19.5 });
+    expect(invalid._metadata.note).toBe('Invalid year_from "19.5". Use a four-digit year.');
+  });
+
+  it('scopes terms to the section title and the Act title', async () => {
+    expect(await refs({ query: 'title:breach personal' })).toEqual([
+      'privacy-act-1988:s26WE',
+      'privacy-act-1988:s26WK',
+      'privacy-act-1988:s26WL',
+    ]);
+    expect(await refs({ query: 'act:spam personal' })).toEqual(['spam-act-2003:s4']);
+    expect(await refs({ query: 'personal information NOT title:interpretation' })).not.toContain('privacy-act-1988:s6');
+  });
+
+  it('notes queries that cannot be searched', async () => {
+    const excludedOnly = await searchLegislation(db, { query: 'NOT title:interpretation' });
+    expect(excludedOnly._metadata.note).toMatch(/^A field scope after NOT only excludes provisions/);
+
+    const invalid = await searchLegislation(db, { query: 'breach AND (' });
+    expect(invalid.results).toEqual([]);
+    expect(invalid._metadata.note).toMatch(/^The query is not valid FTS5 syntax/);
+  });
+
+  it('refuses act: scopes on a database without Act titles in the index', async () => {
+    const legacy = createFixtureDb();
+    legacy.prepare('DROP TABLE provisions_fts').run();
+    legacy.prepare(
+      "CREATE VIRTUAL TABLE provisions_fts USING fts5(content, title, content='legal_provisions', content_rowid='id')",
+    ).run();
+    const response = await searchLegislation(legacy, { query: 'act:spam personal' });
+    expect(response.results).toEqual([]);
+    expect(response._metadata.note).toMatch(/schema version 3/);
+  });
+
+  it('searches thesaurus expansions alongside the literal terms', async () => {
+    const response = await searchLegislation(db, { query: 'NDB statement' });
+    expect(response.results.map(r => r.provision_ref).sort()).toEqual(['s26WK', 's26WL']);
+    expect(response._metadata.expanded_terms).toEqual([
+      { term: 'NDB', expansions: ['eligible data breach', 'notifiable data breach'], kind: 'acronym' },
+    ]);
+
+    expect(await refs({ query: 'personal data' })).toEqual(await refs({ query: 'personal information' }));
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { provisionCurrency } from '../../scripts/lib/currency.js';
+import type { ParsedAmendment } from '../../scripts/lib/parser.js';
+import { currencyWarnings, provisionLabel } from '../../src/utils/currency.js';
+
+function event(action: ParsedAmendment['action'], date: string | null, assent: string | null = null): ParsedAmendment {
+  return {
+    provision_ref: 's6',
+    provision_label: 's 6',
+    action,
+    amending_act: `No ${action}, ${date?.slice(0, 4) ?? '2000'}`,
+    amending_title: null,
+    assent_date: assent,
+    commencement_date: date,
+  };
+}
+
+describe('provisionCurrency', () => {
+  it('is in force from the last commenced amendment', () => {
+    expect(provisionCurrency({}, [event('am', '2014-03-12'), event('ad', '2001-12-21')], '2024-12-10')).toEqual({
+      status: 'in_force',
+      effectiveDate: '2014-03-12',
+      pending: null,
+      pendingDate: null,
+    });
+  });
+
+  it('reports the first amendment commencing after the compilation', () => {
+    const later = event('rs', '2026-06-10');
+    const first = event('am', '2025-12-10');
+    expect(provisionCurrency({}, [event('ad', '2001-12-21'), later, first], '2024-12-10')).toEqual({
+      status: 'in_force',
+      effectiveDate: '2001-12-21',
+      pending: first,
+      pendingDate: '2025-12-10',
+    });
+  });
+
+  it('dates an amendment by assent when the history gives no commencement date', () => {
+    const undated = event('am', null, '2025-02-01');
+    expect(provisionCurrency({}, [undated], '2024-12-10')).toMatchObject({ pending: undated, pendingDate: '2025-02-01' });
+  });
+
+  it('is not yet in force when inserted by an Act that has not commenced', () => {
+    expect(provisionCurrency({}, [event('ad', '2025-12-10'), event('am', '2026-06-10')], '2024-12-10')).toMatchObject({
+      status: 'not_yet_in_force',
+      effectiveDate: '2025-12-10',
+      pendingDate: '2026-06-10',
+    });
+  });
+
+  it('is repealed from the commenced repeal', () => {
+    expect(provisionCurrency({ repealed: true }, [event('ad', '1994-01-01'), event('rep', '2014-03-12')], '2024-12-10'))
+      .toMatchObject({ status: 'repealed', effectiveDate: '2014-03-12', pending: null });
+  });
+
+  it('treats every amendment as commenced without a compilation date', () => {
+    expect(provisionCurrency({}, [event('am', '2099-01-01')], undefined)).toMatchObject({
+      status: 'in_force',
+      effectiveDate: '2099-01-01',
+      pending: null,
+    });
+  });
+});
+
+describe('currencyWarnings', () => {
+  const base = {
+    provision_ref: 's6A',
+    effective_date: null,
+    pending_action: null,
+    pending_date: null,
+    pending_act: null,
+  };
+
+  it('labels section refs for citation', () => {
+    expect(provisionLabel('s26WE')).toBe('s 26WE');
+    expect(provisionLabel('sch1-app1')).toBe('sch1-app1');
+  });
+
+  it('warns about repealed and uncommenced provisions', () => {
+    expect(currencyWarnings('s 6A', { ...base, status: 'repealed', effective_date: '2014-03-12' }, '2026-01-01'))
+      .toEqual(['s 6A has been repealed (with effect from 2014-03-12).']);
+    expect(currencyWarnings('s 6A', { ...base, status: 'not_yet_in_force', effective_date: '2027-01-01' }, '2026-01-01'))
+      .toEqual(['s 6A has not commenced; it takes effect on 2027-01-01.']);
+  });
+
+  it('warns that the text may be out of date once a pending amendment has commenced', () => {
+    const currency = {
+      ...base,
+      status: 'in_force' as const,
+      pending_action: 'am',
+      pending_date: '2025-12-10',
+      pending_act: 'No 128, 2024',
+    };
+    expect(currencyWarnings('s 6A', currency, '2025-06-01'))
+      .toEqual(['s 6A is to be amended by No 128, 2024 with effect from 2025-12-10.']);
+    expect(currencyWarnings('s 6A', currency, '2026-01-01')).toEqual([
+      's 6A was to be amended by No 128, 2024 with effect from 2025-12-10, after the compilation held; the text may be out of date.',
+    ]);
+  });
+
+  it('has no warnings without recorded currency', () => {
+    expect(currencyWarnings('s 6A', null, '2026-01-01')).toEqual([]);
+    expect(currencyWarnings('s 6A', { ...base, status: 'in_force' }, '2026-01-01')).toEqual([]);
+  });
+});
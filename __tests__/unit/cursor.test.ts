@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { cursorKey, decodeCursor, encodeCursor } from '../../src/utils/cursor.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+describe('paging cursors', () => {
+  it('round-trips the position for the same key', () => {
+    const cursor = encodeCursor('abc', { offset: 20, tier: 2 });
+    expect(decodeCursor(cursor, 'abc')).toEqual({ offset: 20, tier: 2 });
+    expect(decodeCursor(encodeCursor('abc', { offset: 5 }), 'abc')).toEqual({ offset: 5 });
+  });
+
+  it('rejects cursors for another key and malformed cursors', () => {
+    expect(decodeCursor(encodeCursor('abc', { offset: 20 }), 'def')).toBeNull();
+    expect(decodeCursor('not a cursor', 'abc')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ key: 'abc', offset: -1 })).toString('base64url'), 'abc')).toBeNull();
+    expect(decodeCursor(Buffer.from(JSON.stringify({ key: 'abc', offset: 1, tier: 'x' })).toString('base64url'), 'abc')).toBeNull();
+  });
+
+  it('keys a request by its selecting inputs and the database build', () => {
+    const db = createFixtureDb();
+    const key = cursorKey(db, 'search_legislation', { query: 'breach', document_id: undefined });
+    expect(cursorKey(db, 'search_legislation', { query: 'breach' })).toBe(key);
+    expect(cursorKey(db, 'search_legislation', { query: 'notify' })).not.toBe(key);
+    expect(cursorKey(db, 'get_provision', { query: 'breach' })).not.toBe(key);
+
+    db.prepare("UPDATE db_metadata SET value = '2026-02-01T00:00:00.000Z' WHERE key = 'built_at'").run();
+    expect(cursorKey(db, 'search_legislation', { query: 'breach' })).not.toBe(key);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseEpubSpine } from '../../scripts/lib/fetcher.js';
+
+describe('parseEpubSpine', () => {
+  it('lists the spine documents in reading order', () => {
+    const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="css" href="styles.css" media-type="text/css"/>
+    <item id="vol2" href="document_2/document_2.html" media-type="application/xhtml+xml"/>
+    <item id="vol1" href="document_1/document_1.html" media-type="application/xhtml+xml"/>
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="nav"/>
+    <itemref idref="cover" linear="no"/>
+    <itemref idref="vol1"/>
+    <itemref idref="vol2"/>
+    <itemref idref="unknown"/>
+  </spine>
+</package>`;
+    expect(parseEpubSpine(opf)).toEqual(['document_1/document_1.html', 'document_2/document_2.html']);
+  });
+
+  it('returns no documents for a manifest without a spine', () => {
+    expect(parseEpubSpine('<package><manifest></manifest></package>')).toEqual([]);
+  });
+});
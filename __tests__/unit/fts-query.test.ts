@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFtsQueryVariants,
+  parseFieldScopes,
+  PROVISION_FTS_TABLES,
+  provisionBm25,
+  sanitizeFtsInput,
+} from '../../src/utils/fts-query.js';
+import type { QueryExpansion } from '../../src/utils/thesaurus.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+const NDB: QueryExpansion = { term: 'NDB', expansions: ['eligible data breach', 'notifiable data breach'], kind: 'acronym' };
+
+describe('parseFieldScopes', () => {
+  it('takes field-scoped terms out of the query', () => {
+    expect(parseFieldScopes('title:breach notify')).toEqual({ text: 'notify', scopes: [{ field: 'title', value: 'breach' }] });
+    expect(parseFieldScopes('act:"Privacy Act" personal information')).toEqual({
+      text: 'personal information',
+      scopes: [{ field: 'act', value: 'Privacy Act' }],
+    });
+  });
+
+  it('marks scopes after NOT as negated', () => {
+    expect(parseFieldScopes('notify NOT title:repeal')).toEqual({
+      text: 'notify',
+      scopes: [{ field: 'title', value: 'repeal', negated: true }],
+    });
+  });
+
+  it('drops operators left without an operand', () => {
+    expect(parseFieldScopes('breach AND title:notification').text).toBe('breach');
+    expect(parseFieldScopes('title:notification OR breach').text).toBe('breach');
+    expect(parseFieldScopes('(title:breach) AND notify').text).toBe('notify');
+    expect(parseFieldScopes('breach AND title:notification AND notify').text).toBe('breach AND notify');
+  });
+
+  it('leaves unknown fields in the text', () => {
+    expect(parseFieldScopes('subtitle:x')).toEqual({ text: 'subtitle:x', scopes: [] });
+  });
+});
+
+describe('buildFtsQueryVariants', () => {
+  it('runs the tiers after the exact phrase and AND query against the stemmed index', () => {
+    expect(buildFtsQueryVariants('personal information', { stemmedIndex: true })).toEqual([
+      { query: '"personal information"', index: 'exact' },
+      { query: 'personal AND information', index: 'exact' },
+      { query: 'personal AND information', index: 'stemmed' },
+      { query: 'personal AND information*', index: 'stemmed' },
+      { query: 'personal OR information', index: 'stemmed' },
+    ]);
+  });
+
+  it('falls back to suffix truncation without a stemmed index', () => {
+    expect(buildFtsQueryVariants('penalties notify')).toContainEqual({ query: 'penalt* AND notify', index: 'exact' });
+  });
+
+  it('passes boolean queries through', () => {
+    expect(buildFtsQueryVariants('breach OR notify', { stemmedIndex: true })).toEqual([{ query: 'breach OR notify', index: 'exact' }]);
+  });
+
+  it('expands thesaurus terms in the phrase and AND tiers', () => {
+    const variants = buildFtsQueryVariants('NDB penalty', { stemmedIndex: true, expansions: [NDB] });
+    expect(variants.slice(0, 3)).toEqual([
+      {
+        query: '"NDB penalty" OR "eligible data breach penalty" OR "notifiable data breach penalty"',
+        index: 'exact',
+        expanded: true,
+      },
+      { query: '("NDB" OR "eligible data breach" OR "notifiable data breach") AND penalty', index: 'exact', expanded: true },
+      { query: '("NDB" OR "eligible data breach" OR "notifiable data breach") AND penalty', index: 'stemmed', expanded: true },
+    ]);
+    expect(variants.slice(3).every(variant => !variant.expanded)).toBe(true);
+  });
+
+  it('requires scopes in every variant and excludes negated scopes', () => {
+    const variants = buildFtsQueryVariants('notify', {
+      scopes: [
+        { field: 'title', value: 'breach' },
+        { field: 'act', value: 'Privacy Act' },
+        { field: 'title', value: 'repeal', negated: true },
+      ],
+    });
+    expect(variants[0]).toEqual({
+      query: '(notify) AND title : "breach" AND act_title : "Privacy Act" NOT (title : "repeal")',
+      index: 'exact',
+    });
+    expect(variants.every(variant => variant.query.endsWith('NOT (title : "repeal")'))).toBe(true);
+  });
+
+  it('makes a query of scopes alone, keeping a trailing * as a prefix', () => {
+    expect(buildFtsQueryVariants('', { stemmedIndex: true, scopes: [{ field: 'title', value: 'notif*' }] })).toEqual([
+      { query: 'title : "notif" *', index: 'exact' },
+      { query: 'title : "notif" *', index: 'stemmed' },
+    ]);
+  });
+
+  it('builds nothing from excluded scopes alone', () => {
+    expect(buildFtsQueryVariants('', { scopes: [{ field: 'title', value: 'repeal', negated: true }] })).toEqual([]);
+  });
+
+  it('builds queries that FTS5 accepts', () => {
+    const db = createFixtureDb();
+    const queries = [
+      'personal information',
+      'title:breach notify',
+      'breach AND title:notification',
+      'notify NOT title:repeal',
+      '(title:breach) AND notify',
+      'act:"Privacy Act" NEAR(eligible breach, 5)',
+      'title:notif* entity',
+    ];
+    for (const input of queries) {
+      const { text, scopes } = parseFieldScopes(input);
+      const sanitized = sanitizeFtsInput(text);
+      for (const variant of buildFtsQueryVariants(sanitized, { stemmedIndex: true, expansions: [NDB], scopes })) {
+        const table = PROVISION_FTS_TABLES[variant.index];
+        expect(() => db.prepare(`SELECT rowid FROM ${table} WHERE ${table} MATCH ?`).all(variant.query), variant.query)
+          .not.toThrow();
+      }
+    }
+  });
+});
+
+describe('provisionBm25', () => {
+  it('weights the title above the text by default', () => {
+    expect(provisionBm25('provisions_fts')).toBe('bm25(provisions_fts, 1, 4, 1.5)');
+  });
+
+  it('falls back to the default for weights out of range', () => {
+    expect(provisionBm25('provisions_stem_fts', { title: 10, content: -1, act_title: Number.NaN }))
+      .toBe('bm25(provisions_stem_fts, 1, 10, 1.5)');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseAustralianHtml, type ActIndexEntry } from '../../scripts/lib/parser.js';
+
+const ACT: ActIndexEntry = {
+  id: 'test-act-2020',
+  title: 'Test Act 2020',
+  year: 2020,
+  titleId: 'C2020A00001',
+  url: 'https://www.legislation.gov.au/C2020A00001/latest/text',
+  status: 'in_force',
+};
+
+const p = (cls: string, text: string) => `<p class="${cls}">${text}</p>`;
+
+const HTML = [
+  p('TOC2', 'Part 1—Preliminary'),
+  p('TOC5', '1&#xa0; Short title'),
+  p('TOC5', '6&#xa0; Offence'),
+  p('TOC5', '7&#xa0; Section missing from the text'),
+  p('TOC5', '995&#x2011;1&#xa0; Definitions'),
+  p('TOC1', 'Schedule 1—Australian Privacy Principles'),
+  p('TOC5', '1&#xa0; Australian Privacy Principle 1'),
+  p('ActHead2', 'Part 1—Preliminary'),
+  p('ActHead5', '1&#xa0; Short title'),
+  p('subsection', 'This Act may be cited as the Test Act 2020.'),
+  p('ActHead3', 'Division 2—Offences'),
+  p('ActHead5', '6&#xa0; Offence'),
+  p('subsection', '(1) A person commits an offence if the person discloses protected information.'),
+  p('Penalty', 'Penalty: Imprisonment for 2 years or 120 penalty units, or both.'),
+  p('subsection', '(2) An entity contravenes this subsection if the entity fails to keep records.'),
+  p('Penalty', 'Civil penalty: (a) for an individual—2,000 penalty units; (b) for a body corporate—5 times the penalty for an individual.'),
+  p('ActHead4', 'Offences about records'),
+  p('ActHead5', '995&#x2011;1&#xa0; Definitions'),
+  p('subsection', '(1) In this Act, record includes a document.'),
+  p('ActHead1', 'Schedule 1—Australian Privacy Principles'),
+  p('ActHead2', 'Part 1—Consideration of personal information privacy'),
+  p('ActHead5', '1&#xa0; Australian Privacy Principle 1—open and transparent management of personal information'),
+  p('subsection', '1.1 The object of this principle is to ensure that entities manage personal information openly.'),
+  p('ActHead1', 'Schedule 2—Australian Consumer Law'),
+  p('ActHead5', '18&#xa0; Misleading or deceptive conduct'),
+  p('subsection', '(1) A person must not engage in misleading conduct. Section 19 and section 20 limit this section.'),
+  p('ENotesHeading1', 'Endnotes'),
+].join('\n');
+
+describe('parseAustralianHtml', () => {
+  const parsed = parseAustralianHtml(HTML, ACT);
+  const provision = (ref: string) => parsed.provisions.find(prov => prov.provision_ref === ref);
+
+  it('classifies structural headings and nests them', () => {
+    expect(parsed.headings).toEqual([
+      { heading_ref: 'pt1', parent_ref: null, level: 'part', number: '1', title: 'Preliminary' },
+      { heading_ref: 'pt1/div2', parent_ref: 'pt1', level: 'division', number: '2', title: 'Offences' },
+      { heading_ref: 'pt1/div2/sdiv', parent_ref: 'pt1/div2', level: 'subdivision', number: null, title: 'Offences about records' },
+      { heading_ref: 'sch1', parent_ref: null, level: 'schedule', number: '1', title: 'Australian Privacy Principles' },
+      {
+        heading_ref: 'sch1/pt1',
+        parent_ref: 'sch1',
+        level: 'part',
+        number: '1',
+        title: 'Consideration of personal information privacy',
+      },
+      { heading_ref: 'sch2', parent_ref: null, level: 'schedule', number: '2', title: 'Australian Consumer Law' },
+    ]);
+  });
+
+  it('places each section under its innermost heading', () => {
+    expect(provision('s1')).toMatchObject({ heading_ref: 'pt1', chapter: 'Part 1—Preliminary' });
+    expect(provision('s6')).toMatchObject({ heading_ref: 'pt1/div2', chapter: 'Part 1—Preliminary > Division 2—Offences' });
+  });
+
+  it('parses hyphenated section numbers', () => {
+    expect(provision('s995-1')).toMatchObject({ section: '995-1', title: 'Definitions', heading_ref: 'pt1/div2/sdiv' });
+  });
+
+  it('gives schedule provisions their own refs and citation labels', () => {
+    expect(provision('sch1-app1')).toMatchObject({ section: 'APP 1', heading_ref: 'sch1/pt1' });
+    expect(provision('sch2-s18')).toMatchObject({ section: 'Sch 2 s 18', heading_ref: 'sch2' });
+    expect(parsed.provisions.map(prov => prov.provision_ref)).toEqual(['s1', 's6', 's995-1', 'sch1-app1', 'sch2-s18']);
+  });
+
+  it('extracts penalties with the subsection they end', () => {
+    expect(provision('s6')?.penalties).toEqual([
+      {
+        unit_ref: 's6(1)',
+        penalty_type: 'offence',
+        penalty_units: 120,
+        imprisonment_months: 24,
+        body_corporate_penalty_units: null,
+        body_corporate_multiplier: null,
+        text: 'Penalty: Imprisonment for 2 years or 120 penalty units, or both.',
+      },
+      {
+        unit_ref: 's6(2)',
+        penalty_type: 'civil_penalty',
+        penalty_units: 2000,
+        imprisonment_months: null,
+        body_corporate_penalty_units: null,
+        body_corporate_multiplier: 5,
+        text: 'Civil penalty: (a) for an individual—2,000 penalty units; (b) for a body corporate—5 times the penalty for an individual.',
+      },
+    ]);
+  });
+
+  it('lists sections in the contents that are missing from the text', () => {
+    expect(parsed.missing_sections).toEqual(['7']);
+  });
+});
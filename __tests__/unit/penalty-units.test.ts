@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { PENALTY_UNIT_VALUES, penaltyAmounts, penaltyUnitValueAsOf } from '../../src/utils/penalty-units.js';
+
+describe('penaltyUnitValueAsOf', () => {
+  it('returns the value in force on a date', () => {
+    expect(penaltyUnitValueAsOf('2020-06-30')?.amount).toBe(210);
+    expect(penaltyUnitValueAsOf('2020-07-01')?.amount).toBe(222);
+    expect(penaltyUnitValueAsOf('2030-01-01')).toEqual(PENALTY_UNIT_VALUES[PENALTY_UNIT_VALUES.length - 1]);
+  });
+
+  it('returns null before the first held value', () => {
+    expect(penaltyUnitValueAsOf('2000-01-01')).toBeNull();
+  });
+});
+
+describe('penaltyAmounts', () => {
+  const unitValue = { from: '2024-11-07', amount: 330 };
+
+  it('converts penalty units to dollars', () => {
+    expect(penaltyAmounts(
+      { penalty_units: 2000, body_corporate_penalty_units: 10000, body_corporate_multiplier: null },
+      unitValue,
+    )).toEqual({ max_amount_individual: 660000, max_amount_body_corporate: 3300000 });
+  });
+
+  it('applies a body corporate multiplier to the individual amount', () => {
+    expect(penaltyAmounts(
+      { penalty_units: 100, body_corporate_penalty_units: null, body_corporate_multiplier: 5 },
+      unitValue,
+    )).toEqual({ max_amount_individual: 33000, max_amount_body_corporate: 165000 });
+  });
+
+  it('gives no body corporate amount unless the provision states one', () => {
+    expect(penaltyAmounts(
+      { penalty_units: 60, body_corporate_penalty_units: null, body_corporate_multiplier: null },
+      unitValue,
+    )).toEqual({ max_amount_individual: 19800, max_amount_body_corporate: null });
+  });
+
+  it('gives no amounts without a unit value', () => {
+    expect(penaltyAmounts(
+      { penalty_units: 60, body_corporate_penalty_units: null, body_corporate_multiplier: null },
+      null,
+    )).toEqual({ max_amount_individual: null, max_amount_body_corporate: null });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parsePinpoint } from '../../src/utils/pinpoint.js';
+
+describe('parsePinpoint', () => {
+  it('splits a section reference into section and pinpoint', () => {
+    expect(parsePinpoint('s 26WE(2)(b)')).toEqual({ sectionRef: 's26WE', section: '26WE', pinpoint: '(2)(b)' });
+    expect(parsePinpoint('section 13(1)')).toEqual({ sectionRef: 's13', section: '13', pinpoint: '(1)' });
+    expect(parsePinpoint('26WE(2) (b)')).toEqual({ sectionRef: '26WE', section: '26WE', pinpoint: '(2)(b)' });
+    expect(parsePinpoint('r 5(1)(a)(ii)')).toEqual({ sectionRef: 'r5', section: '5', pinpoint: '(1)(a)(ii)' });
+  });
+
+  it('accepts dotted and hyphenated section numbers', () => {
+    expect(parsePinpoint('s 476.2')).toEqual({ sectionRef: 's476.2', section: '476.2', pinpoint: '' });
+    expect(parsePinpoint('s 995-1(1)')).toEqual({ sectionRef: 's995-1', section: '995-1', pinpoint: '(1)' });
+    expect(parsePinpoint('284-75')).toEqual({ sectionRef: '284-75', section: '284-75', pinpoint: '' });
+  });
+
+  it('returns null for references that are not section numbers', () => {
+    expect(parsePinpoint('Part IIIC')).toBeNull();
+    expect(parsePinpoint('art 5')).toBeNull();
+    expect(parsePinpoint('')).toBeNull();
+  });
+
+  it('maps Australian Privacy Principles to Schedule 1', () => {
+    expect(parsePinpoint('APP 1')).toEqual({ sectionRef: 'sch1-app1', section: 'APP 1', pinpoint: '' });
+    expect(parsePinpoint('Australian Privacy Principle 11.2(a)')).toEqual({
+      sectionRef: 'sch1-app11',
+      section: 'APP 11',
+      pinpoint: '.2(a)',
+    });
+  });
+
+  it('parses cited schedule provisions with their alternative refs', () => {
+    expect(parsePinpoint('Sch 1 cl 3(2)')).toEqual({
+      sectionRef: 'sch1-cl3',
+      section: 'Sch 1 cl 3',
+      pinpoint: '(2)',
+      alternatives: ['sch1-s3', 'sch1-app3'],
+    });
+    expect(parsePinpoint('Schedule 2 s 18')).toMatchObject({ sectionRef: 'sch2-s18', section: 'Sch 2 s 18' });
+    expect(parsePinpoint('Schedule 1 section 284-75')).toMatchObject({ sectionRef: 'sch1-s284-75', pinpoint: '' });
+  });
+
+  it('accepts stored schedule refs', () => {
+    expect(parsePinpoint('sch1-app1.4')).toEqual({ sectionRef: 'sch1-app1', section: 'sch1-app1', pinpoint: '.4' });
+    expect(parsePinpoint('SCH2-s18(1)')).toEqual({ sectionRef: 'sch2-s18', section: 'sch2-s18', pinpoint: '(1)' });
+  });
+});
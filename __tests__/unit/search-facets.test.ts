@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ACT_YEAR_SQL, aggregateFacets, chapterFilter, FACET_SCAN_LIMIT, type FacetRow } from '../../src/utils/search-facets.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+function row(overrides: Partial<FacetRow> = {}): FacetRow {
+  return {
+    document_id: 'privacy-act-1988',
+    document_title: 'Privacy Act 1988',
+    status: 'in_force',
+    year: 1988,
+    chapter: 'Part IIIC—Notification of eligible data breaches > Division 3—Notification',
+    ...overrides,
+  };
+}
+
+describe('aggregateFacets', () => {
+  it('counts hits by Act, status, decade and top-level heading', () => {
+    const facets = aggregateFacets([
+      row(),
+      row(),
+      row({ chapter: 'Part II—Interpretation' }),
+      row({ document_id: 'spam-act-2003', document_title: 'Spam Act 2003', year: 2003, chapter: null, status: 'amended' }),
+      row({ year: null }),
+    ]);
+    expect(facets).toEqual({
+      total_hits: 5,
+      documents: [
+        { document_id: 'privacy-act-1988', title: 'Privacy Act 1988', count: 4 },
+        { document_id: 'spam-act-2003', title: 'Spam Act 2003', count: 1 },
+      ],
+      status: [{ value: 'in_force', count: 4 }, { value: 'amended', count: 1 }],
+      years: [{ from: 1980, to: 1989, count: 3 }, { from: 2000, to: 2009, count: 1 }],
+      chapters: [
+        { document_id: 'privacy-act-1988', chapter: 'Part IIIC—Notification of eligible data breaches', count: 3 },
+        { document_id: 'privacy-act-1988', chapter: 'Part II—Interpretation', count: 1 },
+      ],
+    });
+  });
+
+  it('marks counts truncated beyond FACET_SCAN_LIMIT', () => {
+    const facets = aggregateFacets(Array.from({ length: FACET_SCAN_LIMIT + 1 }, () => row()));
+    expect(facets.total_hits).toBe(FACET_SCAN_LIMIT);
+    expect(facets.truncated).toBe(true);
+    expect(facets.documents[0].count).toBe(FACET_SCAN_LIMIT);
+  });
+});
+
+describe('year and chapter filters', () => {
+  const db = createFixtureDb();
+
+  it('reads the year from the title, else from the date the instrument was made', () => {
+    db.prepare(`
+      INSERT INTO legal_documents (id, type, title, status, issued_date)
+      VALUES ('undated-title', 'legislative_instrument', 'Privacy (Credit Reporting) Code', 'in_force', '2014-03-12')
+    `).run();
+    const years = db.prepare(`SELECT ld.id, ${ACT_YEAR_SQL} AS year FROM legal_documents ld ORDER BY ld.id`).all();
+    expect(years).toEqual([
+      { id: 'privacy-act-1988', year: 1988 },
+      { id: 'privacy-regulation-2013', year: 2013 },
+      { id: 'spam-act-2003', year: 2003 },
+      { id: 'undated-title', year: 2014 },
+    ]);
+  });
+
+  it('matches a heading anywhere in the breadcrumb by label or in full', () => {
+    const refs = (chapter: string) => {
+      const filter = chapterFilter('lp.chapter', chapter);
+      return (db.prepare(`SELECT provision_ref FROM legal_provisions lp WHERE ${filter.sql} ORDER BY lp.id`)
+        .all(...filter.params) as Array<{ provision_ref: string }>).map(r => r.provision_ref);
+    };
+    expect(refs('Part IIIC')).toEqual(['s26WE', 's26WK', 's26WL']);
+    expect(refs('Division 3')).toEqual(['s26WK', 's26WL']);
+    expect(refs('Part III—Information privacy')).toEqual(['s13', 's13G']);
+    expect(refs('Part III')).toEqual(['s13', 's13G']);
+    expect(refs('Part%')).toEqual([]);
+  });
+});
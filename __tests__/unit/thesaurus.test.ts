@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { findQueryExpansions } from '../../src/utils/thesaurus.js';
+import { createFixtureDb } from '../helpers/fixture-db.js';
+
+describe('findQueryExpansions', () => {
+  const db = createFixtureDb();
+
+  it('expands acronyms written in capitals only', () => {
+    expect(findQueryExpansions(db, 'NDB statement')).toEqual([
+      { term: 'NDB', expansions: ['eligible data breach', 'notifiable data breach'], kind: 'acronym' },
+    ]);
+    expect(findQueryExpansions(db, 'ndb statement')).toEqual([]);
+  });
+
+  it('matches spellings and synonyms in any case, longest term first', () => {
+    expect(findQueryExpansions(db, 'Personal Data of an Organization')).toEqual([
+      { term: 'Personal Data', expansions: ['personal information'], kind: 'synonym' },
+      { term: 'Organization', expansions: ['organisation'], kind: 'spelling' },
+    ]);
+  });
+
+  it('does not expand prefix terms', () => {
+    expect(findQueryExpansions(db, 'organization*')).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, MAX_EDIT_DISTANCE } from '../../src/utils/word-diff.js';
+
+describe('diffWords', () => {
+  it('returns one equal segment for identical texts', () => {
+    const diff = diffWords('An entity must not  disclose\ninformation.', 'An entity must not disclose information.');
+    expect(diff.segments).toEqual([{ type: 'equal', text: 'An entity must not disclose information.' }]);
+    expect(diff.inserted_words).toBe(0);
+    expect(diff.deleted_words).toBe(0);
+    expect(diff.replaced).toBeUndefined();
+  });
+
+  it('merges consecutive changed words into one segment', () => {
+    const diff = diffWords(
+      'Penalty: 100 penalty units.',
+      'Penalty: 2,000 penalty units or imprisonment for 2 years.',
+    );
+    expect(diff.segments).toEqual([
+      { type: 'equal', text: 'Penalty:' },
+      { type: 'delete', text: '100' },
+      { type: 'insert', text: '2,000' },
+      { type: 'equal', text: 'penalty' },
+      { type: 'delete', text: 'units.' },
+      { type: 'insert', text: 'units or imprisonment for 2 years.' },
+    ]);
+    expect(diff.inserted_words).toBe(7);
+    expect(diff.deleted_words).toBe(2);
+  });
+
+  it('diffs changes in the middle of a long text', () => {
+    const words = Array.from({ length: 5000 }, (_, i) => `w${i}`);
+    const after = [...words];
+    after[10] = 'changed';
+    after.splice(4000, 0, 'inserted');
+    const diff = diffWords(words.join(' '), after.join(' '));
+    expect(diff.inserted_words).toBe(2);
+    expect(diff.deleted_words).toBe(1);
+    expect(diff.segments.filter(s => s.type !== 'equal')).toEqual([
+      { type: 'delete', text: 'w10' },
+      { type: 'insert', text: 'changed' },
+      { type: 'insert', text: 'inserted' },
+    ]);
+  });
+
+  it('marks texts further apart than MAX_EDIT_DISTANCE as replaced', () => {
+    const before = Array.from({ length: MAX_EDIT_DISTANCE }, (_, i) => `old${i}`);
+    const after = Array.from({ length: MAX_EDIT_DISTANCE }, (_, i) => `new${i}`);
+    const diff = diffWords(`Start ${before.join(' ')} end.`, `Start ${after.join(' ')} end.`);
+    expect(diff.replaced).toBe(true);
+    expect(diff.segments.map(s => s.type)).toEqual(['equal', 'delete', 'insert', 'equal']);
+    expect(diff.deleted_words).toBe(MAX_EDIT_DISTANCE);
+    expect(diff.inserted_words).toBe(MAX_EDIT_DISTANCE);
+  });
+});
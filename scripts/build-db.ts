@@ -12,36 +12,116 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { provisionCurrency } from './lib/currency.js';
+import { CASE_LAW_SCHEMA, PREPARATORY_WORKS_SCHEMA, SCHEMA } from './lib/schema.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
 const DB_PATH = path.resolve(__dirname, '../data/database.db');
+const VERSION_SEED_DIR = path.join(SEED_DIR, 'versions');
+const CASE_LAW_SEED_DIR = path.join(SEED_DIR, 'case-law');
+const PREPARATORY_WORKS_SEED_DIR = path.join(SEED_DIR, 'preparatory-works');
+const THESAURUS_PATH = path.resolve(__dirname, '../data/thesaurus.json');
 
 // Seed file types
 interface DocumentSeed {
   id: string;
-  type: 'statute';
+  type: 'statute' | 'legislative_instrument';
   title: string;
   title_en?: string;
   short_name?: string;
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
-  issued_date?: string;
-  in_force_date?: string;
+  issued_date?: string | null;
+  in_force_date?: string | null;
   url?: string;
   description?: string;
+  compilation?: CompilationSeed;
+  enabling_act?: string;
+  headings?: HeadingSeed[];
   provisions?: ProvisionSeed[];
   definitions?: DefinitionSeed[];
+  missing_sections?: string[];
+  amendments?: AmendmentSeed[];
+  commencement?: CommencementSeed[];
+}
+
+interface CompilationSeed {
+  compilation_number: string;
+  register_id: string;
+  start_date: string;
+  end_date: string | null;
+}
+
+interface AmendmentSeed {
+  provision_ref: string | null;
+  provision_label: string;
+  action: 'ad' | 'am' | 'rs' | 'rep' | 'renum' | 'exp';
+  amending_act: string;
+  amending_title: string | null;
+  assent_date: string | null;
+  commencement_date: string | null;
+}
+
+interface CommencementSeed {
+  item: string;
+  provisions: string;
+  commencement: string;
+  commencement_date: string | null;
+  details: string | null;
+}
+
+interface HeadingSeed {
+  heading_ref: string;
+  parent_ref: string | null;
+  level: 'schedule' | 'chapter' | 'part' | 'division' | 'subdivision';
+  number: string | null;
+  title: string;
 }
 
 interface ProvisionSeed {
   provision_ref: string;
   chapter?: string;
+  heading_ref?: string;
   section: string;
   title?: string;
   content: string;
   metadata?: Record<string, unknown>;
+  layout?: LayoutBlockSeed[];
+  units?: ProvisionUnitSeed[];
+  penalties?: PenaltySeed[];
+  notes?: NoteSeed[];
+  repealed?: boolean;
+}
+
+type LayoutBlockSeed =
+  | { kind: 'text' | 'heading' | 'definition' | 'penalty' | 'note' | 'example'; depth: number; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+interface PenaltySeed {
+  unit_ref: string | null;
+  penalty_type: 'offence' | 'civil_penalty';
+  penalty_units: number | null;
+  imprisonment_months: number | null;
+  body_corporate_penalty_units: number | null;
+  body_corporate_multiplier: number | null;
+  text: string;
+}
+
+interface NoteSeed {
+  unit_ref: string | null;
+  kind: 'note' | 'example' | 'editorial';
+  text: string;
+}
+
+interface ProvisionUnitSeed {
+  unit_ref: string;
+  parent_ref: string;
+  level: 'subsection' | 'paragraph' | 'subparagraph';
+  label: string;
+  lead_in: string;
+  content: string;
 }
 
 interface DefinitionSeed {
@@ -66,170 +146,52 @@ interface ExtractedEUReference {
   referenceType: EUReferenceType;
 }
 
-// Database schema
-const SCHEMA = `
--- Legal documents (statutes)
-CREATE TABLE legal_documents (
-  id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK(type IN ('statute', 'bill', 'case_law')),
-  title TEXT NOT NULL,
-  title_en TEXT,
-  short_name TEXT,
-  status TEXT NOT NULL DEFAULT 'in_force'
-    CHECK(status IN ('in_force', 'amended', 'repealed', 'not_yet_in_force')),
-  issued_date TEXT,
-  in_force_date TEXT,
-  url TEXT,
-  description TEXT,
-  last_updated TEXT DEFAULT (datetime('now'))
-);
-
--- Individual provisions from statutes
-CREATE TABLE legal_provisions (
-  id INTEGER PRIMARY KEY,
-  document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  provision_ref TEXT NOT NULL,
-  chapter TEXT,
-  section TEXT NOT NULL,
-  title TEXT,
-  content TEXT NOT NULL,
-  metadata TEXT,
-  UNIQUE(document_id, provision_ref)
-);
-
-CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
-CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
-
--- FTS5 for provision search
-CREATE VIRTUAL TABLE provisions_fts USING fts5(
-  content, title,
-  content='legal_provisions',
-  content_rowid='id',
-  tokenize='unicode61'
-);
-
-CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
-END;
-
-CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-END;
-
-CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
-  INSERT INTO provisions_fts(provisions_fts, rowid, content, title)
-  VALUES ('delete', old.id, old.content, old.title);
-  INSERT INTO provisions_fts(rowid, content, title)
-  VALUES (new.id, new.content, new.title);
-END;
-
--- Cross-references between provisions/documents
-CREATE TABLE cross_references (
-  id INTEGER PRIMARY KEY,
-  source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  source_provision_ref TEXT,
-  target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  target_provision_ref TEXT,
-  ref_type TEXT NOT NULL DEFAULT 'references'
-    CHECK(ref_type IN ('references', 'amended_by', 'implements', 'see_also'))
-);
-
-CREATE INDEX idx_xref_source ON cross_references(source_document_id);
-CREATE INDEX idx_xref_target ON cross_references(target_document_id);
-
--- Legal term definitions
-CREATE TABLE definitions (
-  id INTEGER PRIMARY KEY,
-  document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  term TEXT NOT NULL,
-  term_en TEXT,
-  definition TEXT NOT NULL,
-  source_provision TEXT,
-  UNIQUE(document_id, term)
-);
-
--- FTS5 for definition search
-CREATE VIRTUAL TABLE definitions_fts USING fts5(
-  term, definition,
-  content='definitions',
-  content_rowid='id',
-  tokenize='unicode61'
-);
-
-CREATE TRIGGER definitions_ai AFTER INSERT ON definitions BEGIN
-  INSERT INTO definitions_fts(rowid, term, definition)
-  VALUES (new.id, new.term, new.definition);
-END;
-
-CREATE TRIGGER definitions_ad AFTER DELETE ON definitions BEGIN
-  INSERT INTO definitions_fts(definitions_fts, rowid, term, definition)
-  VALUES ('delete', old.id, old.term, old.definition);
-END;
-
-CREATE TRIGGER definitions_au AFTER UPDATE ON definitions BEGIN
-  INSERT INTO definitions_fts(definitions_fts, rowid, term, definition)
-  VALUES ('delete', old.id, old.term, old.definition);
-  INSERT INTO definitions_fts(rowid, term, definition)
-  VALUES (new.id, new.term, new.definition);
-END;
-
--- EU Documents (directives and regulations)
-CREATE TABLE eu_documents (
-  id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK (type IN ('directive', 'regulation')),
-  year INTEGER NOT NULL CHECK (year >= 1957 AND year <= 2100),
-  number INTEGER NOT NULL CHECK (number > 0),
-  community TEXT CHECK (community IN ('EU', 'EC', 'EEC', 'Euratom')),
-  celex_number TEXT,
-  title TEXT,
-  title_en TEXT,
-  short_name TEXT,
-  adoption_date TEXT,
-  entry_into_force_date TEXT,
-  in_force BOOLEAN DEFAULT 1,
-  amended_by TEXT,
-  repeals TEXT,
-  url_eur_lex TEXT,
-  description TEXT,
-  last_updated TEXT DEFAULT CURRENT_TIMESTAMP
-);
-
-CREATE INDEX idx_eu_documents_type_year ON eu_documents(type, year DESC);
-
--- EU References (links national provisions to EU documents)
-CREATE TABLE eu_references (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  source_type TEXT NOT NULL CHECK (source_type IN ('provision', 'document', 'case_law')),
-  source_id TEXT NOT NULL,
-  document_id TEXT NOT NULL REFERENCES legal_documents(id),
-  provision_id INTEGER REFERENCES legal_provisions(id),
-  eu_document_id TEXT NOT NULL REFERENCES eu_documents(id),
-  eu_article TEXT,
-  reference_type TEXT NOT NULL CHECK (reference_type IN (
-    'implements', 'supplements', 'applies', 'references', 'complies_with',
-    'derogates_from', 'amended_by', 'repealed_by', 'cites_article'
-  )),
-  reference_context TEXT,
-  full_citation TEXT,
-  is_primary_implementation BOOLEAN DEFAULT 0,
-  implementation_status TEXT CHECK (implementation_status IN ('complete', 'partial', 'pending', 'unknown')),
-  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-  last_verified TEXT,
-  UNIQUE(source_id, eu_document_id, eu_article)
-);
-
-CREATE INDEX idx_eu_references_document ON eu_references(document_id, eu_document_id);
-CREATE INDEX idx_eu_references_eu_document ON eu_references(eu_document_id, document_id);
-CREATE INDEX idx_eu_references_provision ON eu_references(provision_id, eu_document_id);
-
--- Build metadata
-CREATE TABLE db_metadata (
-  key TEXT PRIMARY KEY,
-  value TEXT NOT NULL
-);
-`;
+interface SupersededProvision {
+  provision: ProvisionSeed;
+  validFrom: string;
+  validTo: string;
+}
+
+interface VersionHistory {
+  compilations: CompilationSeed[];
+  validFromByRef: Map<string, string>;
+  superseded: SupersededProvision[];
+}
+
+interface CaseSeed {
+  id: string;
+  citation: string;
+  case_name: string;
+  court: string;
+  court_code?: string;
+  decision_date?: string | null;
+  catchwords?: string | null;
+  url?: string;
+  paragraphs?: Array<{ paragraph_number: number; text: string }>;
+}
+
+interface PreparatoryWorkSeed {
+  document_id: string;
+  work_type: 'explanatory_memorandum' | 'explanatory_statement' | 'second_reading_speech';
+  title: string;
+  date?: string | null;
+  url?: string;
+  source_file?: string;
+  segments?: Array<{ clause_ref: string | null; provision_ref: string | null; heading: string | null; content: string }>;
+}
+
+interface ThesaurusFile {
+  version: string;
+  entries: Array<{ term: string; kind: 'acronym' | 'spelling' | 'synonym'; expansions: string[] }>;
+}
+
+interface ExtractedCrossReference {
+  targetDocumentId: string;
+  targetProvisionRef: string | null;
+  /** A cited Part ("ptiiic"); both refs are null for a whole Act */
+  targetHeadingRef?: string;
+  referenceText: string;
+}
 
 function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, ' ').trim();
@@ -247,6 +209,115 @@ function dedupeProvisions(provisions: ProvisionSeed[]): ProvisionSeed[] {
   return Array.from(byRef.values());
 }
 
+/**
+ * Load the superseded compilations of a document from data/seed/versions/{id}/.
+ * Returns them oldest first; compilations without dates are ignored.
+ */
+function loadHistoricalCompilations(documentId: string): DocumentSeed[] {
+  const dir = path.join(VERSION_SEED_DIR, documentId);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(f => f.endsWith('.json'))
+    .map(f => JSON.parse(fs.readFileSync(path.join(dir, f), 'utf-8')) as DocumentSeed)
+    .filter(v => v.compilation?.start_date)
+    .sort((a, b) => a.compilation!.start_date.localeCompare(b.compilation!.start_date));
+}
+
+/**
+ * Collapse a document's compilations into date ranges per provision.
+ *
+ * Walks the compilations oldest to newest. A provision's text stays "open"
+ * while it is unchanged; when it changes or disappears, the old text is
+ * closed off as a superseded row ending at the start of that compilation.
+ * Texts still open at the latest compilation are the current provisions,
+ * and their opening date becomes legal_provisions.valid_from.
+ */
+function buildVersionHistory(seed: DocumentSeed, historical: DocumentSeed[]): VersionHistory {
+  const history: VersionHistory = { compilations: [], validFromByRef: new Map(), superseded: [] };
+  if (!seed.compilation?.start_date) return history;
+
+  const ordered = [
+    ...historical.filter(v => v.compilation!.start_date < seed.compilation!.start_date),
+    seed,
+  ];
+  const open = new Map<string, { provision: ProvisionSeed; validFrom: string }>();
+
+  for (const version of ordered) {
+    const start = version.compilation!.start_date;
+    history.compilations.push(version.compilation!);
+
+    const current = new Map(dedupeProvisions(version.provisions ?? []).map(p => [p.provision_ref, p]));
+
+    for (const [ref, entry] of open) {
+      const next = current.get(ref);
+      const unchanged = next
+        && normalizeWhitespace(next.content) === normalizeWhitespace(entry.provision.content)
+        && (next.title ?? '') === (entry.provision.title ?? '');
+      if (!unchanged) {
+        history.superseded.push({ provision: entry.provision, validFrom: entry.validFrom, validTo: start });
+        open.delete(ref);
+      }
+    }
+
+    for (const [ref, prov] of current) {
+      if (!open.has(ref)) open.set(ref, { provision: prov, validFrom: start });
+    }
+  }
+
+  for (const [ref, entry] of open) {
+    history.validFromByRef.set(ref, entry.validFrom);
+  }
+
+  return history;
+}
+
+/**
+ * The commencement item covering each provision. Items name sections
+ * ("Sections 3 to 36", ranges in document order) or whole Schedules;
+ * parts of a Schedule ("Schedule 1, items 1 to 5") are amending items that
+ * are not in the compiled text. The residual item ("anything in this Act
+ * not elsewhere covered", "The whole of this Act") takes what is left.
+ */
+function commencementCoverage(items: CommencementSeed[], provisions: ProvisionSeed[]): Map<string, string> {
+  const refs = provisions.map(p => p.provision_ref);
+  const bodyRefs = refs.filter(ref => !ref.startsWith('sch'));
+  const sectionIndex = new Map(bodyRefs.map((ref, i) => [ref.replace(/^[a-z]+/, ''), i]));
+  const schedules = [...new Set(refs.filter(ref => ref.startsWith('sch')).map(ref => ref.match(/^sch([^-]+)/)![1]))];
+
+  const coverage = new Map<string, string>();
+  const cover = (ref: string, item: string) => {
+    if (!coverage.has(ref)) coverage.set(ref, item);
+  };
+  const expand = (list: string, order: string[]): string[] =>
+    list.split(/\s*(?:,|\band\b)\s*/).filter(Boolean).flatMap(part => {
+      const range = part.match(/^(\S+)\s+to\s+(\S+)$/);
+      const from = order.indexOf(range ? range[1] : part);
+      const to = range ? order.indexOf(range[2]) : from;
+      return from >= 0 && to >= from ? order.slice(from, to + 1) : [];
+    });
+
+  for (const item of items) {
+    const mentions = /\b(Sections?|Regulations?|Rules?|Schedules?)\s+(\d[\dA-Z.-]*(?:\s*(?:,|\band\b|\bto\b)\s*\d[\dA-Z.-]*)*)(\s*,\s*(?:items?|Parts?|Divisions?|clauses?)\b)?/gi;
+    for (const m of item.provisions.matchAll(mentions)) {
+      if (/^schedule/i.test(m[1])) {
+        if (m[3]) continue;
+        for (const schedule of expand(m[2], schedules)) {
+          refs.filter(ref => ref.startsWith(`sch${schedule}-`)).forEach(ref => cover(ref, item.item));
+        }
+      } else {
+        const order = [...sectionIndex.keys()];
+        expand(m[2], order).forEach(section => cover(bodyRefs[sectionIndex.get(section)!], item.item));
+      }
+    }
+  }
+
+  const residual = items.find(item =>
+    /anything in this (?:Act|instrument) not elsewhere covered|whole of this (?:Act|instrument)/i.test(item.provisions));
+  if (residual) refs.forEach(ref => cover(ref, residual.item));
+  return coverage;
+}
+
 function extractEuReferences(text: string): ExtractedEUReference[] {
   if (!text || text.trim().length === 0) return [];
 
@@ -301,6 +372,255 @@ function extractEuReferences(text: string): ExtractedEUReference[] {
   return refs;
 }
 
+// Act titles as they appear in running text, e.g. "the Corporations Act 2001".
+// Each word must be capitalised or a joining word, which stops the match
+// from swallowing the preceding sentence.
+const TITLE_WORDS_PATTERN = String.raw`[A-Z][\w'’()-]*(?:\s+(?:[A-Z][\w'’()-]*|and|of|the|for|to|on|in|or))*`;
+const ACT_TITLE_PATTERN = String.raw`${TITLE_WORDS_PATTERN}\s+Act\s+\d{4}`;
+// Acts and the instruments made under them, e.g. "the Privacy Regulation 2013"
+const LEGISLATION_TITLE_PATTERN = String.raw`${TITLE_WORDS_PATTERN}\s+(?:Act|Regulations?|Rules)\s+\d{4}`;
+// 13, 26WE(2)(b), 476.2 (Criminal Code), 995-1 (ITAA 1997)
+const SECTION_NUMBER_PATTERN = String.raw`\d+[A-Z]*(?:[.-]\d+[A-Z]*)*(?:\(\w+\))*`;
+
+/**
+ * The title pattern can start early ("See Part IIIC and the Corporations Act 2001"),
+ * so drop leading words until a known title matches.
+ */
+function resolveActTitle(
+  candidate: string,
+  documentIdByTitle: Map<string, string>,
+): { id: string; title: string } | null {
+  const words = candidate.split(/\s+/);
+  for (let i = 0; i < words.length - 2; i++) {
+    const title = words.slice(i).join(' ');
+    const id = documentIdByTitle.get(title.toLowerCase());
+    if (id) return { id, title };
+  }
+  return null;
+}
+
+// Words citing a provision and the ref prefix each points to. Paragraphs
+// are cited by their section or regulation number, so they take the
+// numbering of the citing instrument.
+const CITED_UNITS: Record<string, 's' | 'r' | 'cl' | null> = {
+  section: 's', subsection: 's',
+  regulation: 'r', subregulation: 'r', rule: 'r', subrule: 'r',
+  clause: 'cl', subclause: 'cl',
+  paragraph: null, subparagraph: null,
+};
+const CITED_UNIT_PATTERN = Object.keys(CITED_UNITS).join('|');
+
+/**
+ * Extract internal and external references from provision text.
+ *
+ * Recognises:
+ * - "section 9 of the Corporations Act 2001", "regulation 5 of the Privacy
+ *   Regulation 2013" (provision in another Act or instrument)
+ * - "the Corporations Act 2001" (another Act as a whole)
+ * - "section 13", "subsection 6(1)", "regulation 5", "clause 3 of Schedule 1" (same Act)
+ * - "Australian Privacy Principle 6", "APP 6" (Schedule 1 to the Privacy Act)
+ * - "Part IIIC" (same Act, structural unit)
+ *
+ * Pinpoints are resolved to the containing provision's provision_ref, in
+ * the scheme the parser stores: s13, r5, sch1-cl3, sch2-s18, sch1-app6. A
+ * section cited from inside a schedule is looked for in that schedule
+ * first (the Australian Consumer Law cites its own sections). The citation
+ * as written is kept in referenceText. Provisions and Parts that do not
+ * exist in the target document are dropped rather than stored as dangling refs.
+ */
+function extractCrossReferences(
+  text: string,
+  sourceDocumentId: string,
+  sourceProvisionRef: string,
+  documentIdByTitle: Map<string, string>,
+  provisionRefsByDocument: Map<string, Set<string>>,
+  partRefsByDocument: Map<string, Map<string, string>>,
+): ExtractedCrossReference[] {
+  if (!text || text.trim().length === 0) return [];
+
+  const refs: ExtractedCrossReference[] = [];
+  const seen = new Set<string>();
+  const consumed: Array<[number, number]> = [];
+
+  const push = (ref: ExtractedCrossReference) => {
+    const key = `${ref.targetDocumentId}:${ref.targetProvisionRef ?? ''}:${ref.targetHeadingRef ?? ''}:${ref.referenceText}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    refs.push(ref);
+  };
+  const isConsumed = (index: number) => consumed.some(([start, end]) => index >= start && index < end);
+
+  const sourcePrefix = /^r\d/.test(sourceProvisionRef) ? 'r' : 's';
+  const sourceSchedule = sourceProvisionRef.match(/^sch(\d*[A-Z]*)-/i)?.[1];
+  const resolveProvision = (
+    documentId: string,
+    unitWord: string,
+    number: string,
+    schedule?: string,
+  ): string | null => {
+    const provisionRefs = provisionRefsByDocument.get(documentId);
+    const unit = CITED_UNITS[unitWord.toLowerCase()] ?? (documentId === sourceDocumentId ? sourcePrefix : 's');
+    const base = number.replace(/\(.*$/, '');
+    const prefixes = schedule !== undefined
+      ? [`sch${schedule}-${unit}`]
+      : [
+          ...(documentId === sourceDocumentId && sourceSchedule !== undefined ? [`sch${sourceSchedule}-${unit}`] : []),
+          ...(unit === 'cl' ? [] : [unit]),
+        ];
+    for (const prefix of prefixes) {
+      if (provisionRefs?.has(`${prefix}${base}`)) return `${prefix}${base}`;
+      // "sections 10-15" is a range in Acts without hyphenated numbering
+      const first = base.replace(/-.*$/, '');
+      if (first !== base && provisionRefs?.has(`${prefix}${first}`)) return `${prefix}${first}`;
+    }
+    return null;
+  };
+
+  // 1. Provisions of other Acts and instruments
+  const externalProvision = new RegExp(
+    String.raw`\b(${CITED_UNIT_PATTERN})\s+(${SECTION_NUMBER_PATTERN})\s+of\s+the\s+(${LEGISLATION_TITLE_PATTERN})`,
+    'g',
+  );
+  let match: RegExpExecArray | null;
+  while ((match = externalProvision.exec(text)) !== null) {
+    consumed.push([match.index, match.index + match[0].length]);
+    const target = resolveActTitle(match[3], documentIdByTitle);
+    if (!target || target.id === sourceDocumentId) continue;
+    push({
+      targetDocumentId: target.id,
+      targetProvisionRef: resolveProvision(target.id, match[1], match[2]),
+      referenceText: match[0].slice(0, match[0].length - match[3].length) + target.title,
+    });
+  }
+
+  // 2. Other Acts and instruments as a whole
+  const externalAct = new RegExp(String.raw`\b${LEGISLATION_TITLE_PATTERN}\b`, 'g');
+  while ((match = externalAct.exec(text)) !== null) {
+    if (isConsumed(match.index)) continue;
+    const target = resolveActTitle(match[0], documentIdByTitle);
+    if (!target || target.id === sourceDocumentId) continue;
+    push({ targetDocumentId: target.id, targetProvisionRef: null, referenceText: target.title });
+  }
+
+  // 3. Provisions of the same Act, and clauses of its schedules
+  const internalProvision = new RegExp(
+    String.raw`\b(${CITED_UNIT_PATTERN})\s+(${SECTION_NUMBER_PATTERN})(?![\w(])(?:\s+of\s+Schedule\s+(\d+[A-Z]*)\b)?(?!\s+(?:of|to)\s+(?:the|that)\s)`,
+    'g',
+  );
+  while ((match = internalProvision.exec(text)) !== null) {
+    if (isConsumed(match.index)) continue;
+    const targetRef = resolveProvision(sourceDocumentId, match[1], match[2], match[3]);
+    if (!targetRef) continue;
+    push({ targetDocumentId: sourceDocumentId, targetProvisionRef: targetRef, referenceText: match[0] });
+  }
+
+  // 4. Australian Privacy Principles, in this Act or the Privacy Act
+  const privacyActId = documentIdByTitle.get('privacy act 1988');
+  const principle = /\b(?:Australian Privacy Principle|APP)\s+(\d+)(?:\.\d+)?(?:\([a-z0-9]+\))*(?![\w.])/g;
+  while ((match = principle.exec(text)) !== null) {
+    if (isConsumed(match.index)) continue;
+    const ref = `sch1-app${match[1]}`;
+    const targetId = [sourceDocumentId, privacyActId].find(id => id && provisionRefsByDocument.get(id)?.has(ref));
+    if (!targetId) continue;
+    push({ targetDocumentId: targetId, targetProvisionRef: ref, referenceText: match[0] });
+  }
+
+  // 5. Parts of the same Act
+  const internalPart = /\bPart\s+([IVXLC]+[A-Z]*|\d+(?:\.\d+)?[A-Z]*)\b(?!\s+of\s+(?:the|that)\s)/g;
+  while ((match = internalPart.exec(text)) !== null) {
+    if (isConsumed(match.index)) continue;
+    const headingRef = partRefsByDocument.get(sourceDocumentId)?.get(match[1].toLowerCase());
+    if (!headingRef) continue;
+    push({ targetDocumentId: sourceDocumentId, targetProvisionRef: null, targetHeadingRef: headingRef, referenceText: match[0] });
+  }
+
+  return refs;
+}
+
+/**
+ * Extract statutory citations from a judgment paragraph.
+ *
+ * Judgments cite legislation in the abbreviated court style rather than the
+ * drafting style used inside Acts:
+ * - "s 13 of the Privacy Act 1988 (Cth)", "section 6(1) of the Privacy Act 1988"
+ * - "Privacy Act 1988 (Cth), s 13", "Privacy Act 1988 (Cth) s 6(1)"
+ * - "the Privacy Act 1988 (Cth)" (the Act as a whole)
+ *
+ * Short forms ("the Act", "the Privacy Act") depend on context the paragraph
+ * does not carry and are not resolved.
+ */
+function extractCaseCitations(
+  text: string,
+  documentIdByTitle: Map<string, string>,
+  provisionRefsByDocument: Map<string, Set<string>>,
+): ExtractedCrossReference[] {
+  if (!text || text.trim().length === 0) return [];
+
+  const refs: ExtractedCrossReference[] = [];
+  const seen = new Set<string>();
+  const consumed: Array<[number, number]> = [];
+
+  const push = (ref: ExtractedCrossReference) => {
+    const key = `${ref.targetDocumentId}:${ref.targetProvisionRef ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    refs.push(ref);
+  };
+  const isConsumed = (index: number) => consumed.some(([start, end]) => index >= start && index < end);
+  const resolveSection = (documentId: string, sectionNumber: string): string | null => {
+    const ref = `s${sectionNumber.replace(/\(.*$/, '')}`;
+    return provisionRefsByDocument.get(documentId)?.has(ref) ? ref : null;
+  };
+
+  const sectionWord = String.raw`(?:ss?|sections?|subsections?|paragraphs?)\.?`;
+  const jurisdiction = String.raw`(?:\s+\((?:Cth|C'wlth)\))?`;
+
+  // 1. "s 13 of the Privacy Act 1988 (Cth)"
+  const sectionFirst = new RegExp(
+    String.raw`\b${sectionWord}\s+(${SECTION_NUMBER_PATTERN})\s+of\s+the\s+(${ACT_TITLE_PATTERN})${jurisdiction}`,
+    'g',
+  );
+  let match: RegExpExecArray | null;
+  while ((match = sectionFirst.exec(text)) !== null) {
+    consumed.push([match.index, match.index + match[0].length]);
+    const target = resolveActTitle(match[2], documentIdByTitle);
+    if (!target) continue;
+    push({
+      targetDocumentId: target.id,
+      targetProvisionRef: resolveSection(target.id, match[1]),
+      referenceText: match[0],
+    });
+  }
+
+  // 2. "Privacy Act 1988 (Cth), s 13"
+  const titleFirst = new RegExp(
+    String.raw`(${ACT_TITLE_PATTERN})${jurisdiction},?\s+${sectionWord}\s+(${SECTION_NUMBER_PATTERN})`,
+    'g',
+  );
+  while ((match = titleFirst.exec(text)) !== null) {
+    if (isConsumed(match.index)) continue;
+    consumed.push([match.index, match.index + match[0].length]);
+    const target = resolveActTitle(match[1], documentIdByTitle);
+    if (!target) continue;
+    push({
+      targetDocumentId: target.id,
+      targetProvisionRef: resolveSection(target.id, match[2]),
+      referenceText: match[0].slice(match[0].indexOf(target.title)),
+    });
+  }
+
+  // 3. The Act as a whole
+  const wholeAct = new RegExp(String.raw`\b${ACT_TITLE_PATTERN}\b`, 'g');
+  while ((match = wholeAct.exec(text)) !== null) {
+    if (isConsumed(match.index)) continue;
+    const target = resolveActTitle(match[0], documentIdByTitle);
+    if (!target) continue;
+    push({ targetDocumentId: target.id, targetProvisionRef: null, referenceText: target.title });
+  }
+
+  return refs;
+}
+
 function buildDatabase(): void {
   console.log('Building Australian Law MCP database...\n');
 
@@ -326,8 +646,40 @@ function buildDatabase(): void {
   `);
 
   const insertProvision = db.prepare(`
-    INSERT INTO legal_provisions (document_id, provision_ref, chapter, section, title, content, metadata)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO legal_provisions (document_id, provision_ref, chapter, heading_ref, section, title, content, metadata, layout, valid_from)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertHeading = db.prepare(`
+    INSERT OR IGNORE INTO document_headings (document_id, heading_ref, parent_ref, level, number, title)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertProvisionUnit = db.prepare(`
+    INSERT OR IGNORE INTO provision_units (document_id, provision_ref, unit_ref, parent_ref, level, label, lead_in, content)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertPenalty = db.prepare(`
+    INSERT INTO penalties
+      (document_id, provision_ref, unit_ref, penalty_type, penalty_units, imprisonment_months,
+       body_corporate_penalty_units, body_corporate_multiplier, text)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertNote = db.prepare(`
+    INSERT INTO provision_notes (document_id, provision_ref, unit_ref, kind, text)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertDocumentVersion = db.prepare(`
+    INSERT OR IGNORE INTO document_versions (document_id, compilation_number, register_id, start_date, end_date)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertProvisionVersion = db.prepare(`
+    INSERT INTO provision_versions (document_id, provision_ref, chapter, section, title, content, valid_from, valid_to)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const insertDefinition = db.prepare(`
@@ -335,6 +687,41 @@ function buildDatabase(): void {
     VALUES (?, ?, ?, ?, ?)
   `);
 
+  const insertCrossReference = db.prepare(`
+    INSERT INTO cross_references
+      (source_document_id, source_provision_ref, target_document_id, target_provision_ref, target_heading_ref, ref_type, reference_text)
+    VALUES (?, ?, ?, ?, ?, 'references', ?)
+  `);
+
+  const insertAmendedBy = db.prepare(`
+    INSERT INTO cross_references
+      (source_document_id, source_provision_ref, target_document_id, target_provision_ref, ref_type, reference_text)
+    VALUES (?, ?, ?, NULL, 'amended_by', ?)
+  `);
+
+  const insertAmendmentEvent = db.prepare(`
+    INSERT INTO amendment_events
+      (document_id, provision_ref, provision_label, action, amending_act, amending_title, assent_date, commencement_date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertCommencementItem = db.prepare(`
+    INSERT OR IGNORE INTO commencement_items
+      (document_id, item, provisions, commencement, commencement_date, details)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertCommencementProvision = db.prepare(`
+    INSERT OR IGNORE INTO commencement_provisions (document_id, provision_ref, item)
+    VALUES (?, ?, ?)
+  `);
+
+  const insertProvisionCurrency = db.prepare(`
+    INSERT OR IGNORE INTO provision_currency
+      (document_id, provision_ref, status, effective_date, pending_action, pending_date, pending_act)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
   const insertEuDocument = db.prepare(`
     INSERT OR IGNORE INTO eu_documents (id, type, year, number, community, title, short_name, url_eur_lex, description)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -365,10 +752,28 @@ function buildDatabase(): void {
 
   let totalDocs = 0;
   let totalProvisions = 0;
+  let totalUnits = 0;
+  let totalHeadings = 0;
+  let totalPenalties = 0;
+  let totalNotes = 0;
   let totalDefs = 0;
   let totalEuDocuments = 0;
   let totalEuReferences = 0;
+  let totalCrossReferences = 0;
+  let totalAmendments = 0;
+  let totalRepealed = 0;
+  let totalCommencementItems = 0;
+  let totalUndatedCommencement = 0;
+  let totalPending = 0;
+  let totalCompilations = 0;
+  let totalSuperseded = 0;
+  let totalCases = 0;
+  let totalCaseCitations = 0;
+  let totalPreparatoryWorks = 0;
+  let totalLinkedNotes = 0;
+  let totalLinkedInstruments = 0;
   const primaryImplementationByDocument = new Set<string>();
+  const enablingActByInstrument = new Map<string, string>();
 
   const loadAll = db.transaction(() => {
     for (const file of seedFiles) {
@@ -376,6 +781,15 @@ function buildDatabase(): void {
       const content = fs.readFileSync(filePath, 'utf-8');
       const seed = JSON.parse(content) as DocumentSeed;
 
+      // A gap in the section sequence means part of the text (usually a volume) was not ingested
+      if (seed.missing_sections && seed.missing_sections.length > 0) {
+        throw new Error(
+          `${file}: ${seed.missing_sections.length} sections listed in the contents are missing from the text ` +
+          `(${seed.missing_sections.slice(0, 10).join(', ')}${seed.missing_sections.length > 10 ? ', ...' : ''}). ` +
+          'Re-ingest this document before building.',
+        );
+      }
+
       insertDoc.run(
         seed.id, seed.type ?? 'statute', seed.title, seed.title_en ?? null,
         seed.short_name ?? null, seed.status ?? 'in_force',
@@ -383,18 +797,101 @@ function buildDatabase(): void {
         seed.url ?? null, seed.description ?? null,
       );
       totalDocs++;
+      if (seed.enabling_act) enablingActByInstrument.set(seed.id, seed.enabling_act);
+
+      const history = buildVersionHistory(seed, loadHistoricalCompilations(seed.id));
+      history.compilations.forEach((c, i) => {
+        // A compilation ends where the next one starts, unless the API says otherwise
+        const endDate = c.end_date ?? history.compilations[i + 1]?.start_date ?? null;
+        insertDocumentVersion.run(seed.id, c.compilation_number ?? null, c.register_id ?? null, c.start_date, endDate);
+        totalCompilations++;
+      });
+      for (const old of history.superseded) {
+        insertProvisionVersion.run(
+          seed.id, old.provision.provision_ref, old.provision.chapter ?? null,
+          old.provision.section, old.provision.title ?? null, old.provision.content,
+          old.validFrom, old.validTo,
+        );
+        totalSuperseded++;
+      }
+
+      for (const event of seed.amendments ?? []) {
+        insertAmendmentEvent.run(
+          seed.id, event.provision_ref, event.provision_label, event.action, event.amending_act,
+          event.amending_title, event.assent_date, event.commencement_date,
+        );
+        totalAmendments++;
+      }
+
+      for (const heading of seed.headings ?? []) {
+        insertHeading.run(seed.id, heading.heading_ref, heading.parent_ref, heading.level, heading.number, heading.title);
+        totalHeadings++;
+      }
+
+      const eventsByProvision = new Map<string, AmendmentSeed[]>();
+      for (const event of seed.amendments ?? []) {
+        if (!event.provision_ref) continue;
+        eventsByProvision.set(event.provision_ref, [...(eventsByProvision.get(event.provision_ref) ?? []), event]);
+      }
+      const compiledOn = seed.compilation?.start_date ?? seed.in_force_date ?? undefined;
+
+      for (const item of seed.commencement ?? []) {
+        insertCommencementItem.run(
+          seed.id, item.item, item.provisions, item.commencement, item.commencement_date, item.details,
+        );
+        totalCommencementItems++;
+        if (!item.commencement_date) totalUndatedCommencement++;
+      }
+      if (seed.commencement && seed.provisions) {
+        for (const [ref, item] of commencementCoverage(seed.commencement, dedupeProvisions(seed.provisions))) {
+          insertCommencementProvision.run(seed.id, ref, item);
+        }
+      }
 
       if (seed.provisions && seed.provisions.length > 0) {
         const deduped = dedupeProvisions(seed.provisions);
 
         for (const prov of deduped) {
           const insertResult = insertProvision.run(
-            seed.id, prov.provision_ref, prov.chapter ?? null,
+            seed.id, prov.provision_ref, prov.chapter ?? null, prov.heading_ref ?? null,
             prov.section, prov.title ?? null, prov.content,
             prov.metadata ? JSON.stringify(prov.metadata) : null,
+            prov.layout ? JSON.stringify(prov.layout) : null,
+            history.validFromByRef.get(prov.provision_ref) ?? null,
           );
           totalProvisions++;
 
+          for (const unit of prov.units ?? []) {
+            insertProvisionUnit.run(
+              seed.id, prov.provision_ref, unit.unit_ref, unit.parent_ref,
+              unit.level, unit.label, unit.lead_in, unit.content,
+            );
+            totalUnits++;
+          }
+
+          for (const penalty of prov.penalties ?? []) {
+            insertPenalty.run(
+              seed.id, prov.provision_ref, penalty.unit_ref, penalty.penalty_type,
+              penalty.penalty_units, penalty.imprisonment_months,
+              penalty.body_corporate_penalty_units, penalty.body_corporate_multiplier, penalty.text,
+            );
+            totalPenalties++;
+          }
+
+          const currency = provisionCurrency(prov, eventsByProvision.get(prov.provision_ref) ?? [], compiledOn);
+          insertProvisionCurrency.run(
+            seed.id, prov.provision_ref, currency.status, currency.effectiveDate,
+            currency.pending?.action ?? null, currency.pendingDate,
+            currency.pending ? (currency.pending.amending_title ?? currency.pending.amending_act) : null,
+          );
+          if (currency.status === 'repealed') totalRepealed++;
+          if (currency.pending) totalPending++;
+
+          for (const note of prov.notes ?? []) {
+            insertNote.run(seed.id, prov.provision_ref, note.unit_ref, note.kind, note.text);
+            totalNotes++;
+          }
+
           const provisionId = Number(insertResult.lastInsertRowid);
           const extractedRefs = extractEuReferences(prov.content);
           if (extractedRefs.length > 0) {
@@ -442,16 +939,215 @@ function buildDatabase(): void {
 
   loadAll();
 
+  // Cross-references need every document loaded first so that references
+  // to later seed files can be resolved.
+  const documentIdByTitle = new Map<string, string>();
+  for (const doc of db.prepare('SELECT id, title FROM legal_documents').all() as { id: string; title: string }[]) {
+    documentIdByTitle.set(doc.title.toLowerCase(), doc.id);
+  }
+
+  // Instruments are linked only when their enabling Act is in the database too
+  const setEnablingDocument = db.prepare('UPDATE legal_documents SET enabling_document_id = ? WHERE id = ?');
+  const linkInstruments = db.transaction(() => {
+    for (const [instrumentId, enablingAct] of enablingActByInstrument) {
+      const target = resolveActTitle(enablingAct, documentIdByTitle);
+      if (!target || target.id === instrumentId) continue;
+      setEnablingDocument.run(target.id, instrumentId);
+      totalLinkedInstruments++;
+    }
+  });
+
+  linkInstruments();
+
+  const provisions = db.prepare(
+    'SELECT document_id, provision_ref, content FROM legal_provisions ORDER BY id'
+  ).all() as { document_id: string; provision_ref: string; content: string }[];
+
+  const provisionRefsByDocument = new Map<string, Set<string>>();
+  for (const prov of provisions) {
+    let refs = provisionRefsByDocument.get(prov.document_id);
+    if (!refs) {
+      refs = new Set();
+      provisionRefsByDocument.set(prov.document_id, refs);
+    }
+    refs.add(prov.provision_ref);
+  }
+
+  // Part numbers of each document ("iiic" -> "ptiiic"); a Part of the body
+  // wins over a schedule's Part with the same number
+  const partRefsByDocument = new Map<string, Map<string, string>>();
+  const parts = db.prepare(
+    "SELECT document_id, heading_ref, number FROM document_headings WHERE level = 'part' AND number IS NOT NULL ORDER BY id"
+  ).all() as { document_id: string; heading_ref: string; number: string }[];
+  for (const part of parts) {
+    let refs = partRefsByDocument.get(part.document_id);
+    if (!refs) {
+      refs = new Map();
+      partRefsByDocument.set(part.document_id, refs);
+    }
+    const key = part.number.toLowerCase();
+    const existing = refs.get(key);
+    if (!existing || (existing.startsWith('sch') && !part.heading_ref.startsWith('sch'))) refs.set(key, part.heading_ref);
+  }
+
+  const loadCrossReferences = db.transaction(() => {
+    for (const prov of provisions) {
+      const refs = extractCrossReferences(
+        prov.content, prov.document_id, prov.provision_ref, documentIdByTitle, provisionRefsByDocument, partRefsByDocument,
+      );
+      for (const ref of refs) {
+        if (ref.targetDocumentId === prov.document_id && ref.targetProvisionRef === prov.provision_ref) continue;
+        insertCrossReference.run(
+          prov.document_id, prov.provision_ref, ref.targetDocumentId, ref.targetProvisionRef, ref.targetHeadingRef ?? null,
+          ref.referenceText,
+        );
+        totalCrossReferences++;
+      }
+    }
+  });
+
+  loadCrossReferences();
+
+  // Amending Acts become amended_by references when they are in the database
+  // themselves; most amending Acts are not, and are only named in amendment_events.
+  const amendmentEvents = db.prepare(`
+    SELECT DISTINCT document_id, provision_ref, action, amending_act, amending_title
+    FROM amendment_events WHERE amending_title IS NOT NULL
+  `).all() as { document_id: string; provision_ref: string | null; action: string; amending_act: string; amending_title: string }[];
+
+  const loadAmendedBy = db.transaction(() => {
+    for (const event of amendmentEvents) {
+      const targetId = documentIdByTitle.get(event.amending_title.toLowerCase());
+      if (!targetId || targetId === event.document_id) continue;
+      insertAmendedBy.run(
+        event.document_id, event.provision_ref, targetId, `${event.action} ${event.amending_title} (${event.amending_act})`,
+      );
+      totalCrossReferences++;
+    }
+  });
+
+  loadAmendedBy();
+
+  // Judgments are optional; their tables only exist when seeds are present.
+  const caseSeedFiles = fs.existsSync(CASE_LAW_SEED_DIR)
+    ? fs.readdirSync(CASE_LAW_SEED_DIR).filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+    : [];
+
+  if (caseSeedFiles.length > 0) {
+    db.exec(CASE_LAW_SCHEMA);
+
+    const insertCase = db.prepare(`
+      INSERT OR IGNORE INTO case_law (id, citation, case_name, court, court_code, decision_date, catchwords, url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertParagraph = db.prepare(`
+      INSERT OR IGNORE INTO case_law_paragraphs (case_id, paragraph_number, text)
+      VALUES (?, ?, ?)
+    `);
+    const insertCaseCitation = db.prepare(`
+      INSERT INTO case_law_citations (case_id, paragraph_number, document_id, provision_ref, citation_text)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const loadCaseLaw = db.transaction(() => {
+      for (const file of caseSeedFiles) {
+        const seed = JSON.parse(fs.readFileSync(path.join(CASE_LAW_SEED_DIR, file), 'utf-8')) as CaseSeed;
+
+        const caseInsert = insertCase.run(
+          seed.id, seed.citation, seed.case_name, seed.court, seed.court_code ?? null,
+          seed.decision_date ?? null, seed.catchwords ?? null, seed.url ?? null,
+        );
+        if (caseInsert.changes === 0) continue;
+        totalCases++;
+
+        for (const para of seed.paragraphs ?? []) {
+          insertParagraph.run(seed.id, para.paragraph_number, para.text);
+          for (const ref of extractCaseCitations(para.text, documentIdByTitle, provisionRefsByDocument)) {
+            insertCaseCitation.run(
+              seed.id, para.paragraph_number, ref.targetDocumentId, ref.targetProvisionRef, ref.referenceText,
+            );
+            totalCaseCitations++;
+          }
+        }
+      }
+    });
+
+    loadCaseLaw();
+  }
+
+  const preparatoryActDirs = fs.existsSync(PREPARATORY_WORKS_SEED_DIR)
+    ? fs.readdirSync(PREPARATORY_WORKS_SEED_DIR, { withFileTypes: true }).filter(d => d.isDirectory()).map(d => d.name)
+    : [];
+  const preparatorySeedFiles = preparatoryActDirs.flatMap(dir =>
+    fs.readdirSync(path.join(PREPARATORY_WORKS_SEED_DIR, dir))
+      .filter(f => f.endsWith('.json') && !f.startsWith('.') && !f.startsWith('_'))
+      .map(f => path.join(PREPARATORY_WORKS_SEED_DIR, dir, f))
+  );
+
+  if (preparatorySeedFiles.length > 0) {
+    db.exec(PREPARATORY_WORKS_SCHEMA);
+
+    const insertPreparatoryWork = db.prepare(`
+      INSERT INTO preparatory_works
+        (document_id, work_type, title, date, url, source_file, position, clause_ref, provision_ref, heading, content)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const documentExists = db.prepare('SELECT 1 FROM legal_documents WHERE id = ?');
+
+    const loadPreparatoryWorks = db.transaction(() => {
+      for (const file of preparatorySeedFiles) {
+        const seed = JSON.parse(fs.readFileSync(file, 'utf-8')) as PreparatoryWorkSeed;
+        if (!documentExists.get(seed.document_id)) {
+          console.log(`  Skipping ${path.relative(SEED_DIR, file)}: no document "${seed.document_id}"`);
+          continue;
+        }
+        totalPreparatoryWorks++;
+
+        const provisionRefs = provisionRefsByDocument.get(seed.document_id);
+        (seed.segments ?? []).forEach((segment, position) => {
+          // Keep the clause reference as written, but only link sections that exist
+          const provisionRef = segment.provision_ref && provisionRefs?.has(segment.provision_ref)
+            ? segment.provision_ref
+            : null;
+          insertPreparatoryWork.run(
+            seed.document_id, seed.work_type, seed.title, seed.date ?? null, seed.url ?? null,
+            seed.source_file ?? null, position, segment.clause_ref, provisionRef, segment.heading, segment.content,
+          );
+          if (provisionRef) totalLinkedNotes++;
+        });
+      }
+    });
+
+    loadPreparatoryWorks();
+  }
+
+  // Search thesaurus, versioned with the database
+  let thesaurusVersion: string | null = null;
+  let totalThesaurusTerms = 0;
+  if (fs.existsSync(THESAURUS_PATH)) {
+    const thesaurus = JSON.parse(fs.readFileSync(THESAURUS_PATH, 'utf-8')) as ThesaurusFile;
+    const insertThesaurus = db.prepare('INSERT OR IGNORE INTO search_thesaurus (term, expansion, kind) VALUES (?, ?, ?)');
+    db.transaction(() => {
+      for (const entry of thesaurus.entries) {
+        for (const expansion of entry.expansions) insertThesaurus.run(entry.term, expansion, entry.kind);
+        totalThesaurusTerms++;
+      }
+    })();
+    thesaurusVersion = thesaurus.version;
+  }
+
   // Write build metadata
   const insertMeta = db.prepare('INSERT INTO db_metadata (key, value) VALUES (?, ?)');
   const writeMeta = db.transaction(() => {
     insertMeta.run('tier', 'free');
-    insertMeta.run('schema_version', '2');
+    insertMeta.run('schema_version', '4');
     insertMeta.run('built_at', new Date().toISOString());
     insertMeta.run('builder', 'build-db.ts');
     insertMeta.run('jurisdiction', 'AU');
     insertMeta.run('source', 'legislation.gov.au');
     insertMeta.run('licence', 'Creative Commons Attribution 4.0 International (CC BY 4.0)');
+    if (thesaurusVersion) insertMeta.run('thesaurus_version', thesaurusVersion);
   });
   writeMeta();
 
@@ -464,8 +1160,16 @@ function buildDatabase(): void {
 
   const size = fs.statSync(DB_PATH).size;
   console.log(
-    `\nBuild complete: ${totalDocs} documents, ${totalProvisions} provisions, ` +
-    `${totalDefs} definitions, ${totalEuDocuments} EU documents, ${totalEuReferences} EU references`
+    `\nBuild complete: ${totalDocs} documents (${totalLinkedInstruments} instruments linked to their Act), ` +
+    `${totalHeadings} headings, ${totalProvisions} provisions (${totalUnits} subsections/paragraphs), ${totalPenalties} penalties, ` +
+    `${totalNotes} notes, ${totalDefs} definitions, ${totalCrossReferences} cross-references, ` +
+    `${totalAmendments} amendment events (${totalRepealed} repealed provisions, ${totalPending} with uncommenced amendments), ` +
+    `${totalCommencementItems} commencement items (${totalUndatedCommencement} without a date), ` +
+    `${totalCompilations} compilations, ${totalSuperseded} superseded provision texts, ` +
+    `${totalCases} judgments, ${totalCaseCitations} case citations, ` +
+    `${totalPreparatoryWorks} preparatory works (${totalLinkedNotes} clause notes linked), ` +
+    `${totalEuDocuments} EU documents, ${totalEuReferences} EU references, ` +
+    `${totalThesaurusTerms} thesaurus terms${thesaurusVersion ? ` (version ${thesaurusVersion})` : ''}`
   );
   console.log(`Output: ${DB_PATH} (${(size / 1024 / 1024).toFixed(1)} MB)`);
 }
@@ -3,7 +3,8 @@
  * Australian Law MCP — Census Script
  *
  * Enumerates ALL federal Acts from the Federal Register of Legislation
- * via the OData API at api.prod.legislation.gov.au/v1.
+ * via the OData API at api.prod.legislation.gov.au/v1, and optionally the
+ * in-force principal legislative instruments (regulations, rules, determinations).
  *
  * Uses curl for HTTP requests (more reliable DNS/TLS than Node fetch in some envs).
  *
@@ -13,12 +14,14 @@
  *  - Enumerate all in-force principal Acts (the substantive laws) — classified as ingestable
  *  - Enumerate all in-force non-principal Acts (amending Acts) — classified as excluded
  *  - Optionally enumerate ceased/repealed Acts — classified as excluded
+ *  - Optionally enumerate in-force principal legislative instruments — classified as ingestable
  *  - Total census covers every federal Act known to the register
  *
  * Usage:
  *   npx tsx scripts/census.ts
  *   npx tsx scripts/census.ts --include-repealed    # Also enumerate repealed Acts
  *   npx tsx scripts/census.ts --skip-non-principal   # Skip amending Acts
+ *   npx tsx scripts/census.ts --include-instruments  # Also enumerate legislative instruments
  */
 
 import * as fs from 'fs';
@@ -58,6 +61,7 @@ interface CensusLaw {
   number: number;
   status: 'in_force' | 'amended' | 'repealed';
   is_principal: boolean;
+  document_type: 'statute' | 'legislative_instrument';
   category: string;
   classification: 'ingestable' | 'excluded' | 'inaccessible';
   ingested: boolean;
@@ -111,15 +115,17 @@ function curlFetch(url: string): string {
   return result;
 }
 
-function parseArgs(): { includeRepealed: boolean; skipNonPrincipal: boolean } {
+function parseArgs(): { includeRepealed: boolean; skipNonPrincipal: boolean; includeInstruments: boolean } {
   const args = process.argv.slice(2);
   let includeRepealed = false;
   let skipNonPrincipal = false;
+  let includeInstruments = false;
   for (const arg of args) {
     if (arg === '--include-repealed') includeRepealed = true;
     if (arg === '--skip-non-principal') skipNonPrincipal = true;
+    if (arg === '--include-instruments') includeInstruments = true;
   }
-  return { includeRepealed, skipNonPrincipal };
+  return { includeRepealed, skipNonPrincipal, includeInstruments };
 }
 
 /**
@@ -217,14 +223,15 @@ function fetchAllTitles(filter: string): ODataTitle[] {
 }
 
 function main(): void {
-  const { includeRepealed, skipNonPrincipal } = parseArgs();
+  const { includeRepealed, skipNonPrincipal, includeInstruments } = parseArgs();
 
   console.log('Australian Law MCP — Census');
   console.log('===========================\n');
   console.log(`  Source: Federal Register of Legislation (legislation.gov.au)`);
   console.log(`  API:    ${API_BASE}`);
   console.log(`  Include repealed: ${includeRepealed}`);
-  console.log(`  Skip non-principal: ${skipNonPrincipal}\n`);
+  console.log(`  Skip non-principal: ${skipNonPrincipal}`);
+  console.log(`  Include instruments: ${includeInstruments}\n`);
 
   const laws: CensusLaw[] = [];
   const seenIds = new Set<string>();
@@ -248,6 +255,7 @@ function main(): void {
       number: title.number,
       status: 'in_force',
       is_principal: true,
+      document_type: 'statute',
       category: 'principal',
       classification: 'ingestable',
       ingested: false,
@@ -276,6 +284,7 @@ function main(): void {
         number: title.number,
         status: 'in_force',
         is_principal: false,
+        document_type: 'statute',
         category: 'amending',
         classification: 'excluded',
         ingested: false,
@@ -305,6 +314,7 @@ function main(): void {
         number: title.number,
         status: mapStatus(title.status),
         is_principal: title.isPrincipal,
+        document_type: 'statute',
         category: title.isPrincipal ? 'principal' : 'amending',
         classification: 'excluded',
         ingested: false,
@@ -314,6 +324,37 @@ function main(): void {
     }
   }
 
+  // 4. In-force principal legislative instruments — ingestable. Amending
+  // instruments are left out: their changes already appear in the compilations.
+  if (includeInstruments) {
+    console.log('Phase 4: In-force principal legislative instruments...');
+    const instruments = fetchAllTitles("collection eq 'LegislativeInstrument' and status eq 'InForce' and isPrincipal eq true");
+    console.log(`  Found ${instruments.length} in-force principal instruments\n`);
+
+    for (const title of instruments) {
+      if (seenIds.has(title.id)) continue;
+      seenIds.add(title.id);
+
+      const slug = slugify(title.name);
+      laws.push({
+        id: slug,
+        title: title.name,
+        identifier: title.id,
+        url: `https://www.legislation.gov.au/${title.id}/latest/text`,
+        year: title.year,
+        number: title.number,
+        status: 'in_force',
+        is_principal: true,
+        document_type: 'legislative_instrument',
+        category: 'instrument',
+        classification: 'ingestable',
+        ingested: false,
+        provision_count: null,
+        ingestion_date: null,
+      });
+    }
+  }
+
   // Sort by title
   laws.sort((a, b) => a.title.localeCompare(b.title));
 
@@ -345,7 +386,8 @@ function main(): void {
   console.log('===========================');
   console.log('Census Complete');
   console.log('===========================\n');
-  console.log(`  Total Acts enumerated: ${laws.length}`);
+  console.log(`  Total enumerated:                ${laws.length}`);
+  console.log(`  Legislative instruments:         ${laws.filter(l => l.document_type === 'legislative_instrument').length}`);
   console.log(`  Ingestable (in-force principal): ${ingestable}`);
   console.log(`  Excluded (amending/repealed):    ${excluded}`);
   console.log(`  Inaccessible:                    ${inaccessible}`);
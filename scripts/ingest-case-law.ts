@@ -0,0 +1,106 @@
+#!/usr/bin/env tsx
+/**
+ * Australian Law MCP — Case Law Import
+ *
+ * Imports judgments saved to disk (AustLII-style HTML) into seed files that
+ * build-db.ts loads into the case_law tables. Judgments are not fetched by
+ * this script; save them into the source directory first.
+ *
+ * Each judgment is identified by its medium-neutral citation ("[2023] HCA 12").
+ * Files without one are skipped. An optional "<name>.url" file next to the
+ * HTML records where the judgment was obtained.
+ *
+ * Usage:
+ *   npm run ingest:case-law                       # Import data/source/case-law/*.html
+ *   npm run ingest:case-law -- --dir ~/judgments  # Import from another directory
+ *   npm run ingest:case-law -- --no-resume        # Re-parse judgments that already have seeds
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseJudgmentHtml } from './lib/case-law-parser.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_SOURCE_DIR = path.resolve(__dirname, '../data/source/case-law');
+const CASE_LAW_SEED_DIR = path.resolve(__dirname, '../data/seed/case-law');
+
+function parseArgs(): { dir: string; resume: boolean } {
+  const args = process.argv.slice(2);
+  let dir = DEFAULT_SOURCE_DIR;
+  let resume = true;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dir' && args[i + 1]) {
+      dir = path.resolve(args[i + 1]);
+      i++;
+    } else if (args[i] === '--no-resume') {
+      resume = false;
+    } else if (args[i] === '--resume') {
+      resume = true;
+    }
+  }
+
+  return { dir, resume };
+}
+
+function main(): void {
+  const { dir, resume } = parseArgs();
+
+  console.log('Australian Law MCP — Case Law Import');
+  console.log('====================================\n');
+  console.log(`  Source directory: ${dir}`);
+
+  if (!fs.existsSync(dir)) {
+    console.error(`Source directory not found: ${dir}`);
+    console.error('Save judgment HTML files there, or pass --dir <path>.');
+    process.exit(1);
+  }
+
+  fs.mkdirSync(CASE_LAW_SEED_DIR, { recursive: true });
+
+  const files = fs.readdirSync(dir).filter(f => /\.html?$/i.test(f)).sort();
+  let written = 0;
+  let skipped = 0;
+  let failed = 0;
+  let totalParagraphs = 0;
+
+  for (const file of files) {
+    const sourcePath = path.join(dir, file);
+    try {
+      const html = fs.readFileSync(sourcePath, 'utf-8');
+      const urlFile = sourcePath.replace(/\.html?$/i, '.url');
+      const url = fs.existsSync(urlFile) ? fs.readFileSync(urlFile, 'utf-8').trim() : undefined;
+
+      const parsed = parseJudgmentHtml(html, url);
+      if (!parsed) {
+        console.log(`  ${file}: no medium-neutral citation found, skipped`);
+        failed++;
+        continue;
+      }
+
+      const seedFile = path.join(CASE_LAW_SEED_DIR, `${parsed.id}.json`);
+      if (resume && fs.existsSync(seedFile)) {
+        skipped++;
+        continue;
+      }
+
+      fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
+      written++;
+      totalParagraphs += parsed.paragraphs.length;
+      console.log(`  ${parsed.citation} ${parsed.case_name}: ${parsed.paragraphs.length} paragraphs`);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR ${file}: ${msg.substring(0, 120)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n  Judgments written: ${written}, skipped (cached): ${skipped}, failed: ${failed}`);
+  console.log(`  Paragraphs: ${totalParagraphs}`);
+  console.log('\nRun "npm run build:db" to load them into the database.');
+}
+
+main();
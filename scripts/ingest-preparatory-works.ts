@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+/**
+ * Australian Law MCP — Preparatory Works Import
+ *
+ * Imports explanatory memoranda, explanatory statements and second reading
+ * speeches kept as local files into seed files that build-db.ts loads into
+ * the preparatory_works table. Nothing is fetched; save the material first.
+ *
+ * Layout: one directory per Act, named by the Act's document ID:
+ *
+ *   data/source/preparatory-works/privacy-act-1988/em.html
+ *   data/source/preparatory-works/privacy-act-1988/second-reading-1988-06-01.txt
+ *
+ * HTML and text extracted from the PDF (.txt) are both accepted. The work
+ * type is taken from the file name ("em", "es", "second-reading") or the
+ * text. An optional "<name>.url" file next to the source records its origin.
+ *
+ * Usage:
+ *   npm run ingest:preparatory-works                          # Import data/source/preparatory-works/
+ *   npm run ingest:preparatory-works -- --dir ~/ems           # Import from another directory
+ *   npm run ingest:preparatory-works -- --no-resume           # Re-parse files that already have seeds
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parsePreparatoryWork } from './lib/preparatory-works-parser.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_SOURCE_DIR = path.resolve(__dirname, '../data/source/preparatory-works');
+const PREPARATORY_WORKS_SEED_DIR = path.resolve(__dirname, '../data/seed/preparatory-works');
+
+function parseArgs(): { dir: string; resume: boolean } {
+  const args = process.argv.slice(2);
+  let dir = DEFAULT_SOURCE_DIR;
+  let resume = true;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--dir' && args[i + 1]) {
+      dir = path.resolve(args[i + 1]);
+      i++;
+    } else if (args[i] === '--no-resume') {
+      resume = false;
+    } else if (args[i] === '--resume') {
+      resume = true;
+    }
+  }
+
+  return { dir, resume };
+}
+
+function main(): void {
+  const { dir, resume } = parseArgs();
+
+  console.log('Australian Law MCP — Preparatory Works Import');
+  console.log('=============================================\n');
+  console.log(`  Source directory: ${dir}`);
+
+  if (!fs.existsSync(dir)) {
+    console.error(`Source directory not found: ${dir}`);
+    console.error('Create one subdirectory per Act (named by document ID) and save the material there, or pass --dir <path>.');
+    process.exit(1);
+  }
+
+  let written = 0;
+  let skipped = 0;
+  let failed = 0;
+  let totalSegments = 0;
+  let linkedSegments = 0;
+
+  const actDirs = fs.readdirSync(dir, { withFileTypes: true }).filter(d => d.isDirectory()).map(d => d.name).sort();
+
+  for (const documentId of actDirs) {
+    const actSourceDir = path.join(dir, documentId);
+    const actSeedDir = path.join(PREPARATORY_WORKS_SEED_DIR, documentId);
+    const files = fs.readdirSync(actSourceDir).filter(f => /\.(html?|txt)$/i.test(f)).sort();
+    if (files.length === 0) continue;
+
+    fs.mkdirSync(actSeedDir, { recursive: true });
+
+    for (const file of files) {
+      const seedFile = path.join(actSeedDir, `${file.replace(/\.(html?|txt)$/i, '')}.json`);
+      if (resume && fs.existsSync(seedFile)) {
+        skipped++;
+        continue;
+      }
+
+      try {
+        const sourcePath = path.join(actSourceDir, file);
+        const source = fs.readFileSync(sourcePath, 'utf-8');
+        const urlFile = sourcePath.replace(/\.(html?|txt)$/i, '.url');
+        const url = fs.existsSync(urlFile) ? fs.readFileSync(urlFile, 'utf-8').trim() : undefined;
+
+        const parsed = parsePreparatoryWork(source, documentId, file, url);
+        fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
+        written++;
+
+        const linked = parsed.segments.filter(s => s.provision_ref !== null).length;
+        totalSegments += parsed.segments.length;
+        linkedSegments += linked;
+        console.log(`  ${documentId}/${file} [${parsed.work_type}]: ${parsed.segments.length} segments, ${linked} clause notes`);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.log(`  ERROR ${documentId}/${file}: ${msg.substring(0, 120)}`);
+        failed++;
+      }
+    }
+  }
+
+  console.log(`\n  Files written: ${written}, skipped (cached): ${skipped}, failed: ${failed}`);
+  console.log(`  Segments: ${totalSegments} (${linkedSegments} linked to a provision)`);
+  console.log('\nRun "npm run build:db" to load them into the database.');
+}
+
+main();
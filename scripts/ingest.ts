@@ -13,6 +13,13 @@
  *   - Resume support: skips laws that already have seed files in data/seed/
  *   - Progress logging every 10 laws
  *   - Rate limiting: 500ms minimum between requests
+ *   - Point-in-time history: --versions N keeps the N most recent compilations
+ *     of each Act (seeds for superseded compilations go to data/seed/versions/)
+ *   - Legislative instruments in the census (census.ts --include-instruments)
+ *     are fetched the same way and keep their regulation/rule numbering
+ *   - Multi-volume compilations: every document in the EPUB is fetched and
+ *     merged; sections listed in the contents but missing from the text are
+ *     recorded in the seed (missing_sections) and stop build-db
  *
  * Usage:
  *   npm run ingest                    # Full ingestion from census
@@ -20,19 +27,22 @@
  *   npm run ingest -- --skip-fetch    # Reuse cached HTML source pages
  *   npm run ingest -- --resume        # Skip acts that already have seed files (default: on)
  *   npm run ingest -- --no-resume     # Re-fetch all acts even if seed exists
+ *   npm run ingest -- --versions 5    # Also fetch the 4 compilations before the latest
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { fetchLegislationHtml } from './lib/fetcher.js';
-import { parseAustralianHtml, type ActIndexEntry, type ParsedAct } from './lib/parser.js';
+import { fetchLegislationHtml, fetchVersionHistory, type VersionInfo } from './lib/fetcher.js';
+import { parseAustralianHtml, type ActIndexEntry, type DocumentType, type ParsedAct } from './lib/parser.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const SOURCE_DIR = path.resolve(__dirname, '../data/source');
 const SEED_DIR = path.resolve(__dirname, '../data/seed');
+const VERSION_SOURCE_DIR = path.join(SOURCE_DIR, 'versions');
+const VERSION_SEED_DIR = path.join(SEED_DIR, 'versions');
 const CENSUS_PATH = path.resolve(__dirname, '../data/census.json');
 
 interface CensusLaw {
@@ -44,6 +54,7 @@ interface CensusLaw {
   number: number;
   status: string;
   is_principal: boolean;
+  document_type?: DocumentType;
   category: string;
   classification: string;
   ingested: boolean;
@@ -68,16 +79,20 @@ interface CensusFile {
   laws: CensusLaw[];
 }
 
-function parseArgs(): { limit: number | null; skipFetch: boolean; resume: boolean } {
+function parseArgs(): { limit: number | null; skipFetch: boolean; resume: boolean; versions: number } {
   const args = process.argv.slice(2);
   let limit: number | null = null;
   let skipFetch = false;
   let resume = true; // Default: resume (skip existing seeds)
+  let versions = 1; // Default: latest compilation only
 
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--limit' && args[i + 1]) {
       limit = parseInt(args[i + 1], 10);
       i++;
+    } else if (args[i] === '--versions' && args[i + 1]) {
+      versions = Math.max(1, parseInt(args[i + 1], 10) || 1);
+      i++;
     } else if (args[i] === '--skip-fetch') {
       skipFetch = true;
     } else if (args[i] === '--no-resume') {
@@ -87,7 +102,7 @@ function parseArgs(): { limit: number | null; skipFetch: boolean; resume: boolea
     }
   }
 
-  return { limit, skipFetch, resume };
+  return { limit, skipFetch, resume, versions };
 }
 
 /**
@@ -114,6 +129,7 @@ function loadCensus(): ActIndexEntry[] {
     status: (law.status === 'in_force' ? 'in_force' :
              law.status === 'amended' ? 'amended' :
              law.status === 'repealed' ? 'repealed' : 'in_force') as ActIndexEntry['status'],
+    document_type: law.document_type ?? 'statute',
   }));
 }
 
@@ -189,6 +205,12 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
       const parsed = parseAustralianHtml(html, act, versionInfo);
       fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
       totalProvisions += parsed.provisions.length;
+      if (!parsed.in_force_date) {
+        console.log('    WARNING: the register gives no start date for this version; in_force_date left empty');
+      }
+      if (parsed.missing_sections) {
+        console.log(`    WARNING: ${parsed.missing_sections.length} sections in the contents are missing from the text (${parsed.missing_sections.slice(0, 5).join(', ')}...)`);
+      }
 
       const fetchedCount = processed - skipped + 1;
       if (fetchedCount % 10 === 0) {
@@ -226,8 +248,74 @@ async function fetchAndParseActs(acts: ActIndexEntry[], skipFetch: boolean, resu
   }
 }
 
+/**
+ * Fetch and parse superseded compilations for point-in-time queries.
+ *
+ * For each Act, keeps the (versions - 1) compilations immediately before the
+ * latest one. The latest compilation is the main seed written by
+ * fetchAndParseActs(). The version list is cached next to the source HTML so
+ * --skip-fetch can re-parse without touching the API.
+ */
+async function fetchHistoricalVersions(acts: ActIndexEntry[], versions: number, skipFetch: boolean): Promise<void> {
+  console.log(`\nFetching up to ${versions - 1} earlier compilation(s) per act...\n`);
+
+  let written = 0;
+  let failed = 0;
+
+  for (const act of acts) {
+    const sourceDir = path.join(VERSION_SOURCE_DIR, act.id);
+    const seedDir = path.join(VERSION_SEED_DIR, act.id);
+    const versionListFile = path.join(sourceDir, 'versions.json');
+
+    try {
+      let history: VersionInfo[];
+      if (skipFetch && fs.existsSync(versionListFile)) {
+        history = JSON.parse(fs.readFileSync(versionListFile, 'utf-8'));
+      } else {
+        history = await fetchVersionHistory(act.titleId);
+        fs.mkdirSync(sourceDir, { recursive: true });
+        fs.writeFileSync(versionListFile, JSON.stringify(history, null, 2));
+      }
+
+      const earlier = history.filter(v => !v.isLatest).slice(-(versions - 1));
+      fs.mkdirSync(seedDir, { recursive: true });
+
+      for (const version of earlier) {
+        const seedFile = path.join(seedDir, `${version.compilationNumber}.json`);
+        if (fs.existsSync(seedFile)) continue;
+
+        const sourceFile = path.join(sourceDir, `${version.compilationNumber}.html`);
+        let html: string;
+        if (skipFetch && fs.existsSync(sourceFile)) {
+          html = fs.readFileSync(sourceFile, 'utf-8');
+        } else {
+          const result = await fetchLegislationHtml(act.titleId, version);
+          if (result.status !== 200 || result.body.length < 500) {
+            console.log(`  ${act.title} compilation ${version.compilationNumber}: HTTP ${result.status}`);
+            failed++;
+            continue;
+          }
+          html = result.body;
+          fs.writeFileSync(sourceFile, html);
+        }
+
+        const parsed = parseAustralianHtml(html, act, version);
+        fs.writeFileSync(seedFile, JSON.stringify(parsed, null, 2));
+        written++;
+        console.log(`  ${act.title} compilation ${version.compilationNumber} (${version.start.split('T')[0]}): ${parsed.provisions.length} provisions`);
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.log(`  ERROR ${act.title} history: ${msg.substring(0, 120)}`);
+      failed++;
+    }
+  }
+
+  console.log(`\n  Historical compilations written: ${written}, failed: ${failed}`);
+}
+
 async function main(): Promise<void> {
-  const { limit, skipFetch, resume } = parseArgs();
+  const { limit, skipFetch, resume, versions } = parseArgs();
 
   console.log('Australian Law MCP — Ingestion Pipeline');
   console.log('========================================\n');
@@ -238,10 +326,14 @@ async function main(): Promise<void> {
 
   if (limit) console.log(`  --limit ${limit}`);
   if (skipFetch) console.log(`  --skip-fetch`);
+  if (versions > 1) console.log(`  --versions ${versions}`);
 
   const acts = loadCensus();
   const toProcess = limit ? acts.slice(0, limit) : acts;
   await fetchAndParseActs(toProcess, skipFetch, resume);
+  if (versions > 1) {
+    await fetchHistoricalVersions(toProcess, versions, skipFetch);
+  }
 }
 
 main().catch(error => {
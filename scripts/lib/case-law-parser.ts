@@ -0,0 +1,178 @@
+/**
+ * HTML parser for Australian judgments saved to disk (AustLII-style layout).
+ *
+ * AustLII serves judgments as plain HTML:
+ *
+ *   <title>Smith v Jones [2023] HCA 12 (5 April 2023)</title>
+ *   ... "CATCHWORDS" / "Catchwords:" block ...
+ *   <ol><li value="1">First paragraph...</li><li value="2">...</li></ol>
+ *
+ * Older judgments number paragraphs inline ("[1] First paragraph...") instead
+ * of using list items; both layouts are handled. The medium-neutral citation
+ * ("[2023] HCA 12") is the stable identifier for a judgment.
+ */
+
+export interface ParsedParagraph {
+  paragraph_number: number;
+  text: string;
+}
+
+export interface ParsedCase {
+  id: string;
+  citation: string;
+  case_name: string;
+  court: string;
+  court_code: string;
+  decision_date: string | null;
+  catchwords: string | null;
+  url?: string;
+  paragraphs: ParsedParagraph[];
+}
+
+/**
+ * Court identifiers used in medium-neutral citations.
+ */
+export const COURT_NAMES: Record<string, string> = {
+  HCA: 'High Court of Australia',
+  FCAFC: 'Federal Court of Australia (Full Court)',
+  FCA: 'Federal Court of Australia',
+  FedCFamC1F: 'Federal Circuit and Family Court of Australia (Division 1)',
+  FedCFamC2G: 'Federal Circuit and Family Court of Australia (Division 2)',
+  FCCA: 'Federal Circuit Court of Australia',
+  FMCA: 'Federal Magistrates Court of Australia',
+  AATA: 'Administrative Appeals Tribunal',
+  ARTA: 'Administrative Review Tribunal',
+  AICmr: 'Australian Information Commissioner',
+  NSWCA: 'New South Wales Court of Appeal',
+  NSWSC: 'Supreme Court of New South Wales',
+  VSCA: 'Victorian Court of Appeal',
+  VSC: 'Supreme Court of Victoria',
+  QCA: 'Queensland Court of Appeal',
+  QSC: 'Supreme Court of Queensland',
+  WASCA: 'Western Australian Court of Appeal',
+  WASC: 'Supreme Court of Western Australia',
+  SASCA: 'South Australian Court of Appeal',
+  SASC: 'Supreme Court of South Australia',
+};
+
+const MONTHS: Record<string, string> = {
+  january: '01', february: '02', march: '03', april: '04', may: '05', june: '06',
+  july: '07', august: '08', september: '09', october: '10', november: '11', december: '12',
+};
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;|&#xa0;|&#160;/gi, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;|&lsquo;/g, '\'')
+    .replace(/&mdash;/g, '—')
+    .replace(/&ndash;/g, '–')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse "5 April 2023" into "2023-04-05".
+ */
+function parseLongDate(text: string): string | null {
+  const match = text.match(/(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})/);
+  if (!match) return null;
+  const month = MONTHS[match[2].toLowerCase()];
+  if (!month) return null;
+  return `${match[3]}-${month}-${match[1].padStart(2, '0')}`;
+}
+
+/**
+ * Extract the medium-neutral citation, e.g. "[2023] HCA 12".
+ */
+export function parseMediumNeutralCitation(text: string): { citation: string; year: string; court: string; number: string } | null {
+  const match = text.match(/\[(\d{4})\]\s+([A-Za-z0-9]+)\s+(\d+)/);
+  if (!match) return null;
+  return { citation: `[${match[1]}] ${match[2]} ${match[3]}`, year: match[1], court: match[2], number: match[3] };
+}
+
+/**
+ * Stable case ID derived from the medium-neutral citation: "[2023] HCA 12" -> "2023-hca-12".
+ */
+export function caseIdFromCitation(citation: string): string | null {
+  const mnc = parseMediumNeutralCitation(citation);
+  if (!mnc) return null;
+  return `${mnc.year}-${mnc.court.toLowerCase()}-${mnc.number}`;
+}
+
+function extractCatchwords(html: string): string | null {
+  const text = stripHtml(html.replace(/<\/(p|div|tr|br)\s*>/gi, '\n'));
+  const match = text.match(/catchwords\s*:?\s*([\s\S]{10,2000}?)(?:\s(?:legislation|cases cited|judgment|orders|date of hearing|reasons for judgment)\s*:|$)/i);
+  return match ? match[1].trim() : null;
+}
+
+function extractParagraphs(html: string): ParsedParagraph[] {
+  const paragraphs: ParsedParagraph[] = [];
+  const seen = new Set<number>();
+
+  // Modern AustLII layout: numbered list items
+  const liRegex = /<li[^>]*\bvalue="?(\d+)"?[^>]*>([\s\S]*?)(?=<li[^>]*\bvalue=|<\/ol>)/gi;
+  let match: RegExpExecArray | null;
+  while ((match = liRegex.exec(html)) !== null) {
+    const num = parseInt(match[1], 10);
+    const text = stripHtml(match[2]);
+    if (text.length > 0 && !seen.has(num)) {
+      seen.add(num);
+      paragraphs.push({ paragraph_number: num, text });
+    }
+  }
+  if (paragraphs.length > 0) return paragraphs;
+
+  // Older layout: "[12] text" at the start of a block
+  const blockRegex = /<(?:p|blockquote)[^>]*>([\s\S]*?)<\/(?:p|blockquote)>/gi;
+  let current: ParsedParagraph | null = null;
+  while ((match = blockRegex.exec(html)) !== null) {
+    const text = stripHtml(match[1]);
+    const numbered = text.match(/^\[(\d+)\]\s*([\s\S]*)$/);
+    if (numbered) {
+      const num = parseInt(numbered[1], 10);
+      if (seen.has(num)) continue;
+      seen.add(num);
+      current = { paragraph_number: num, text: numbered[2] };
+      paragraphs.push(current);
+    } else if (current && text.length > 0) {
+      // Quoted material and continuation blocks belong to the preceding paragraph
+      current.text += ` ${text}`;
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Parse a saved judgment. Returns null if no medium-neutral citation can be found,
+ * since without one the judgment cannot be identified or cited.
+ */
+export function parseJudgmentHtml(html: string, url?: string): ParsedCase | null {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch ? stripHtml(titleMatch[1]) : '';
+  const bodyText = stripHtml(html.slice(0, 20000));
+
+  const mnc = parseMediumNeutralCitation(title) ?? parseMediumNeutralCitation(bodyText);
+  if (!mnc) return null;
+
+  const caseName = (title.split(mnc.citation)[0] || title).trim() || mnc.citation;
+  const afterCitation = title.split(mnc.citation)[1] ?? '';
+  const decisionDate = parseLongDate(afterCitation) ?? parseLongDate(bodyText);
+
+  return {
+    id: `${mnc.year}-${mnc.court.toLowerCase()}-${mnc.number}`,
+    citation: mnc.citation,
+    case_name: caseName,
+    court: COURT_NAMES[mnc.court] ?? mnc.court,
+    court_code: mnc.court,
+    decision_date: decisionDate,
+    catchwords: extractCatchwords(html),
+    url,
+    paragraphs: extractParagraphs(html),
+  };
+}
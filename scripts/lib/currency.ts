@@ -0,0 +1,51 @@
+/**
+ * Build-time currency of provisions: whether each is in force, repealed or
+ * yet to commence in its compilation, from the amendment history endnotes.
+ */
+
+import type { ParsedAmendment } from './parser.js';
+
+export interface ProvisionCurrency {
+  status: 'in_force' | 'repealed' | 'not_yet_in_force';
+  effectiveDate: string | null;
+  pending: ParsedAmendment | null;
+  pendingDate: string | null;
+}
+
+/**
+ * Status of a provision in its compilation and the next change the
+ * amendment history lists for it. An amendment counts from its
+ * commencement, or from assent where the history gives no single date;
+ * one commencing after the compilation date has not been applied to the text.
+ */
+export function provisionCurrency(
+  prov: { repealed?: boolean },
+  events: ParsedAmendment[],
+  compiledOn: string | undefined,
+): ProvisionCurrency {
+  const dated = events
+    .map(event => ({ event, date: event.commencement_date ?? event.assent_date }))
+    .filter((e): e is { event: ParsedAmendment; date: string } => e.date !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const isPending = (date: string) => compiledOn !== undefined && date > compiledOn;
+  const commenced = dated.filter(e => !isPending(e.date));
+  const pending = dated.find(e => isPending(e.date)) ?? null;
+
+  if (prov.repealed) {
+    const repeal = commenced.filter(e => e.event.action === 'rep').pop();
+    return { status: 'repealed', effectiveDate: repeal?.date ?? null, pending: pending?.event ?? null, pendingDate: pending?.date ?? null };
+  }
+
+  // Inserted by an Act that has not commenced yet
+  if (pending && pending.event.action === 'ad' && !commenced.some(e => e.event.action === 'ad')) {
+    const next = dated.find(e => e.date > pending.date) ?? null;
+    return { status: 'not_yet_in_force', effectiveDate: pending.date, pending: next?.event ?? null, pendingDate: next?.date ?? null };
+  }
+
+  return {
+    status: 'in_force',
+    effectiveDate: commenced.length > 0 ? commenced[commenced.length - 1].date : null,
+    pending: pending?.event ?? null,
+    pendingDate: pending?.date ?? null,
+  };
+}
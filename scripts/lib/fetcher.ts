@@ -12,6 +12,10 @@
  * URL pattern for EPUB HTML:
  *   /{titleId}/{start}/{retrospectiveStart}/text/original/epub/OEBPS/document_1/document_1.html
  *
+ * Large compilations (ITAA 1997, Corporations Act) are split into several
+ * volumes, each its own document in the EPUB. The package manifest
+ * (OEBPS/content.opf) lists them in reading order; all are fetched and merged.
+ *
  * - 500ms minimum delay between requests (be respectful to government servers)
  * - User-Agent header identifying the MCP
  * - No auth needed (CC BY 4.0)
@@ -49,6 +53,7 @@ export interface VersionInfo {
   status: string;
   registerId: string;
   start: string;         // ISO date e.g. "2025-06-10T00:00:00"
+  end?: string | null;   // ISO date the compilation ceased to apply; null for the current one
   retrospectiveStart: string;
   compilationNumber: string;
   isLatest: boolean;
@@ -135,20 +140,45 @@ export async function fetchVersionInfo(titleId: string): Promise<VersionInfo | n
     makingDate = titleData.makingDate;
   }
 
+  return { ...toVersionInfo(versionData), makingDate };
+}
+
+function toVersionInfo(versionData: Record<string, any>): VersionInfo {
   return {
     titleId: versionData.titleId,
     name: versionData.name,
     status: versionData.status,
     registerId: versionData.registerId,
     start: versionData.start,
+    end: versionData.end ?? null,
     retrospectiveStart: versionData.retrospectiveStart,
     compilationNumber: versionData.compilationNumber,
     isLatest: versionData.isLatest,
     isCurrent: versionData.isCurrent,
-    makingDate,
   };
 }
 
+/**
+ * Fetch every compilation (version) of a title from the OData API, oldest first.
+ * Used to build point-in-time history; each entry can be passed to
+ * fetchLegislationHtml() to retrieve that compilation's text.
+ */
+export async function fetchVersionHistory(titleId: string): Promise<VersionInfo[]> {
+  const params = new URLSearchParams({
+    '$filter': `titleId eq '${titleId}'`,
+    '$orderby': 'start',
+  });
+  const result = await fetchWithRateLimit(`${API_BASE}/versions?${params.toString()}`, 'application/json');
+
+  if (result.status !== 200) {
+    console.log(`  Version history API returned HTTP ${result.status} for ${titleId}`);
+    return [];
+  }
+
+  const data = JSON.parse(result.body) as { value?: Record<string, any>[] };
+  return (data.value ?? []).map(toVersionInfo);
+}
+
 /**
  * Format an ISO datetime string to a date-only string (YYYY-MM-DD).
  */
@@ -157,28 +187,80 @@ function formatDate(isoDateTime: string): string {
 }
 
 /**
- * Construct the EPUB XHTML URL for a given title and version.
+ * Construct the EPUB content directory URL for a given title and version.
  *
  * The Federal Register of Legislation serves EPUB files at:
+ *   /{titleId}/{start}/{retrospectiveStart}/text/original/epub/OEBPS/content.opf
  *   /{titleId}/{start}/{retrospectiveStart}/text/original/epub/OEBPS/document_1/document_1.html
  */
-function buildEpubHtmlUrl(titleId: string, start: string, retrospectiveStart: string): string {
+function buildEpubBaseUrl(titleId: string, start: string, retrospectiveStart: string): string {
   const startDate = formatDate(start);
   const retroDate = formatDate(retrospectiveStart);
-  return `${WWW_BASE}/${titleId}/${startDate}/${retroDate}/text/original/epub/OEBPS/document_1/document_1.html`;
+  return `${WWW_BASE}/${titleId}/${startDate}/${retroDate}/text/original/epub/OEBPS`;
+}
+
+/**
+ * XHTML content documents of an EPUB in reading order: the spine of the
+ * package manifest resolved to manifest hrefs. Navigation documents and
+ * non-linear items are left out.
+ */
+export function parseEpubSpine(opf: string): string[] {
+  const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+  const items = new Map<string, string>();
+  for (const [tag] of opf.matchAll(/<item\s[^>]*>/gi)) {
+    const id = attr(tag, 'id');
+    const href = attr(tag, 'href');
+    if (!id || !href) continue;
+    if (attr(tag, 'media-type') !== 'application/xhtml+xml') continue;
+    if ((attr(tag, 'properties') ?? '').split(/\s+/).includes('nav')) continue;
+    items.set(id, href);
+  }
+
+  const documents: string[] = [];
+  for (const [tag] of opf.matchAll(/<itemref\s[^>]*>/gi)) {
+    const href = items.get(attr(tag, 'idref') ?? '');
+    if (href && attr(tag, 'linear') !== 'no') documents.push(href);
+  }
+  return documents;
+}
+
+/**
+ * Merge the volumes of a compilation into one XHTML document, in order.
+ * Each volume's body is preceded by a marker comment naming its document.
+ */
+function mergeEpubDocuments(documents: Array<{ href: string; html: string }>): string {
+  if (documents.length === 1) return documents[0].html;
+
+  const bodies = documents.map(d =>
+    `<!-- epub-document: ${d.href} -->\n${d.html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? d.html}`,
+  );
+  return `<html xmlns="http://www.w3.org/1999/xhtml"><body>\n${bodies.join('\n')}\n</body></html>`;
+}
+
+function isSpaShell(result: FetchResult): boolean {
+  return result.status === 200 && result.body.includes('<!DOCTYPE html><html lang="en"');
 }
 
 /**
  * Fetch the actual legislation XHTML from the EPUB endpoint.
  *
  * Flow:
- * 1. Call the OData API to get version metadata (dates)
- * 2. Construct the EPUB XHTML URL from the version dates
- * 3. Fetch and return the full XHTML
+ * 1. Call the OData API to get version metadata (dates), unless a specific
+ *    compilation from fetchVersionHistory() is given
+ * 2. Read the EPUB manifest for the list of documents (volumes); without one,
+ *    fetch document_1, document_2, ... until one is not found
+ * 3. Fetch every document and return them merged into one XHTML document
+ *
+ * A volume that cannot be fetched fails the whole compilation rather than
+ * leaving its sections silently missing.
  */
-export async function fetchLegislationHtml(titleId: string): Promise<FetchResult & { versionInfo: VersionInfo | null }> {
+export async function fetchLegislationHtml(
+  titleId: string,
+  version?: VersionInfo,
+): Promise<FetchResult & { versionInfo: VersionInfo | null }> {
   // Step 1: Get version metadata
-  const versionInfo = await fetchVersionInfo(titleId);
+  const versionInfo = version ?? await fetchVersionInfo(titleId);
 
   if (!versionInfo) {
     return {
@@ -189,29 +271,47 @@ export async function fetchLegislationHtml(titleId: string): Promise<FetchResult
     };
   }
 
-  // Step 2: Build the EPUB HTML URL and fetch
-  const epubUrl = buildEpubHtmlUrl(
+  // Step 2: List the documents from the EPUB manifest
+  const baseUrl = buildEpubBaseUrl(
     versionInfo.titleId,
     versionInfo.start,
     versionInfo.retrospectiveStart,
   );
 
-  const result = await fetchWithRateLimit(epubUrl);
+  const manifest = await fetchWithRateLimit(`${baseUrl}/content.opf`, 'application/oebps-package+xml, application/xml, */*');
+  const spine = manifest.status === 200 && !isSpaShell(manifest) ? parseEpubSpine(manifest.body) : [];
+  const probe = spine.length === 0;
 
-  // Verify we got XHTML content (not the Angular SPA shell)
-  if (result.status === 200 && result.body.includes('<!DOCTYPE html><html lang="en"')) {
-    // This is the SPA shell, not actual legislation content
-    console.log(`  WARNING: Got SPA shell instead of EPUB content for ${titleId}`);
-    return {
-      status: 404,
-      body: '',
-      contentType: '',
-      versionInfo,
-    };
+  // Step 3: Fetch each document
+  const documents: Array<{ href: string; html: string }> = [];
+  for (let i = 0; probe || i < spine.length; i++) {
+    const href = probe ? `document_${i + 1}/document_${i + 1}.html` : spine[i];
+    const result = await fetchWithRateLimit(`${baseUrl}/${href}`);
+
+    // Verify we got XHTML content (not the Angular SPA shell)
+    const failed = result.status !== 200 || isSpaShell(result);
+    if (failed && probe && i > 0) break;  // Past the last volume
+    if (failed) {
+      if (isSpaShell(result)) {
+        // This is the SPA shell, not actual legislation content
+        console.log(`  WARNING: Got SPA shell instead of EPUB content for ${titleId} (${href})`);
+      } else if (documents.length > 0) {
+        console.log(`  WARNING: ${titleId} volume ${href} returned HTTP ${result.status}; the compilation is incomplete`);
+      }
+      return {
+        status: isSpaShell(result) ? 404 : result.status,
+        body: '',
+        contentType: '',
+        versionInfo,
+      };
+    }
+    documents.push({ href, html: result.body });
   }
 
   return {
-    ...result,
+    status: 200,
+    body: mergeEpubDocuments(documents),
+    contentType: '',
     versionInfo,
   };
 }
@@ -1,5 +1,7 @@
 /**
  * XHTML parser for Australian legislation from legislation.gov.au EPUB endpoint.
+ * Handles Acts and legislative instruments (regulations, rules, determinations),
+ * which share the same OPC layout.
  *
  * The Federal Register of Legislation serves legislation as EPUB files containing
  * XHTML with well-defined CSS classes:
@@ -15,32 +17,149 @@
  *   paragraphsub - Sub-paragraph text
  *   Definition  - Definition text
  *   Penalty     - Penalty clause
- *   notetext    - Note text
+ *   notetext    - Note text (kept apart from the operative text)
  *   SubsectionHead - Subsection heading
  *   Tabletext   - Text within tables
  *   SOText/SOPara/SOBullet - Supplementary text
  *
  * Each section starts with an ActHead5 element and includes all content until
  * the next ActHead5 (or higher-level heading).
+ *
+ * Schedules ("Schedule 1—Australian Privacy Principles") are ActHead1 headings
+ * after the body of the Act. Their clauses restart numbering, so they get refs
+ * of their own: sch1-cl3, sch2-s18 (the ACL keeps section numbering), and
+ * sch1-app1 for the Australian Privacy Principles.
+ *
+ * Chapter, Part, Division and Subdivision headings are kept as a tree
+ * (ParsedHeading); each provision records the innermost heading it sits under.
+ *
+ * Compilations end with endnotes (ENotesHeading1), which are not part of the
+ * last provision. Their legislation history and amendment history tables
+ * are read into ParsedAmendment events.
  */
 
 import type { VersionInfo } from './fetcher.js';
 
+export type DocumentType = 'statute' | 'legislative_instrument';
+
 export interface ActIndexEntry {
   id: string;
   title: string;
   year: number;
-  titleId: string;  // legislation.gov.au title ID (e.g., C2004A03712)
+  titleId: string;  // legislation.gov.au title ID (e.g., C2004A03712, F2014L00010)
   url: string;
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
+  document_type?: DocumentType;  // Defaults to 'statute'
 }
 
 export interface ParsedProvision {
   provision_ref: string;
   chapter?: string;
+  heading_ref?: string;  // Innermost Chapter/Part/Division/Subdivision heading
   section: string;
   title: string;
   content: string;
+  layout?: ParsedLayoutBlock[];
+  units?: ParsedProvisionUnit[];
+  penalties?: ParsedPenalty[];
+  notes?: ParsedNote[];
+  repealed?: boolean;  // Kept in the compilation as "6A Repealed"
+}
+
+/**
+ * One block of a provision as laid out in the source: a line of text at an
+ * indentation depth (subsection 0, paragraph 1, subparagraph 2), or a table.
+ */
+export type ParsedLayoutBlock =
+  | { kind: 'text' | 'heading' | 'definition' | 'penalty' | 'note' | 'example'; depth: number; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+/**
+ * A penalty attached to a provision ("Penalty: Imprisonment for 2 years." or
+ * "Civil penalty: 2,000 penalty units."). unit_ref is the subsection it ends.
+ */
+export interface ParsedPenalty {
+  unit_ref: string | null;
+  penalty_type: 'offence' | 'civil_penalty';
+  penalty_units: number | null;
+  imprisonment_months: number | null;
+  body_corporate_penalty_units: number | null;
+  body_corporate_multiplier: number | null;
+  text: string;
+}
+
+/**
+ * A Note, Example or editorial note in a provision. These explain the text
+ * but are not part of it, so they are kept out of `content`. unit_ref is
+ * the subsection the note follows.
+ */
+export interface ParsedNote {
+  unit_ref: string | null;
+  kind: 'note' | 'example' | 'editorial';
+  text: string;
+}
+
+export type ProvisionUnitLevel = 'subsection' | 'paragraph' | 'subparagraph';
+
+/**
+ * A numbered unit below section level, e.g. s26WE(2)(b). `lead_in` is the
+ * unit's own text; `content` adds the text of every unit nested in it.
+ */
+export interface ParsedProvisionUnit {
+  unit_ref: string;
+  parent_ref: string;
+  level: ProvisionUnitLevel;
+  label: string;
+  lead_in: string;
+  content: string;
+}
+
+export type HeadingLevel = 'schedule' | 'chapter' | 'part' | 'division' | 'subdivision';
+
+/**
+ * A structural heading above section level. heading_ref is the path of
+ * enclosing headings, e.g. "pt3/div2" or "sch1/pt2"; unnumbered headings
+ * keep just their level ("sch").
+ */
+export interface ParsedHeading {
+  heading_ref: string;
+  parent_ref: string | null;
+  level: HeadingLevel;
+  number: string | null;
+  title: string;
+}
+
+export type AmendmentAction = 'ad' | 'am' | 'rs' | 'rep' | 'renum' | 'exp';
+
+/**
+ * One entry of the amendment history endnote ("s 6 ... am No 197, 2012").
+ * provision_ref is null for Parts, Divisions and whole Schedules. The
+ * amending Act's title and dates come from the legislation history table;
+ * assent_date is the registration date for an amending instrument, and
+ * commencement_date is set only where the history gives a single date.
+ */
+export interface ParsedAmendment {
+  provision_ref: string | null;
+  provision_label: string;
+  action: AmendmentAction;
+  amending_act: string;  // "No 197, 2012", or a register ID for instruments (F2014L00123)
+  amending_title: string | null;
+  assent_date: string | null;
+  commencement_date: string | null;
+}
+
+/**
+ * A row of the commencement table in section 2 of an Act ("Sections 1 and 2
+ * and anything in this Act not elsewhere covered by this table | The day
+ * this Act receives the Royal Assent. | 12 December 2012").
+ * commencement_date is set only where the row gives a single date.
+ */
+export interface ParsedCommencement {
+  item: string;
+  provisions: string;
+  commencement: string;
+  commencement_date: string | null;
+  details: string | null;
 }
 
 export interface ParsedDefinition {
@@ -49,19 +168,32 @@ export interface ParsedDefinition {
   source_provision?: string;
 }
 
+export interface ParsedCompilation {
+  compilation_number: string;
+  register_id: string;
+  start_date: string;
+  end_date: string | null;
+}
+
 export interface ParsedAct {
   id: string;
-  type: 'statute';
+  type: DocumentType;
   title: string;
   title_en: string;
   short_name: string;
   status: 'in_force' | 'amended' | 'repealed' | 'not_yet_in_force';
-  issued_date: string;
-  in_force_date: string;
+  issued_date: string | null;  // Null when the register gives no date
+  in_force_date: string | null;
   url: string;
   description?: string;
+  compilation?: ParsedCompilation;
+  enabling_act?: string;  // Instruments only: title of the Act it is made under
+  headings: ParsedHeading[];
   provisions: ParsedProvision[];
   definitions: ParsedDefinition[];
+  missing_sections?: string[];  // Listed in the contents but not found in the text
+  amendments?: ParsedAmendment[];
+  commencement?: ParsedCommencement[];
 }
 
 /**
@@ -95,7 +227,8 @@ function stripHtml(html: string): string {
 }
 
 // Content CSS classes that make up section body text
-// Includes both modern (ActHead) and older (New/Heading) format classes
+// Includes both modern (ActHead) and older (New/Heading) format classes.
+// Notes are not operative text and are extracted separately (NOTE_CLASSES).
 const CONTENT_CLASSES = [
   'subsection',
   'subsection2',
@@ -104,8 +237,6 @@ const CONTENT_CLASSES = [
   'paragraphsub-sub',
   'Definition',
   'Penalty',
-  'notetext',
-  'notepara',
   'SubsectionHead',
   'Tabletext',
   'Tablea',
@@ -124,28 +255,68 @@ const CONTENT_CLASSES = [
 // Heading classes that start a new structural unit
 const HEADING_CLASSES = ['ActHead1', 'ActHead2', 'ActHead3', 'ActHead4', 'ActHead5'];
 
+const HEADING_RANK: Record<HeadingLevel, number> = {
+  schedule: 0, chapter: 1, part: 2, division: 3, subdivision: 4,
+};
+
+const HEADING_REF_PREFIX: Record<HeadingLevel, string> = {
+  schedule: 'sch', chapter: 'ch', part: 'pt', division: 'div', subdivision: 'sdiv',
+};
+
+const HEADING_LEVEL_BY_CLASS: Record<number, HeadingLevel> = {
+  1: 'chapter', 2: 'part', 3: 'division', 4: 'subdivision',
+};
+
+/**
+ * Classify a structural heading by its wording ("Part IIIC—Notification of
+ * eligible data breaches"), falling back to the heading class level when the
+ * text does not say (older Acts style some headings without a number).
+ */
+function classifyHeading(text: string, classLevel: number): { level: HeadingLevel; number: string | null; title: string } | null {
+  const schedule = classLevel === 1 ? text.match(/^Schedule(?:\s+(\d+[A-Z]*))?(?=\s*[\u2014\u2013-]|\s*$)\s*[\u2014\u2013-]?\s*(.*)$/) : null;
+  if (schedule) return { level: 'schedule', number: schedule[1] ?? null, title: schedule[2].trim() };
+
+  const named = text.match(/^(Chapter|Part|Division|Subdivision)\s+([0-9A-Z][0-9A-Za-z.-]*)\s*[\u2014\u2013-]?\s*(.*)$/);
+  if (named) {
+    return { level: named[1].toLowerCase() as HeadingLevel, number: named[2], title: named[3].trim() };
+  }
+
+  const level = HEADING_LEVEL_BY_CLASS[classLevel];
+  return level ? { level, number: null, title: text } : null;
+}
+
 /**
  * Split XHTML into sections based on ActHead5 elements.
  * Each section contains the heading and all content until the next heading.
+ * Also returns the Chapter/Part/Division/Subdivision headings in document order.
  */
-function splitIntoSections(html: string): Array<{
-  sectionNum: string;
-  sectionTitle: string;
-  bodyHtml: string;
-  partContext: string | undefined;
-  position: number;
-}> {
+function splitIntoSections(html: string): {
+  headings: ParsedHeading[];
+  sections: Array<{
+    sectionNum: string;
+    sectionTitle: string;
+    bodyHtml: string;
+    partContext: string | undefined;
+    headingRef: string | undefined;
+    schedule: string | undefined;
+    position: number;
+  }>;
+} {
   const sections: Array<{
     sectionNum: string;
     sectionTitle: string;
     bodyHtml: string;
     partContext: string | undefined;
+    headingRef: string | undefined;
+    schedule: string | undefined;
     position: number;
   }> = [];
+  const structure: ParsedHeading[] = [];
+  const seenHeadingRefs = new Set<string>();
 
-  // Track current part/division/chapter context
-  let currentPart: string | undefined;
-  let currentDivision: string | undefined;
+  // Open headings, outermost first. A schedule lasts until the next schedule.
+  const stack: Array<{ heading: ParsedHeading; text: string }> = [];
+  let currentSchedule: string | undefined;
 
   // Match all headings (ActHead1-5 and variant New1-5/Heading1-9 used by older legislation)
   const headingRegex = /<p[^>]*class="((?:ActHead|New|Heading)[1-9])"[^>]*>([\s\S]*?)<\/p>/gi;
@@ -169,22 +340,33 @@ function splitIntoSections(html: string): Array<{
     const levelMatch = heading.class.match(/(\d)$/);
     const level = levelMatch ? parseInt(levelMatch[1]) : 0;
 
-    // Update structural context
-    if (level === 1) {
-      currentPart = headingText;
-      currentDivision = undefined;
-    } else if (level === 2) {
-      currentPart = headingText;
-      currentDivision = undefined;
-    } else if (level === 3) {
-      currentDivision = headingText;
-    } else if (level === 4) {
-      currentDivision = headingText;
+    // Update structural context. Chapters inside a schedule (the Criminal
+    // Code) are ActHead1 headings too, so only a new schedule closes one.
+    if (level >= 1 && level <= 4) {
+      const classified = classifyHeading(headingText, level);
+      if (!classified) continue;
+
+      const rank = HEADING_RANK[classified.level];
+      while (stack.length > 0 && HEADING_RANK[stack[stack.length - 1].heading.level] >= rank) stack.pop();
+      if (classified.level === 'schedule') currentSchedule = classified.number ?? '';
+
+      const parent = stack.length > 0 ? stack[stack.length - 1].heading : null;
+      const segment = HEADING_REF_PREFIX[classified.level] + (classified.number?.toLowerCase() ?? '');
+      let headingRef = parent ? `${parent.heading_ref}/${segment}` : segment;
+      // Repeated headings (two unnumbered schedules) get an ordinal
+      for (let n = 2; seenHeadingRefs.has(headingRef); n++) {
+        headingRef = `${parent ? `${parent.heading_ref}/` : ''}${segment}_${n}`;
+      }
+      seenHeadingRefs.add(headingRef);
+
+      const parsed: ParsedHeading = { heading_ref: headingRef, parent_ref: parent?.heading_ref ?? null, ...classified };
+      structure.push(parsed);
+      stack.push({ heading: parsed, text: headingText });
     } else if (level === 5 || level === 9) {
       // This is a section heading. Extract section number and title.
       // Formats: "6  Interpretation", "2A  Objects", "476.2  Meaning of..."
-      // Also handles: "3LA  Person with knowledge..."
-      const sectMatch = headingText.match(/^(\d+(?:\.\d+)*[A-Za-z]*)\s+(.*)/);
+      // Also handles: "3LA  Person with knowledge...", "995-1  Definitions" (ITAA 1997)
+      const sectMatch = headingText.match(/^(\d+[A-Za-z]*(?:[.-]\d+[A-Za-z]*)*)\s+(.*)/);
       if (!sectMatch) continue;
 
       const sectionNum = sectMatch[1];
@@ -195,29 +377,52 @@ function splitIntoSections(html: string): Array<{
       const bodyHtml = html.substring(heading.end, nextHeadingIdx);
 
       // Build part context
-      const partContext = [currentPart, currentDivision].filter(Boolean).join(' > ') || undefined;
+      const partContext = stack.map(h => h.text).join(' > ') || undefined;
 
       sections.push({
         sectionNum,
         sectionTitle,
         bodyHtml,
         partContext,
+        headingRef: stack.length > 0 ? stack[stack.length - 1].heading.heading_ref : undefined,
+        schedule: currentSchedule,
         position: heading.index,
       });
     }
   }
 
-  return sections;
+  return { headings: structure, sections };
 }
 
 /**
- * Extract text content from a section's body HTML.
- * Extracts only the meaningful content paragraphs, ignoring pure styling elements.
+ * Sections listed in the compilation's contents (TOC5 entries) that have no
+ * section heading in the text, e.g. because a volume is missing. Only the
+ * body of the Act is checked; schedules and endnotes restart numbering.
  */
-function extractSectionContent(bodyHtml: string): string {
-  const contentParts: string[] = [];
+function findMissingSections(html: string, sectionNums: string[]): string[] {
+  const parsed = new Set(sectionNums);
+  const missing: string[] = [];
+
+  const tocRegex = /<p[^>]*class="TOC(\d)"[^>]*>([\s\S]*?)<\/p>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = tocRegex.exec(html)) !== null) {
+    const text = stripHtml(match[2]);
+    if (/^(?:Schedule|Endnotes)\b/.test(text)) break;
+    if (match[1] !== '5') continue;
+
+    const listed = text.match(/^(\d+[A-Za-z]*(?:[.-]\d+[A-Za-z]*)*)\s/)?.[1];
+    if (listed && !parsed.has(listed) && !missing.includes(listed)) missing.push(listed);
+  }
+
+  return missing;
+}
+
+/**
+ * Content-class paragraphs of a section body, in document order.
+ */
+function extractContentParagraphs(bodyHtml: string): Array<{ cls: string; text: string }> {
+  const paragraphs: Array<{ cls: string; text: string }> = [];
 
-  // Extract all content-class paragraphs
   const classPattern = CONTENT_CLASSES.map(c => c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
   const contentRegex = new RegExp(`<p[^>]*class="(${classPattern})"[^>]*>([\\s\\S]*?)<\\/p>`, 'gi');
 
@@ -225,10 +430,70 @@ function extractSectionContent(bodyHtml: string): string {
   while ((match = contentRegex.exec(bodyHtml)) !== null) {
     const text = stripHtml(match[2]);
     if (text.length > 2) {
-      contentParts.push(text);
+      paragraphs.push({ cls: match[1], text });
     }
   }
 
+  return paragraphs;
+}
+
+// Layout of each content class: block kind and indentation depth
+const LAYOUT_CLASSES: Record<string, { kind: 'text' | 'heading' | 'definition' | 'penalty' | 'note'; depth: number }> = {
+  subsection: { kind: 'text', depth: 0 },
+  subsection2: { kind: 'text', depth: 0 },
+  SubsectionHead: { kind: 'heading', depth: 0 },
+  paragraph: { kind: 'text', depth: 1 },
+  indenta: { kind: 'text', depth: 1 },
+  paragraphsub: { kind: 'text', depth: 2 },
+  indentii: { kind: 'text', depth: 2 },
+  'paragraphsub-sub': { kind: 'text', depth: 3 },
+  Definition: { kind: 'definition', depth: 0 },
+  Penalty: { kind: 'penalty', depth: 0 },
+  notetext: { kind: 'note', depth: 0 },
+  notepara: { kind: 'note', depth: 1 },
+  SOText: { kind: 'text', depth: 0 },
+  SOPara: { kind: 'text', depth: 1 },
+  SOBullet: { kind: 'text', depth: 1 },
+};
+
+/**
+ * Layout of a section body: its content paragraphs with their kind and
+ * depth, and tables as rows of cells, in document order.
+ */
+function extractLayout(bodyHtml: string): ParsedLayoutBlock[] {
+  const blocks: ParsedLayoutBlock[] = [];
+  const blockRegex = /<table[^>]*>([\s\S]*?)<\/table>|<p[^>]*class="([^"]+)"[^>]*>([\s\S]*?)<\/p>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = blockRegex.exec(bodyHtml)) !== null) {
+    if (match[1] !== undefined) {
+      const rows: string[][] = [];
+      for (const row of match[1].matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)) {
+        const cells = [...row[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(cell => stripHtml(cell[1]));
+        if (cells.some(cell => cell.length > 0)) rows.push(cells);
+      }
+      if (rows.length > 0) blocks.push({ kind: 'table', rows });
+      continue;
+    }
+
+    const style = LAYOUT_CLASSES[match[2]];
+    const text = stripHtml(match[3]);
+    if (!style || text.length === 0) continue;
+
+    const kind = style.kind === 'note' && /^Example\b/.test(text) ? 'example' : style.kind;
+    blocks.push({ kind, depth: style.depth, text });
+  }
+
+  return blocks;
+}
+
+/**
+ * Extract text content from a section's body HTML.
+ * Extracts only the meaningful content paragraphs, ignoring pure styling elements.
+ */
+function extractSectionContent(bodyHtml: string): string {
+  const contentParts = extractContentParagraphs(bodyHtml).map(p => p.text);
+
   // If no content found via class matching, fall back to stripping all HTML
   if (contentParts.length === 0) {
     const fallback = stripHtml(bodyHtml);
@@ -237,29 +502,122 @@ function extractSectionContent(bodyHtml: string): string {
     }
   }
 
-  return contentParts.join(' ').substring(0, 8000);
+  return contentParts.join(' ');
 }
 
+// Numbered unit classes and the label each carries: "(1)", "(a)", "(i)".
+// Older Acts use indenta/indentii for paragraphs and subparagraphs.
+const UNIT_CLASSES: Record<string, { level: ProvisionUnitLevel; depth: number; label: RegExp }> = {
+  subsection: { level: 'subsection', depth: 1, label: /^\((\d+[A-Z]*)\)\s*/ },
+  paragraph: { level: 'paragraph', depth: 2, label: /^\(([a-z]{1,2})\)\s*/ },
+  indenta: { level: 'paragraph', depth: 2, label: /^\(([a-z]{1,2})\)\s*/ },
+  paragraphsub: { level: 'subparagraph', depth: 3, label: /^\(([ivxl]+)\)\s*/ },
+  indentii: { level: 'subparagraph', depth: 3, label: /^\(([ivxl]+)\)\s*/ },
+};
+
+// Classes that continue the enclosing subsection rather than the last paragraph
+const SUBSECTION_CONTINUATION_CLASSES = new Set(['subsection2', 'Penalty', 'Definition']);
+
+/**
+ * Split a section into its subsections, paragraphs and subparagraphs.
+ *
+ * Refs follow the pinpoint form: s13(1), s13(1)(a), s13(1)(a)(i); a section
+ * without subsections has paragraphs directly below it (s13(a)). APP
+ * subclauses keep their decimal numbering (sch1-app1.4(a)). Paragraphs
+ * inside a definition or a penalty belong to it, not to the section's own
+ * numbering, so they are folded into the enclosing subsection.
+ */
+function extractProvisionUnits(bodyHtml: string, provisionRef: string, sectionNum: string): ParsedProvisionUnit[] {
+  const units: ParsedProvisionUnit[] = [];
+  // APP subclauses are numbered 1.1, 1.2 rather than (1), (2)
+  const subclauseLabel = new RegExp(`^${sectionNum.replace(/\./g, '\\.')}\\.(\\d+[A-Z]*)\\s+`);
+  const seenRefs = new Set<string>();
+  // Open units, outermost first, with the depth at which each was opened
+  let open: Array<{ unit: ParsedProvisionUnit; depth: number }> = [];
+  // Inside a definition or a split penalty, whose paragraphs are not the section's own
+  let inNestedList = false;
+
+  for (const { cls, text } of extractContentParagraphs(bodyHtml)) {
+    const unitClass = UNIT_CLASSES[cls];
+    const subclause = cls === 'subsection' ? text.match(subclauseLabel) : null;
+    const labelMatch = subclause ?? (unitClass ? text.match(unitClass.label) : null);
+
+    if (cls === 'subsection') inNestedList = false;
+    if (cls === 'Definition' || (cls === 'Penalty' && text.endsWith(':'))) inNestedList = true;
+
+    if (unitClass && labelMatch && !(inNestedList && unitClass.depth > 1)) {
+      open = open.filter(o => o.depth < unitClass.depth);
+      const parentRef = open.length > 0 ? open[open.length - 1].unit.unit_ref : provisionRef;
+      const unitRef = subclause ? `${parentRef}.${subclause[1]}` : `${parentRef}(${labelMatch[1]})`;
+
+      for (const o of open) o.unit.content += ` ${text}`;
+      if (seenRefs.has(unitRef)) continue;
+      seenRefs.add(unitRef);
+
+      const unit: ParsedProvisionUnit = {
+        unit_ref: unitRef,
+        parent_ref: parentRef,
+        level: unitClass.level,
+        label: subclause ? `${sectionNum}.${subclause[1]}` : `(${labelMatch[1]})`,
+        lead_in: text,
+        content: text,
+      };
+      units.push(unit);
+      open.push({ unit, depth: unitClass.depth });
+      continue;
+    }
+
+    if (cls === 'subsection') {
+      open = []; // Unnumbered subsection: text of the section itself
+    } else if (SUBSECTION_CONTINUATION_CLASSES.has(cls)) {
+      open = open.filter(o => o.depth <= 1);
+    }
+    for (const o of open) o.unit.content += ` ${text}`;
+  }
+
+  return units;
+}
+
+// Paragraphs that continue a definition ("personal information means ...: (a) ...; (b) ...")
+const DEFINITION_CONTINUATION_CLASSES = new Set([
+  'paragraph', 'paragraphsub', 'paragraphsub-sub', 'indenta', 'indentii',
+]);
+
 /**
  * Extract definitions from the body HTML of a definitions section.
- * Definitions use the "Definition" CSS class.
+ * Definitions use the "Definition" CSS class; the paragraphs after one
+ * belong to it until the next definition or subsection.
  */
 function extractDefinitions(bodyHtml: string, provisionRef: string): ParsedDefinition[] {
   const definitions: ParsedDefinition[] = [];
-  const defRegex = /<p[^>]*class="Definition"[^>]*>([\s\S]*?)<\/p>/gi;
+  const paragraphRegex = /<p[^>]*class="([^"]+)"[^>]*>([\s\S]*?)<\/p>/gi;
 
+  const blocks: Array<{ html: string; parts: string[] }> = [];
+  let current: { html: string; parts: string[] } | null = null;
   let match: RegExpExecArray | null;
-  while ((match = defRegex.exec(bodyHtml)) !== null) {
-    const fullText = stripHtml(match[1]);
+  while ((match = paragraphRegex.exec(bodyHtml)) !== null) {
+    if (match[1] === 'Definition') {
+      current = { html: match[2], parts: [stripHtml(match[2])] };
+      blocks.push(current);
+    } else if (current && DEFINITION_CONTINUATION_CLASSES.has(match[1])) {
+      const text = stripHtml(match[2]);
+      if (text) current.parts.push(text);
+    } else {
+      current = null;
+    }
+  }
+
+  for (const block of blocks) {
+    const fullText = block.parts.join(' ');
 
     // Extract bold/italic terms - definitions typically start with the term in bold or italic
-    const termMatch = match[1].match(/<(?:b|i|em|strong|span[^>]*font-style:\s*italic[^>]*)>([\s\S]*?)<\/(?:b|i|em|strong|span)>/i);
+    const termMatch = block.html.match(/<(?:b|i|em|strong|span[^>]*font-style:\s*italic[^>]*)>([\s\S]*?)<\/(?:b|i|em|strong|span)>/i);
     if (termMatch) {
       const term = stripHtml(termMatch[1]).trim();
       if (term && term.length > 1 && term.length < 100) {
         definitions.push({
           term,
-          definition: fullText.substring(0, 4000),
+          definition: fullText,
           source_provision: provisionRef,
         });
       }
@@ -269,6 +627,343 @@ function extractDefinitions(bodyHtml: string, provisionRef: string): ParsedDefin
   return definitions;
 }
 
+/**
+ * Provision reference prefix for a document.
+ *
+ * Acts are numbered in sections ("s"). Instruments made before the 2015-16
+ * drafting changes number their provisions as regulations or rules (both cited
+ * "r" under AGLC); later instruments use sections. The style is decided by
+ * which kind of self-reference dominates the text ("regulation 5", "subrule 3(2)").
+ * The match is case-sensitive so that titles ("Privacy Rules 2021") do not count.
+ */
+function detectProvisionPrefix(html: string, documentType: DocumentType): 's' | 'r' {
+  if (documentType !== 'legislative_instrument') return 's';
+
+  const text = stripHtml(html);
+  const count = (pattern: RegExp) => (text.match(pattern) ?? []).length;
+  const regulationOrRuleRefs = count(/\b(?:sub)?(?:regulations?|rules?)\s+\d+(?:\.\d+)*[A-Z]*\b(?!\s+of\s+the\s)/g);
+  const sectionRefs = count(/\b(?:sub)?sections?\s+\d+(?:\.\d+)*[A-Z]*\b(?!\s+of\s+the\s)/g);
+
+  return regulationOrRuleRefs > sectionRefs ? 'r' : 's';
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  twelve: 12, fifteen: 15, twenty: 20, thirty: 30, fifty: 50, hundred: 100,
+};
+
+function parseCount(value: string): number | null {
+  const n = NUMBER_WORDS[value.toLowerCase()] ?? Number(value.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Structured form of one penalty statement. Offences state imprisonment
+ * and/or penalty units; some split the amount for individuals and bodies
+ * corporate ("(b) for a body corporate—10,000 penalty units") or state a
+ * multiple ("5 times the penalty for an individual").
+ */
+function parsePenalty(text: string, unitRef: string | null): ParsedPenalty {
+  const bodyCorporateAt = text.search(/body corporate/i);
+  const individualText = bodyCorporateAt >= 0 ? text.substring(0, bodyCorporateAt) : text;
+  const bodyCorporateText = bodyCorporateAt >= 0 ? text.substring(bodyCorporateAt) : '';
+
+  const units = (s: string) => {
+    const m = s.match(/([\d,]+(?:\.\d+)?)\s+penalty\s+units?/i);
+    return m ? parseCount(m[1]) : null;
+  };
+
+  const prison = text.match(/imprisonment\s+for\s+([\d,]+|[a-z]+)\s+(years?|months?)/i);
+  const prisonCount = prison ? parseCount(prison[1]) : null;
+  const multiplier = bodyCorporateText.match(/\b(\d+|[a-z]+)\s+times\b/i);
+
+  return {
+    unit_ref: unitRef,
+    penalty_type: /^civil penalty/i.test(text) ? 'civil_penalty' : 'offence',
+    penalty_units: units(individualText),
+    imprisonment_months: prisonCount !== null ? (/^year/i.test(prison![2]) ? prisonCount * 12 : prisonCount) : null,
+    body_corporate_penalty_units: units(bodyCorporateText),
+    body_corporate_multiplier: multiplier ? parseCount(multiplier[1]) : null,
+    text,
+  };
+}
+
+/**
+ * Penalties stated in a section, each tied to the subsection it follows.
+ * A penalty ending in a colon continues in the paragraphs after it.
+ */
+function extractPenalties(bodyHtml: string, provisionRef: string): ParsedPenalty[] {
+  const penalties: Array<{ unitRef: string | null; text: string }> = [];
+  let currentSubsection: string | null = null;
+  let continuing: { unitRef: string | null; text: string } | null = null;
+
+  for (const { cls, text } of extractContentParagraphs(bodyHtml)) {
+    if (continuing && (cls === 'paragraph' || cls === 'paragraphsub' || cls === 'Penalty')) {
+      continuing.text += ` ${text}`;
+      continue;
+    }
+    continuing = null;
+
+    if (cls === 'subsection') {
+      const label = text.match(UNIT_CLASSES.subsection.label);
+      currentSubsection = label ? `${provisionRef}(${label[1]})` : null;
+    }
+
+    if (cls === 'Penalty' || /^(?:civil\s+)?penalty:/i.test(text)) {
+      const penalty = { unitRef: currentSubsection, text };
+      penalties.push(penalty);
+      if (text.trim().endsWith(':')) continuing = penalty;
+    }
+  }
+
+  return penalties.map(p => parsePenalty(p.text, p.unitRef));
+}
+
+// Classes of Notes, Examples and editorial notes; notepara continues the note before it
+const NOTE_CLASSES = new Set(['notetext', 'notepara', 'notemargin', 'EditorialNote']);
+
+/**
+ * Notes, Examples and editorial notes in a section, each tied to the
+ * subsection it follows. "Note 2:" starts a new note; the numbered
+ * paragraphs of a note (notepara) continue it.
+ */
+function extractNotes(bodyHtml: string, provisionRef: string): ParsedNote[] {
+  const notes: ParsedNote[] = [];
+  const paragraphRegex = /<p[^>]*class="([^"]+)"[^>]*>([\s\S]*?)<\/p>/gi;
+  let currentSubsection: string | null = null;
+  let previous: ParsedNote | null = null;
+
+  let match: RegExpExecArray | null;
+  while ((match = paragraphRegex.exec(bodyHtml)) !== null) {
+    const cls = match[1];
+    const text = stripHtml(match[2]);
+    if (!text) continue;
+
+    if (cls === 'subsection') {
+      const label = text.match(UNIT_CLASSES.subsection.label);
+      currentSubsection = label ? `${provisionRef}(${label[1]})` : null;
+    }
+    if (!NOTE_CLASSES.has(cls)) {
+      previous = null;
+      continue;
+    }
+
+    if (cls === 'notepara' && previous) {
+      previous.text += ` ${text}`;
+      continue;
+    }
+
+    const kind = cls === 'EditorialNote' || /^Editorial note\b/i.test(text)
+      ? 'editorial'
+      : /^Examples?\b/.test(text) ? 'example' : 'note';
+    previous = { unit_ref: currentSubsection, kind, text };
+    notes.push(previous);
+  }
+
+  return notes;
+}
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+/**
+ * ISO dates written in a table cell ("12 Dec 2012", "12 December 2012"), without repeats.
+ */
+function writtenDates(text: string): string[] {
+  const dates: string[] = [];
+  for (const m of text.matchAll(/\b(\d{1,2})\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s+(\d{4})\b/g)) {
+    const date = `${m[3]}-${MONTHS[m[2].toLowerCase()]}-${m[1].padStart(2, '0')}`;
+    if (!dates.includes(date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Rows of each table in a piece of the text, as cell text.
+ */
+function tableRows(html: string): string[][][] {
+  const tables: string[][][] = [];
+  for (const table of html.matchAll(/<table[^>]*>([\s\S]*?)<\/table>/gi)) {
+    const rows = [...table[1].matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)]
+      .map(row => [...row[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(cell => stripHtml(cell[1])));
+    if (rows.length > 0) tables.push(rows);
+  }
+  return tables;
+}
+
+/**
+ * Provision ref for an amendment history label: "s 6" is s6, "r 5" r5,
+ * "c 3" in Schedule 1 sch1-cl3. Headings ("Part IIIC", "Schedule 1")
+ * have none.
+ */
+function amendedProvisionRef(label: string, schedule: string | undefined): string | null {
+  const match = label.match(
+    /^(?:(?:Heading|Notes?|Examples?)\s+to\s+)?(s|r|reg|c|cl|clause)\.?\s+(\d+[A-Za-z]*(?:[.-]\d+[A-Za-z]*)*)/i,
+  );
+  if (!match) return null;
+
+  const unit = match[1].toLowerCase();
+  const ref = unit === 's' ? 's' : unit.startsWith('r') ? 'r' : 'cl';
+  if (schedule !== undefined) return `sch${schedule}-${ref}${match[2]}`;
+  return ref === 'cl' ? null : `${ref}${match[2]}`;
+}
+
+/**
+ * Rows of the commencement table in a section body. Item numbers are written
+ * before the provisions ("1.  Schedule 1") or in a cell of their own;
+ * heading rows ("Column 1", "Provisions") have neither.
+ */
+function extractCommencementTable(bodyHtml: string): ParsedCommencement[] {
+  for (const rows of tableRows(bodyHtml)) {
+    const items: ParsedCommencement[] = [];
+    for (const [first = '', ...rest] of rows) {
+      const ownCell = first.match(/^(\d+[A-Z]*)\.?$/);
+      const leading = first.match(/^(\d+[A-Z]*)\.?\s+(.+)$/);
+      const cells = ownCell ? rest : leading ? [leading[2], ...rest] : null;
+      if (!cells || cells.length < 2) continue;
+
+      const [provisions, commencement, details = ''] = cells;
+      const dates = writtenDates(details);
+      items.push({
+        item: (ownCell ?? leading)![1],
+        provisions,
+        commencement,
+        commencement_date: dates.length === 1 ? dates[0] : null,
+        details: details || null,
+      });
+    }
+    if (items.length > 0) return items;
+  }
+  return [];
+}
+
+/**
+ * Read the amendment history endnote ("Provision affected | How affected")
+ * into one event per amending Act, with the Act's title and dates from the
+ * legislation history endnote. A row without a provision continues the one
+ * above; a Schedule row starts the numbering of that schedule.
+ */
+function extractAmendmentHistory(html: string): ParsedAmendment[] {
+  const tables = tableRows(html);
+
+  // Legislation history: "Privacy Amendment ... Act 2012 | 197, 2012 | 12 Dec 2012 | 12 Mar 2014"
+  // or, for instruments, "Name | 17 Dec 2013 (F2013L02126) | 12 Mar 2014 (s 2)"
+  const amendingActs = new Map<string, { title: string; assent_date: string | null; commencement_date: string | null }>();
+  for (const rows of tables) {
+    if (!/^(?:Act|Name)\b/.test(rows[0][0] ?? '')) continue;
+    for (const [title, numberCell = '', ...rest] of rows.slice(1)) {
+      const actNumber = numberCell.match(/^(\d+),\s*(\d{4})$/);
+      const registerId = numberCell.match(/\b(F\d{4}[A-Z]\d{5})\b/);
+      const key = actNumber ? `No ${actNumber[1]}, ${actNumber[2]}` : registerId?.[1];
+      if (!key || !title) continue;
+
+      const assent = actNumber ? writtenDates(rest[0] ?? '') : writtenDates(numberCell);
+      const commencement = writtenDates((actNumber ? rest[1] : rest[0]) ?? '');
+      amendingActs.set(key, {
+        title,
+        assent_date: assent[0] ?? null,
+        commencement_date: commencement.length === 1 ? commencement[0] : null,
+      });
+    }
+  }
+
+  const amendments: ParsedAmendment[] = [];
+  for (const rows of tables) {
+    if (!/^Provision affected/i.test(rows[0][0] ?? '')) continue;
+
+    let label = '';
+    let schedule: string | undefined;
+    for (const [provisionCell = '', howAffected = ''] of rows.slice(1)) {
+      const provision = provisionCell.replace(/(?:\s*\.){2,}\s*$|…+\s*$/, '').trim();
+      if (provision) {
+        label = provision;
+        const scheduleRow = provision.match(/^Sch(?:edule)?\.?(?:\s+(\d+[A-Z]*))?(?:\s*[\u2014\u2013-].*)?$/i);
+        if (scheduleRow) schedule = scheduleRow[1] ?? '';
+      }
+      if (!label || !howAffected) continue;
+
+      // "(as am by No 8, 2005)" names the Act that amended the amending Act
+      const affected = howAffected.replace(/\([^)]*\)/g, ' ');
+      for (const entry of affected.matchAll(/\b(ad|am|rs|rep|renum|exp)\.?\s+((?:(?!\b(?:ad|am|rs|rep|renum|exp|ed)\b\.?\s).)*)/g)) {
+        const action = entry[1] as AmendmentAction;
+        const acts = [
+          ...[...entry[2].matchAll(/\bNo\.?\s*(\d+),?\s+(\d{4})\b/g)].map(m => `No ${m[1]}, ${m[2]}`),
+          ...[...entry[2].matchAll(/\b(F\d{4}[A-Z]\d{5})\b/g)].map(m => m[1]),
+        ];
+        for (const amendingAct of acts) {
+          const history = amendingActs.get(amendingAct);
+          amendments.push({
+            provision_ref: amendedProvisionRef(label, schedule),
+            provision_label: label,
+            action,
+            amending_act: amendingAct,
+            amending_title: history?.title ?? null,
+            assent_date: history?.assent_date ?? null,
+            commencement_date: history?.commencement_date ?? null,
+          });
+        }
+      }
+    }
+  }
+
+  return amendments;
+}
+
+/**
+ * Numbering of a schedule's provisions. The Australian Consumer Law and the
+ * Criminal Code keep sections; most other schedules are divided into clauses.
+ */
+function detectScheduleUnit(scheduleHtml: string): 's' | 'cl' {
+  const text = stripHtml(scheduleHtml);
+  const count = (pattern: RegExp) => (text.match(pattern) ?? []).length;
+  const clauseRefs = count(/\b(?:sub)?clauses?\s+\d+/g);
+  const sectionRefs = count(/\b(?:sub)?sections?\s+\d+/g);
+
+  return sectionRefs > clauseRefs ? 's' : 'cl';
+}
+
+/**
+ * Provision ref and citation label for a provision in a schedule:
+ * sch1-app1 ("APP 1"), sch2-s18 ("Sch 2 s 18"), sch1-cl3 ("Sch 1 cl 3").
+ * An unnumbered schedule (the Criminal Code) is "sch".
+ */
+function scheduleProvisionRef(
+  schedule: string,
+  unit: 's' | 'cl',
+  sectionNum: string,
+  sectionTitle: string,
+): { ref: string; label: string } {
+  const app = sectionTitle.match(/^Australian Privacy Principle (\d+)\b/);
+  if (app) {
+    return { ref: `sch${schedule}-app${app[1]}`, label: `APP ${app[1]}` };
+  }
+  return {
+    ref: `sch${schedule}-${unit}${sectionNum}`,
+    label: `Sch${schedule ? ` ${schedule}` : ''} ${unit} ${sectionNum}`,
+  };
+}
+
+// Act titles in running text, e.g. "the Security of Critical Infrastructure Act 2018"
+const ACT_TITLE = String.raw`[A-Z][\w'’()-]*(?:\s+(?:[A-Z][\w'’()-]*|and|of|the|for|to|on|in|or))*\s+Act\s+\d{4}`;
+
+/**
+ * The Act an instrument is made under, from its authority provision:
+ * "This instrument is made under the Privacy Act 1988." Older regulations
+ * say "These Regulations are made under the Corporations Act 2001."
+ */
+function extractEnablingAct(html: string): string | undefined {
+  const text = stripHtml(html);
+  const authority = new RegExp(
+    String.raw`\b(?:is|are)\s+made\s+under\s+(?:(?:section|subsection)\s+\S+\s+of\s+)?the\s+(${ACT_TITLE})`,
+  );
+  return text.match(authority)?.[1];
+}
+
+// "Repealed", "[Repealed]", "(Repealed)", "Repealed by No 197, 2012"
+const REPEALED_HEADING = /^[[(]?Repealed\b/i;
+
 /**
  * Parse Australian legislation XHTML (from EPUB endpoint) into structured provisions.
  */
@@ -277,44 +972,84 @@ export function parseAustralianHtml(html: string, act: ActIndexEntry, versionInf
   const definitions: ParsedDefinition[] = [];
   const seenRefs = new Set<string>();
 
-  // Split into sections
-  const sections = splitIntoSections(html);
+  const documentType = act.document_type ?? 'statute';
+  const prefix = detectProvisionPrefix(html, documentType);
 
+  // Split into sections; the endnotes after the last section are not part of it
+  const endnotesStart = html.search(/<p[^>]*class="ENotesHeading1"/i);
+  const { headings, sections } = splitIntoSections(endnotesStart >= 0 ? html.substring(0, endnotesStart) : html);
+  const amendments = extractAmendmentHistory(endnotesStart >= 0 ? html.substring(endnotesStart) : html);
+  let commencement: ParsedCommencement[] = [];
+  const missingSections = findMissingSections(
+    html,
+    sections.filter(section => section.schedule === undefined).map(section => section.sectionNum),
+  );
+
+  const scheduleHtml = new Map<string, string>();
   for (const section of sections) {
-    const provisionRef = `s${section.sectionNum}`;
+    if (section.schedule === undefined) continue;
+    scheduleHtml.set(section.schedule, (scheduleHtml.get(section.schedule) ?? '') + section.bodyHtml);
+  }
+  const scheduleUnits = new Map(
+    [...scheduleHtml].map(([schedule, bodyHtml]) => [schedule, detectScheduleUnit(bodyHtml)]),
+  );
+
+  for (const section of sections) {
+    let provisionRef = `${prefix}${section.sectionNum}`;
+    let sectionLabel = section.sectionNum;
+    if (section.schedule !== undefined) {
+      const scheduleRef = scheduleProvisionRef(
+        section.schedule, scheduleUnits.get(section.schedule) ?? 'cl', section.sectionNum, section.sectionTitle,
+      );
+      provisionRef = scheduleRef.ref;
+      sectionLabel = scheduleRef.label;
+    }
 
-    // Skip duplicates (schedule sections may repeat numbering)
+    // Skip duplicates (repeated headings within the same schedule or body)
     if (seenRefs.has(provisionRef)) continue;
     seenRefs.add(provisionRef);
 
+    // Repealed sections keep their number and heading ("6A Repealed") but no text
+    const repealed = REPEALED_HEADING.test(section.sectionTitle);
+
     // Extract content
-    const content = extractSectionContent(section.bodyHtml);
+    const content = extractSectionContent(section.bodyHtml) || (repealed ? section.sectionTitle : '');
     if (content.length < 5) continue;
 
+    const units = extractProvisionUnits(section.bodyHtml, provisionRef, section.sectionNum);
+    const penalties = extractPenalties(section.bodyHtml, provisionRef);
+    const layout = extractLayout(section.bodyHtml);
+    const notes = extractNotes(section.bodyHtml, provisionRef);
+
     provisions.push({
       provision_ref: provisionRef,
       chapter: section.partContext,
-      section: section.sectionNum,
+      heading_ref: section.headingRef,
+      section: sectionLabel,
       title: section.sectionTitle,
       content,
+      ...(layout.length > 0 ? { layout } : {}),
+      ...(units.length > 0 ? { units } : {}),
+      ...(penalties.length > 0 ? { penalties } : {}),
+      ...(notes.length > 0 ? { notes } : {}),
+      ...(repealed ? { repealed } : {}),
     });
 
-    // Extract definitions if this looks like a definitions section
     const lowerTitle = section.sectionTitle.toLowerCase();
+    if (commencement.length === 0 && section.schedule === undefined && lowerTitle === 'commencement') {
+      commencement = extractCommencementTable(section.bodyHtml);
+    }
+
+    // Extract definitions if this looks like a definitions section
     if (lowerTitle.includes('interpretation') || lowerTitle.includes('definition') || lowerTitle === 'definitions') {
       const defs = extractDefinitions(section.bodyHtml, provisionRef);
       definitions.push(...defs);
     }
   }
 
-  // Determine dates
-  const makingDate = versionInfo?.makingDate
-    ? versionInfo.makingDate.split('T')[0]
-    : `${act.year}-01-01`;
-
-  const inForceDate = versionInfo?.start
-    ? versionInfo.start.split('T')[0]
-    : `${act.year}-01-01`;
+  // Dates come from the register; without them they are left unknown rather than guessed
+  const makingDate = versionInfo?.makingDate ? versionInfo.makingDate.split('T')[0] : null;
+  const inForceDate = versionInfo?.start ? versionInfo.start.split('T')[0] : null;
 
   // Map API status to our schema
   const statusMap: Record<string, ParsedAct['status']> = {
@@ -329,14 +1064,14 @@ export function parseAustralianHtml(html: string, act: ActIndexEntry, versionInf
     : act.status;
 
   // Build description
-  const description = `${act.title} - Australian federal legislation. ` +
+  const description = `${act.title} - Australian federal ${documentType === 'legislative_instrument' ? 'legislative instrument' : 'legislation'}. ` +
     `Register ID: ${versionInfo?.registerId ?? 'unknown'}. ` +
     `Compilation number: ${versionInfo?.compilationNumber ?? 'unknown'}. ` +
     `Source: Federal Register of Legislation (legislation.gov.au).`;
 
   return {
     id: act.id,
-    type: 'statute',
+    type: documentType,
     title: act.title,
     title_en: act.title, // Australian legislation is in English
     short_name: act.title,
@@ -345,8 +1080,21 @@ export function parseAustralianHtml(html: string, act: ActIndexEntry, versionInf
     in_force_date: inForceDate,
     url: act.url,
     description,
+    compilation: versionInfo
+      ? {
+          compilation_number: versionInfo.compilationNumber,
+          register_id: versionInfo.registerId,
+          start_date: versionInfo.start.split('T')[0],
+          end_date: versionInfo.end ? versionInfo.end.split('T')[0] : null,
+        }
+      : undefined,
+    enabling_act: documentType === 'legislative_instrument' ? extractEnablingAct(html) : undefined,
+    headings,
     provisions,
     definitions,
+    ...(missingSections.length > 0 ? { missing_sections: missingSections } : {}),
+    ...(amendments.length > 0 ? { amendments } : {}),
+    ...(commencement.length > 0 ? { commencement } : {}),
   };
 }
 
@@ -0,0 +1,160 @@
+/**
+ * Parser for Australian preparatory works kept as local files.
+ *
+ * Handles explanatory memoranda (Bills), explanatory statements (legislative
+ * instruments) and second reading speeches, saved as HTML or as text
+ * extracted from the PDF.
+ *
+ * Explanatory memoranda usually end with "Notes on clauses" (or, for
+ * amending Bills, notes on Schedule items):
+ *
+ *   Clause 13 – Interferences with privacy
+ *   45. This clause provides that ...
+ *
+ *   Item 3 – Subsection 26WE(2)
+ *   1.12 This item amends ...
+ *
+ * The material is split into segments: the general part (outline, financial
+ * impact, and so on) and one segment per clause or item note. Clause notes
+ * map to the section of the same number; item notes map to the section they
+ * name. build-db.ts drops mappings to sections that do not exist.
+ */
+
+export type PreparatoryWorkType = 'explanatory_memorandum' | 'explanatory_statement' | 'second_reading_speech';
+
+export interface ParsedSegment {
+  clause_ref: string | null;
+  provision_ref: string | null;
+  heading: string | null;
+  content: string;
+}
+
+export interface ParsedPreparatoryWork {
+  document_id: string;
+  work_type: PreparatoryWorkType;
+  title: string;
+  date: string | null;
+  url?: string;
+  source_file: string;
+  segments: ParsedSegment[];
+}
+
+const MONTHS: Record<string, string> = {
+  january: '01', february: '02', march: '03', april: '04', may: '05', june: '06',
+  july: '07', august: '08', september: '09', october: '10', november: '11', december: '12',
+};
+
+// Headings that open a clause or item note: "Clause 13 – Interferences with privacy",
+// or the bare "Clause 13" with the title on the next line. Requiring the dash keeps
+// body text such as "Section 6 provides that ..." out.
+const NOTE_HEADING = /^(Clauses?|Items?|Sections?)\s+(\d+[A-Z]*)(?:\s*(?:and|to|-|–)\s*\d+[A-Z]*)?\s*(?:[–—:-]\s*(.*))?$/;
+
+/**
+ * Convert HTML to text with one line per block element. Plain text passes through.
+ */
+export function toPlainText(source: string): string {
+  if (!/<(html|body|p|div)\b/i.test(source)) {
+    return source.replace(/\r\n?/g, '\n');
+  }
+  return source
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/(p|div|h[1-6]|li|tr|br)\s*>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;|&#xa0;|&#160;/gi, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;|&lsquo;/g, '\'')
+    .replace(/&mdash;/g, '—')
+    .replace(/&ndash;/g, '–');
+}
+
+/**
+ * Work type from the file name ("em", "es", "second-reading") or, failing that, the text.
+ */
+export function detectWorkType(fileName: string, text: string): PreparatoryWorkType {
+  const name = fileName.toLowerCase();
+  if (/second[-_ ]?reading|\bsrs\b/.test(name)) return 'second_reading_speech';
+  if (/(^|[-_ ])es([-_ .]|$)|explanatory[-_ ]statement/.test(name)) return 'explanatory_statement';
+  if (/(^|[-_ ])em([-_ .]|$)|explanatory[-_ ]memorand/.test(name)) return 'explanatory_memorandum';
+
+  const head = text.slice(0, 3000).toLowerCase();
+  if (head.includes('second reading')) return 'second_reading_speech';
+  if (head.includes('explanatory statement')) return 'explanatory_statement';
+  return 'explanatory_memorandum';
+}
+
+function parseLongDate(text: string): string | null {
+  const match = text.match(/\b(\d{1,2})\s+(January|February|March|April|May|June|July|August|September|October|November|December)\s+(\d{4})\b/i);
+  if (!match) return null;
+  return `${match[3]}-${MONTHS[match[2].toLowerCase()]}-${match[1].padStart(2, '0')}`;
+}
+
+/**
+ * Section a note explains. Clause N of a Bill becomes section N of the Act;
+ * item notes name the section they amend in the heading.
+ */
+function provisionRefForNote(kind: string, number: string, heading: string): string | null {
+  if (/^(clause|section)/i.test(kind)) return `s${number}`;
+  const named = heading.match(/\b(?:sections?|subsections?|paragraphs?|subparagraphs?)\s+(\d+[A-Z]*)/i);
+  return named ? `s${named[1]}` : null;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim();
+}
+
+/**
+ * Split preparatory material into general and clause-by-clause segments.
+ */
+export function parsePreparatoryWork(
+  source: string,
+  documentId: string,
+  sourceFile: string,
+  url?: string,
+): ParsedPreparatoryWork {
+  const text = toPlainText(source);
+  const lines = text.split('\n').map(l => l.replace(/\s+/g, ' ').trim()).filter(l => l.length > 0);
+  const workType = detectWorkType(sourceFile, text);
+
+  const title = lines.find(l => /explanatory|second reading|bill|regulations?|rules?/i.test(l) && l.length < 200)
+    ?? lines[0]
+    ?? sourceFile;
+
+  const segments: ParsedSegment[] = [];
+  let current: ParsedSegment = { clause_ref: null, provision_ref: null, heading: null, content: '' };
+
+  // Clause notes only start after the "Notes on clauses" heading where there is one,
+  // so that "Clause 3" mentioned in the outline is not taken for a note.
+  const notesStart = lines.findIndex(l => /^notes? on (clauses|items|sections|the (bill|regulations?|instrument))/i.test(l));
+  const secondReading = workType === 'second_reading_speech';
+
+  lines.forEach((line, index) => {
+    const heading = !secondReading && index > notesStart && line.length < 200 ? line.match(NOTE_HEADING) : null;
+    if (heading) {
+      if (current.content.trim().length > 0) segments.push(current);
+      const kind = heading[1];
+      const number = heading[2];
+      current = {
+        clause_ref: `${kind.replace(/s$/, '')} ${number}`,
+        provision_ref: provisionRefForNote(kind, number, heading[3] ?? ''),
+        heading: line,
+        content: '',
+      };
+      return;
+    }
+    current.content += `${line}\n`;
+  });
+  if (current.content.trim().length > 0) segments.push(current);
+
+  return {
+    document_id: documentId,
+    work_type: workType,
+    title,
+    date: parseLongDate(text.slice(0, 5000)),
+    url,
+    source_file: sourceFile,
+    segments: segments.map(s => ({ ...s, content: normalizeWhitespace(s.content) })),
+  };
+}
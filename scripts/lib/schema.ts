@@ -0,0 +1,507 @@
+/**
+ * Database schema for Australian Law MCP, shared by build-db.ts and the
+ * in-memory test fixtures so that both create the same tables, indexes and
+ * triggers.
+ */
+
+export const SCHEMA = `
+-- Legal documents (statutes and legislative instruments)
+CREATE TABLE legal_documents (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK(type IN ('statute', 'legislative_instrument', 'bill', 'case_law')),
+  title TEXT NOT NULL,
+  title_en TEXT,
+  short_name TEXT,
+  status TEXT NOT NULL DEFAULT 'in_force'
+    CHECK(status IN ('in_force', 'amended', 'repealed', 'not_yet_in_force')),
+  issued_date TEXT,
+  in_force_date TEXT,
+  url TEXT,
+  description TEXT,
+  enabling_document_id TEXT REFERENCES legal_documents(id),
+  last_updated TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_documents_enabling ON legal_documents(enabling_document_id);
+
+-- Individual provisions from statutes
+CREATE TABLE legal_provisions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  chapter TEXT,
+  heading_ref TEXT,
+  section TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  metadata TEXT,
+  layout TEXT,  -- JSON blocks (indented text, notes, tables) for formatted rendering
+  valid_from TEXT,
+  UNIQUE(document_id, provision_ref)
+);
+
+CREATE INDEX idx_provisions_doc ON legal_provisions(document_id);
+CREATE INDEX idx_provisions_chapter ON legal_provisions(document_id, chapter);
+CREATE INDEX idx_provisions_heading ON legal_provisions(document_id, heading_ref);
+
+-- Schedule/Chapter/Part/Division/Subdivision headings, in document order.
+-- heading_ref is the path of enclosing headings (pt3/div2); provisions
+-- point at their innermost heading through legal_provisions.heading_ref.
+CREATE TABLE document_headings (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  heading_ref TEXT NOT NULL,
+  parent_ref TEXT,
+  level TEXT NOT NULL CHECK(level IN ('schedule', 'chapter', 'part', 'division', 'subdivision')),
+  number TEXT,
+  title TEXT NOT NULL,
+  UNIQUE(document_id, heading_ref)
+);
+
+-- Provision text with the title of its Act, as indexed for search
+CREATE VIEW provisions_search AS
+  SELECT lp.id, lp.content, lp.title, ld.title AS act_title
+  FROM legal_provisions lp
+  JOIN legal_documents ld ON ld.id = lp.document_id;
+
+-- FTS5 for provision search. Columns are ranked with bm25 weights
+-- (content, title, act_title) and can be searched on their own.
+CREATE VIRTUAL TABLE provisions_fts USING fts5(
+  content, title, act_title,
+  content='provisions_search',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER provisions_ai AFTER INSERT ON legal_provisions BEGIN
+  INSERT INTO provisions_fts(rowid, content, title, act_title)
+  VALUES (new.id, new.content, new.title, (SELECT title FROM legal_documents WHERE id = new.document_id));
+END;
+
+CREATE TRIGGER provisions_ad AFTER DELETE ON legal_provisions BEGIN
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, act_title)
+  VALUES ('delete', old.id, old.content, old.title, (SELECT title FROM legal_documents WHERE id = old.document_id));
+END;
+
+CREATE TRIGGER provisions_au AFTER UPDATE ON legal_provisions BEGIN
+  INSERT INTO provisions_fts(provisions_fts, rowid, content, title, act_title)
+  VALUES ('delete', old.id, old.content, old.title, (SELECT title FROM legal_documents WHERE id = old.document_id));
+  INSERT INTO provisions_fts(rowid, content, title, act_title)
+  VALUES (new.id, new.content, new.title, (SELECT title FROM legal_documents WHERE id = new.document_id));
+END;
+
+-- Porter-stemmed index of the same text, for the fallback search tiers:
+-- "penalties" finds "penalty" without "penal*" also finding "penalised"
+CREATE VIRTUAL TABLE provisions_stem_fts USING fts5(
+  content, title, act_title,
+  content='provisions_search',
+  content_rowid='id',
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER provisions_stem_ai AFTER INSERT ON legal_provisions BEGIN
+  INSERT INTO provisions_stem_fts(rowid, content, title, act_title)
+  VALUES (new.id, new.content, new.title, (SELECT title FROM legal_documents WHERE id = new.document_id));
+END;
+
+CREATE TRIGGER provisions_stem_ad AFTER DELETE ON legal_provisions BEGIN
+  INSERT INTO provisions_stem_fts(provisions_stem_fts, rowid, content, title, act_title)
+  VALUES ('delete', old.id, old.content, old.title, (SELECT title FROM legal_documents WHERE id = old.document_id));
+END;
+
+CREATE TRIGGER provisions_stem_au AFTER UPDATE ON legal_provisions BEGIN
+  INSERT INTO provisions_stem_fts(provisions_stem_fts, rowid, content, title, act_title)
+  VALUES ('delete', old.id, old.content, old.title, (SELECT title FROM legal_documents WHERE id = old.document_id));
+  INSERT INTO provisions_stem_fts(rowid, content, title, act_title)
+  VALUES (new.id, new.content, new.title, (SELECT title FROM legal_documents WHERE id = new.document_id));
+END;
+
+-- Subsections, paragraphs and subparagraphs of current provisions, for
+-- pinpoint retrieval (s26WE(2)(b)). content includes nested units;
+-- lead_in is the unit's own text, used for the parent chain.
+CREATE TABLE provision_units (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  unit_ref TEXT NOT NULL,
+  parent_ref TEXT NOT NULL,
+  level TEXT NOT NULL CHECK(level IN ('subsection', 'paragraph', 'subparagraph')),
+  label TEXT NOT NULL,
+  lead_in TEXT NOT NULL,
+  content TEXT NOT NULL,
+  UNIQUE(document_id, unit_ref)
+);
+
+CREATE INDEX idx_units_provision ON provision_units(document_id, provision_ref);
+
+-- Penalties stated in provisions. Amounts are in penalty units; dollar
+-- values depend on the date (Crimes Act 1914 s 4AA) and are worked out at query time.
+CREATE TABLE penalties (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  unit_ref TEXT,
+  penalty_type TEXT NOT NULL CHECK(penalty_type IN ('offence', 'civil_penalty')),
+  penalty_units REAL,
+  imprisonment_months INTEGER,
+  body_corporate_penalty_units REAL,
+  body_corporate_multiplier REAL,
+  text TEXT NOT NULL
+);
+
+CREATE INDEX idx_penalties_provision ON penalties(document_id, provision_ref);
+
+-- Notes, Examples and editorial notes in provisions. They are not operative
+-- text, so they are kept out of legal_provisions.content and its index.
+CREATE TABLE provision_notes (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  unit_ref TEXT,
+  kind TEXT NOT NULL CHECK(kind IN ('note', 'example', 'editorial')),
+  text TEXT NOT NULL
+);
+
+CREATE INDEX idx_provision_notes_provision ON provision_notes(document_id, provision_ref);
+
+CREATE VIRTUAL TABLE provision_notes_fts USING fts5(
+  text,
+  content='provision_notes',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER provision_notes_ai AFTER INSERT ON provision_notes BEGIN
+  INSERT INTO provision_notes_fts(rowid, text) VALUES (new.id, new.text);
+END;
+
+CREATE TRIGGER provision_notes_ad AFTER DELETE ON provision_notes BEGIN
+  INSERT INTO provision_notes_fts(provision_notes_fts, rowid, text) VALUES ('delete', old.id, old.text);
+END;
+
+-- Amendment history endnote of each compilation: one row per provision and
+-- amending Act (ad = added, am = amended, rs = repealed and substituted,
+-- rep = repealed). provision_ref is null for Parts, Divisions and Schedules;
+-- it may name a provision that has since been repealed. assent_date is the
+-- registration date for amending instruments.
+CREATE TABLE amendment_events (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  provision_label TEXT NOT NULL,
+  action TEXT NOT NULL CHECK(action IN ('ad', 'am', 'rs', 'rep', 'renum', 'exp')),
+  amending_act TEXT NOT NULL,
+  amending_title TEXT,
+  assent_date TEXT,
+  commencement_date TEXT
+);
+
+CREATE INDEX idx_amendment_events_provision ON amendment_events(document_id, provision_ref);
+
+-- Currency of each current provision, from its heading and the amendment
+-- history. effective_date is when the status took effect (the latest
+-- amendment in force, or the repeal); pending_* is the first amendment
+-- that had not commenced by the date of the compilation.
+CREATE TABLE provision_currency (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  status TEXT NOT NULL CHECK(status IN ('in_force', 'repealed', 'not_yet_in_force')),
+  effective_date TEXT,
+  pending_action TEXT,
+  pending_date TEXT,
+  pending_act TEXT,
+  UNIQUE(document_id, provision_ref)
+);
+
+-- Commencement table in section 2 of an Act: one row per item, as enacted.
+-- commencement_date is null where the table gives no single date
+-- ("A single day to be fixed by Proclamation" with no date recorded).
+CREATE TABLE commencement_items (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  item TEXT NOT NULL,
+  provisions TEXT NOT NULL,
+  commencement TEXT NOT NULL,
+  commencement_date TEXT,
+  details TEXT,
+  UNIQUE(document_id, item)
+);
+
+-- The commencement item covering each current provision, where the
+-- table names it, its Schedule, or covers "anything in this Act not
+-- elsewhere covered by this table"
+CREATE TABLE commencement_provisions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  item TEXT NOT NULL,
+  UNIQUE(document_id, provision_ref)
+);
+
+-- Compilations (point-in-time versions) of each document
+CREATE TABLE document_versions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  compilation_number TEXT,
+  register_id TEXT,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  UNIQUE(document_id, start_date)
+);
+
+-- Superseded provision text. Each row is one text that applied from valid_from
+-- until valid_to (exclusive); the current text lives in legal_provisions.
+CREATE TABLE provision_versions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT NOT NULL,
+  chapter TEXT,
+  section TEXT NOT NULL,
+  title TEXT,
+  content TEXT NOT NULL,
+  valid_from TEXT NOT NULL,
+  valid_to TEXT NOT NULL
+);
+
+CREATE INDEX idx_provision_versions_ref ON provision_versions(document_id, provision_ref, valid_from);
+
+CREATE VIRTUAL TABLE provision_versions_fts USING fts5(
+  content, title,
+  content='provision_versions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER provision_versions_ai AFTER INSERT ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+CREATE TRIGGER provision_versions_ad AFTER DELETE ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+END;
+
+CREATE TRIGGER provision_versions_au AFTER UPDATE ON provision_versions BEGIN
+  INSERT INTO provision_versions_fts(provision_versions_fts, rowid, content, title)
+  VALUES ('delete', old.id, old.content, old.title);
+  INSERT INTO provision_versions_fts(rowid, content, title)
+  VALUES (new.id, new.content, new.title);
+END;
+
+-- Cross-references between provisions/documents
+CREATE TABLE cross_references (
+  id INTEGER PRIMARY KEY,
+  source_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  source_provision_ref TEXT,
+  target_document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  target_provision_ref TEXT,
+  target_heading_ref TEXT,  -- Set instead of target_provision_ref for a cited Part ("ptiiic")
+  ref_type TEXT NOT NULL DEFAULT 'references'
+    CHECK(ref_type IN ('references', 'amended_by', 'implements', 'see_also')),
+  reference_text TEXT
+);
+
+CREATE INDEX idx_xref_source ON cross_references(source_document_id, source_provision_ref);
+CREATE INDEX idx_xref_target ON cross_references(target_document_id, target_provision_ref);
+CREATE INDEX idx_xref_target_heading ON cross_references(target_document_id, target_heading_ref);
+
+-- Legal term definitions
+CREATE TABLE definitions (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  term TEXT NOT NULL,
+  term_en TEXT,
+  definition TEXT NOT NULL,
+  source_provision TEXT,
+  UNIQUE(document_id, term)
+);
+
+-- FTS5 for definition search
+CREATE VIRTUAL TABLE definitions_fts USING fts5(
+  term, definition,
+  content='definitions',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER definitions_ai AFTER INSERT ON definitions BEGIN
+  INSERT INTO definitions_fts(rowid, term, definition)
+  VALUES (new.id, new.term, new.definition);
+END;
+
+CREATE TRIGGER definitions_ad AFTER DELETE ON definitions BEGIN
+  INSERT INTO definitions_fts(definitions_fts, rowid, term, definition)
+  VALUES ('delete', old.id, old.term, old.definition);
+END;
+
+CREATE TRIGGER definitions_au AFTER UPDATE ON definitions BEGIN
+  INSERT INTO definitions_fts(definitions_fts, rowid, term, definition)
+  VALUES ('delete', old.id, old.term, old.definition);
+  INSERT INTO definitions_fts(rowid, term, definition)
+  VALUES (new.id, new.term, new.definition);
+END;
+
+-- EU Documents (directives and regulations)
+CREATE TABLE eu_documents (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('directive', 'regulation')),
+  year INTEGER NOT NULL CHECK (year >= 1957 AND year <= 2100),
+  number INTEGER NOT NULL CHECK (number > 0),
+  community TEXT CHECK (community IN ('EU', 'EC', 'EEC', 'Euratom')),
+  celex_number TEXT,
+  title TEXT,
+  title_en TEXT,
+  short_name TEXT,
+  adoption_date TEXT,
+  entry_into_force_date TEXT,
+  in_force BOOLEAN DEFAULT 1,
+  amended_by TEXT,
+  repeals TEXT,
+  url_eur_lex TEXT,
+  description TEXT,
+  last_updated TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_eu_documents_type_year ON eu_documents(type, year DESC);
+
+-- EU References (links national provisions to EU documents)
+CREATE TABLE eu_references (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_type TEXT NOT NULL CHECK (source_type IN ('provision', 'document', 'case_law')),
+  source_id TEXT NOT NULL,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_id INTEGER REFERENCES legal_provisions(id),
+  eu_document_id TEXT NOT NULL REFERENCES eu_documents(id),
+  eu_article TEXT,
+  reference_type TEXT NOT NULL CHECK (reference_type IN (
+    'implements', 'supplements', 'applies', 'references', 'complies_with',
+    'derogates_from', 'amended_by', 'repealed_by', 'cites_article'
+  )),
+  reference_context TEXT,
+  full_citation TEXT,
+  is_primary_implementation BOOLEAN DEFAULT 0,
+  implementation_status TEXT CHECK (implementation_status IN ('complete', 'partial', 'pending', 'unknown')),
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  last_verified TEXT,
+  UNIQUE(source_id, eu_document_id, eu_article)
+);
+
+CREATE INDEX idx_eu_references_document ON eu_references(document_id, eu_document_id);
+CREATE INDEX idx_eu_references_eu_document ON eu_references(eu_document_id, document_id);
+CREATE INDEX idx_eu_references_provision ON eu_references(provision_id, eu_document_id);
+
+-- Search thesaurus (data/thesaurus.json): one row per term and expansion
+CREATE TABLE search_thesaurus (
+  id INTEGER PRIMARY KEY,
+  term TEXT NOT NULL,
+  expansion TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK(kind IN ('acronym', 'spelling', 'synonym')),
+  UNIQUE(term, expansion)
+);
+
+-- Build metadata
+CREATE TABLE db_metadata (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+// Case law tables are only created when judgment seeds exist, so the
+// case_law capability (and its tools) is absent from statute-only builds.
+export const CASE_LAW_SCHEMA = `
+-- Judgments, identified by medium-neutral citation
+CREATE TABLE case_law (
+  id TEXT PRIMARY KEY,
+  citation TEXT NOT NULL UNIQUE,
+  case_name TEXT NOT NULL,
+  court TEXT NOT NULL,
+  court_code TEXT,
+  decision_date TEXT,
+  catchwords TEXT,
+  url TEXT,
+  last_updated TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX idx_case_law_court ON case_law(court_code, decision_date);
+
+-- Numbered paragraphs of each judgment
+CREATE TABLE case_law_paragraphs (
+  id INTEGER PRIMARY KEY,
+  case_id TEXT NOT NULL REFERENCES case_law(id),
+  paragraph_number INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  UNIQUE(case_id, paragraph_number)
+);
+
+-- FTS5 over case names and catchwords. Keyed by case_id rather than an
+-- external content rowid: case_law has a TEXT key, and VACUUM may renumber
+-- its implicit rowids.
+CREATE VIRTUAL TABLE case_law_fts USING fts5(
+  case_id UNINDEXED, case_name, catchwords,
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER case_law_ai AFTER INSERT ON case_law BEGIN
+  INSERT INTO case_law_fts(case_id, case_name, catchwords)
+  VALUES (new.id, new.case_name, new.catchwords);
+END;
+
+CREATE TRIGGER case_law_ad AFTER DELETE ON case_law BEGIN
+  DELETE FROM case_law_fts WHERE case_id = old.id;
+END;
+
+-- FTS5 over judgment paragraphs
+CREATE VIRTUAL TABLE case_law_paragraphs_fts USING fts5(
+  text,
+  content='case_law_paragraphs',
+  content_rowid='id',
+  tokenize='unicode61'
+);
+
+CREATE TRIGGER case_law_paragraphs_ai AFTER INSERT ON case_law_paragraphs BEGIN
+  INSERT INTO case_law_paragraphs_fts(rowid, text) VALUES (new.id, new.text);
+END;
+
+CREATE TRIGGER case_law_paragraphs_ad AFTER DELETE ON case_law_paragraphs BEGIN
+  INSERT INTO case_law_paragraphs_fts(case_law_paragraphs_fts, rowid, text)
+  VALUES ('delete', old.id, old.text);
+END;
+
+-- Statutory provisions cited in judgments
+CREATE TABLE case_law_citations (
+  id INTEGER PRIMARY KEY,
+  case_id TEXT NOT NULL REFERENCES case_law(id),
+  paragraph_number INTEGER,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  provision_ref TEXT,
+  citation_text TEXT
+);
+
+CREATE INDEX idx_case_citations_target ON case_law_citations(document_id, provision_ref);
+CREATE INDEX idx_case_citations_case ON case_law_citations(case_id);
+`;
+
+// Like case law, preparatory works are optional and only get a table when seeds exist.
+export const PREPARATORY_WORKS_SCHEMA = `
+-- Explanatory memoranda, explanatory statements and second reading speeches.
+-- Each row is one segment: the general part of a work, or one clause/item note.
+CREATE TABLE preparatory_works (
+  id INTEGER PRIMARY KEY,
+  document_id TEXT NOT NULL REFERENCES legal_documents(id),
+  work_type TEXT NOT NULL
+    CHECK(work_type IN ('explanatory_memorandum', 'explanatory_statement', 'second_reading_speech')),
+  title TEXT NOT NULL,
+  date TEXT,
+  url TEXT,
+  source_file TEXT,
+  position INTEGER NOT NULL,
+  clause_ref TEXT,
+  provision_ref TEXT,
+  heading TEXT,
+  content TEXT NOT NULL
+);
+
+CREATE INDEX idx_preparatory_works_provision ON preparatory_works(document_id, provision_ref);
+`;
@@ -7,17 +7,53 @@ import type Database from '@ansvar/mcp-sqlite';
 
 export type Capability =
   | 'core_legislation'
+  | 'subordinate_instruments'
+  | 'stemmed_search'
+  | 'act_title_search'
+  | 'provision_units'
+  | 'document_outline'
+  | 'penalties'
+  | 'provision_notes'
+  | 'amendment_history'
+  | 'commencement'
+  | 'cross_references'
+  | 'heading_cross_references'
   | 'eu_references'
+  | 'historical_versions'
   | 'case_law'
   | 'preparatory_works';
 
 const TABLE_MAP: Record<Capability, string[]> = {
   core_legislation: ['legal_documents', 'legal_provisions', 'provisions_fts'],
+  subordinate_instruments: ['legal_documents'],
+  stemmed_search: ['provisions_stem_fts'],
+  act_title_search: ['provisions_fts'],
+  provision_units: ['provision_units'],
+  document_outline: ['document_headings'],
+  penalties: ['penalties'],
+  provision_notes: ['provision_notes', 'provision_notes_fts'],
+  amendment_history: ['amendment_events'],
+  commencement: ['commencement_items', 'commencement_provisions'],
+  cross_references: ['cross_references'],
+  heading_cross_references: ['cross_references', 'document_headings'],
   eu_references: ['eu_documents', 'eu_references'],
-  case_law: ['case_law'],
+  historical_versions: ['document_versions', 'provision_versions', 'provision_versions_fts'],
+  case_law: ['case_law', 'case_law_paragraphs', 'case_law_fts', 'case_law_citations'],
   preparatory_works: ['preparatory_works'],
 };
 
+/**
+ * Columns a capability needs in tables that databases of an older schema
+ * version also have (legal_documents gained enabling_document_id with the
+ * ingestion of legislative instruments, provisions_fts act_title in schema
+ * version 3, cross_references target_heading_ref in schema version 4).
+ */
+const COLUMN_MAP: Partial<Record<Capability, Array<[table: string, column: string]>>> = {
+  subordinate_instruments: [['legal_documents', 'enabling_document_id']],
+  act_title_search: [['provisions_fts', 'act_title']],
+  heading_cross_references: [['cross_references', 'target_heading_ref']],
+};
+
 export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capability> {
   const caps = new Set<Capability>();
   const tables = new Set(
@@ -26,7 +62,8 @@ export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capab
   );
 
   for (const [cap, required] of Object.entries(TABLE_MAP)) {
-    if (required.every(t => tables.has(t))) {
+    const columns = COLUMN_MAP[cap as Capability] ?? [];
+    if (required.every(t => tables.has(t)) && columns.every(([table, column]) => hasColumn(db, table, column))) {
       caps.add(cap as Capability);
     }
   }
@@ -34,6 +71,11 @@ export function detectCapabilities(db: InstanceType<typeof Database>): Set<Capab
   return caps;
 }
 
+function hasColumn(db: InstanceType<typeof Database>, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some(c => c.name === column);
+}
+
 export interface DbMetadata {
   tier: string;
   schema_version: string;
@@ -27,6 +27,7 @@ export function getAbout(db: InstanceType<typeof Database>, context: AboutContex
     documents: safeCount(db, 'SELECT COUNT(*) as count FROM legal_documents'),
     provisions: safeCount(db, 'SELECT COUNT(*) as count FROM legal_provisions'),
     definitions: safeCount(db, 'SELECT COUNT(*) as count FROM definitions'),
+    cross_references: safeCount(db, 'SELECT COUNT(*) as count FROM cross_references'),
   };
 
   if (euRefs > 0) {
@@ -34,6 +35,42 @@ export function getAbout(db: InstanceType<typeof Database>, context: AboutContex
     stats.eu_references = euRefs;
   }
 
+  const cases = safeCount(db, 'SELECT COUNT(*) as count FROM case_law');
+  if (cases > 0) {
+    stats.case_law = cases;
+    stats.case_law_citations = safeCount(db, 'SELECT COUNT(*) as count FROM case_law_citations');
+  }
+
+  const preparatoryWorks = safeCount(db, 'SELECT COUNT(*) as count FROM preparatory_works');
+  if (preparatoryWorks > 0) {
+    stats.preparatory_works_segments = preparatoryWorks;
+  }
+
+  const penalties = safeCount(db, 'SELECT COUNT(*) as count FROM penalties');
+  if (penalties > 0) {
+    stats.penalties = penalties;
+  }
+
+  const notes = safeCount(db, 'SELECT COUNT(*) as count FROM provision_notes');
+  if (notes > 0) {
+    stats.provision_notes = notes;
+  }
+
+  const amendmentEvents = safeCount(db, 'SELECT COUNT(*) as count FROM amendment_events');
+  if (amendmentEvents > 0) {
+    stats.amendment_events = amendmentEvents;
+  }
+
+  const commencementItems = safeCount(db, 'SELECT COUNT(*) as count FROM commencement_items');
+  if (commencementItems > 0) {
+    stats.commencement_items = commencementItems;
+  }
+
+  const thesaurusTerms = safeCount(db, 'SELECT COUNT(DISTINCT term) as count FROM search_thesaurus');
+  if (thesaurusTerms > 0) {
+    stats.thesaurus_terms = thesaurusTerms;
+  }
+
   return {
     name: 'Australian Law MCP',
     version: context.version,
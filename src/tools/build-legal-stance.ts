@@ -3,9 +3,18 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import {
+  buildFtsQueryVariants,
+  buildLikePattern,
+  PROVISION_FTS_TABLES,
+  provisionBm25,
+  sanitizeFtsInput,
+} from '../utils/fts-query.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { findQueryExpansions } from '../utils/thesaurus.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { penaltyAmounts, penaltyUnitValueAsOf } from '../utils/penalty-units.js';
+import { detectCapabilities } from '../capabilities.js';
 
 export interface BuildLegalStanceInput {
   query: string;
@@ -21,6 +30,16 @@ export interface LegalStanceResult {
   title: string | null;
   snippet: string;
   relevance: number;
+  penalties?: LegalStancePenalty[];
+}
+
+export interface LegalStancePenalty {
+  unit_ref: string | null;
+  penalty_type: string;
+  penalty_units: number | null;
+  imprisonment_months: number | null;
+  max_amount_individual: number | null;
+  max_amount_body_corporate: number | null;
 }
 
 export async function buildLegalStance(
@@ -33,7 +52,12 @@ export async function buildLegalStance(
 
   const limit = Math.min(Math.max(input.limit ?? 5, 1), 20);
   const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+  const sanitized = sanitizeFtsInput(input.query);
+  const expansions = findQueryExpansions(db, sanitized);
+  const queryVariants = buildFtsQueryVariants(sanitized, {
+    stemmedIndex: detectCapabilities(db).has('stemmed_search'),
+    expansions,
+  });
 
   // Resolve document_id from title if provided
   let resolvedDocId: string | undefined;
@@ -52,7 +76,8 @@ export async function buildLegalStance(
   }
 
   let queryStrategy = 'none';
-  for (const ftsQuery of queryVariants) {
+  for (const variant of queryVariants) {
+    const ftsTable = PROVISION_FTS_TABLES[variant.index];
     let sql = `
       SELECT
         lp.document_id,
@@ -60,14 +85,14 @@ export async function buildLegalStance(
         lp.provision_ref,
         lp.section,
         lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 48) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        snippet(${ftsTable}, 0, '>>>', '<<<', '...', 48) as snippet,
+        ${provisionBm25(ftsTable)} as relevance
+      FROM ${ftsTable}
+      JOIN legal_provisions lp ON lp.id = ${ftsTable}.rowid
       JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
+      WHERE ${ftsTable} MATCH ?
     `;
-    const params: (string | number)[] = [ftsQuery];
+    const params: (string | number)[] = [variant.query];
 
     if (resolvedDocId) {
       sql += ' AND lp.document_id = ?';
@@ -80,13 +105,15 @@ export async function buildLegalStance(
     try {
       const rows = db.prepare(sql).all(...params) as LegalStanceResult[];
       if (rows.length > 0) {
-        queryStrategy = ftsQuery === queryVariants[0] ? 'exact' : 'fallback';
+        queryStrategy = variant === queryVariants[0] ? 'exact' : 'fallback';
         const deduped = deduplicateResults(rows, limit);
         return {
-          results: deduped,
+          results: attachPenalties(db, deduped),
           _metadata: {
             ...generateResponseMetadata(db),
+            fts_index: ftsTable,
             ...(queryStrategy === 'fallback' ? { query_strategy: 'broadened' } : {}),
+            ...(variant.expanded ? { expanded_terms: expansions } : {}),
           },
         };
       }
@@ -125,7 +152,7 @@ export async function buildLegalStance(
       const rows = db.prepare(likeSql).all(...likeParams) as LegalStanceResult[];
       if (rows.length > 0) {
         return {
-          results: deduplicateResults(rows, limit),
+          results: attachPenalties(db, deduplicateResults(rows, limit)),
           _metadata: {
             ...generateResponseMetadata(db),
             query_strategy: 'like_fallback',
@@ -159,3 +186,43 @@ function deduplicateResults(
   }
   return deduped;
 }
+
+/**
+ * Add the penalties stated in each matched provision, in today's dollars,
+ * so that questions about consequences are answered alongside the rules.
+ */
+function attachPenalties(
+  db: InstanceType<typeof Database>,
+  rows: LegalStanceResult[],
+): LegalStanceResult[] {
+  if (!detectCapabilities(db).has('penalties')) return rows;
+
+  const unitValue = penaltyUnitValueAsOf(new Date().toISOString().slice(0, 10));
+  const stmt = db.prepare(`
+    SELECT unit_ref, penalty_type, penalty_units, imprisonment_months,
+           body_corporate_penalty_units, body_corporate_multiplier
+    FROM penalties WHERE document_id = ? AND provision_ref = ? ORDER BY id
+  `);
+
+  return rows.map(row => {
+    const penalties = stmt.all(row.document_id, row.provision_ref) as Array<{
+      unit_ref: string | null;
+      penalty_type: string;
+      penalty_units: number | null;
+      imprisonment_months: number | null;
+      body_corporate_penalty_units: number | null;
+      body_corporate_multiplier: number | null;
+    }>;
+    if (penalties.length === 0) return row;
+    return {
+      ...row,
+      penalties: penalties.map(p => ({
+        unit_ref: p.unit_ref,
+        penalty_type: p.penalty_type,
+        penalty_units: p.penalty_units,
+        imprisonment_months: p.imprisonment_months,
+        ...penaltyAmounts(p, unitValue),
+      })),
+    };
+  });
+}
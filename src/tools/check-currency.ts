@@ -1,10 +1,22 @@
 /**
- * check_currency — Check whether an Australian statute is currently in force.
+ * check_currency — Check whether an Australian statute, or one of its
+ * provisions, is currently in force.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { findProvisionRef, provisionRefCandidates } from '../utils/pinpoint.js';
+import { currencyWarnings, getProvisionCurrency, provisionLabel, type ProvisionCurrency } from '../utils/currency.js';
+import { getProvisionCommencement, type CommencementItem } from '../utils/commencement.js';
+import {
+  findCompilationAsOf,
+  getProvisionAsOf,
+  hasVersionHistory,
+  listCompilations,
+  type CompilationInfo,
+} from '../utils/versions.js';
 
 export interface CheckCurrencyInput {
   document_id: string;
@@ -18,6 +30,11 @@ export interface CheckCurrencyResult {
   status: string;
   issued_date: string | null;
   in_force_date: string | null;
+  as_of_date?: string;
+  compilation?: CompilationInfo | null;
+  provision_in_force?: boolean;
+  provision?: ProvisionCurrency;
+  commencement?: CommencementItem;
   warnings: string[];
 }
 
@@ -56,6 +73,98 @@ export async function checkCurrency(
   } else if (doc.status === 'not_yet_in_force') {
     warnings.push('This statute has not yet entered into force.');
   }
+  if (!doc.in_force_date) {
+    warnings.push('The in-force date of this statute is not recorded; see get_commencement for its commencement table.');
+  }
+
+  if (!input.as_of_date) {
+    // The provision's own status: repealed, not yet commenced, or about to change
+    let provision: ProvisionCurrency | null = null;
+    let commencement: CommencementItem | null = null;
+    if (input.provision_ref) {
+      const provisionRef = findProvisionRef(db, doc.id, input.provision_ref);
+      if (provisionRef) {
+        ({ provision, commencement } = provisionStatus(db, doc.id, provisionRef, new Date().toISOString().slice(0, 10), warnings));
+      } else {
+        warnings.push(`Provision "${input.provision_ref}" not found in ${doc.title}.`);
+      }
+    }
+
+    return {
+      results: {
+        document_id: doc.id,
+        title: doc.title,
+        status: doc.status,
+        issued_date: doc.issued_date,
+        in_force_date: doc.in_force_date,
+        ...(provision ? { provision } : {}),
+        ...(commencement ? { commencement } : {}),
+        warnings,
+      },
+      _metadata: generateResponseMetadata(db),
+    };
+  }
+
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (!asOfDate) {
+    return {
+      results: {
+        document_id: doc.id,
+        title: doc.title,
+        status: doc.status,
+        issued_date: doc.issued_date,
+        in_force_date: doc.in_force_date,
+        warnings: [...warnings, `Invalid as_of_date "${input.as_of_date}". Use ISO 8601 format (YYYY-MM-DD).`],
+      },
+      _metadata: generateResponseMetadata(db),
+    };
+  }
+
+  // Point-in-time check: which compilation applied on the date, and whether
+  // the provision (if given) existed in it.
+  let compilation: CompilationInfo | null = null;
+  if (hasVersionHistory(db, doc.id)) {
+    compilation = findCompilationAsOf(db, doc.id, asOfDate);
+    if (!compilation) {
+      const earliest = listCompilations(db, doc.id)[0];
+      if (earliest && asOfDate < earliest.start_date) {
+        warnings.push(
+          `${asOfDate} is before the earliest compilation held (${earliest.start_date}); ` +
+          'the law as at that date cannot be confirmed from this database.'
+        );
+      } else {
+        warnings.push(`No compilation held covers ${asOfDate}.`);
+      }
+    }
+  } else {
+    warnings.push('No historical compilations are held for this statute; status reflects the current compilation only.');
+  }
+
+  if (doc.in_force_date && asOfDate < doc.in_force_date && !compilation) {
+    warnings.push(`The current compilation only took effect on ${doc.in_force_date}.`);
+  }
+
+  // The provision as at the date: it may have been removed from the Act
+  // since, or been repealed or not yet commenced on that date
+  let provisionInForce: boolean | undefined;
+  let provision: ProvisionCurrency | null = null;
+  let commencement: CommencementItem | null = null;
+  if (input.provision_ref) {
+    const provisionRef = findProvisionRef(db, doc.id, input.provision_ref)
+      ?? provisionRefCandidates(input.provision_ref).find(r => getProvisionAsOf(db, doc.id, r, asOfDate) !== null)
+      ?? null;
+    if (provisionRef) {
+      ({ provision, commencement } = provisionStatus(db, doc.id, provisionRef, asOfDate, warnings));
+    }
+    provisionInForce = provisionRef !== null
+      && getProvisionAsOf(db, doc.id, provisionRef, asOfDate) !== null
+      && !(provision?.status === 'repealed' && provision.effective_date !== null && provision.effective_date <= asOfDate)
+      && !(provision?.status === 'not_yet_in_force' && (!provision.effective_date || provision.effective_date > asOfDate))
+      && !(commencement?.commencement_date && commencement.commencement_date > asOfDate);
+    if (!provisionInForce) {
+      warnings.push(`Provision "${input.provision_ref.trim()}" was not in force in ${doc.title} on ${asOfDate}.`);
+    }
+  }
 
   return {
     results: {
@@ -64,8 +173,41 @@ export async function checkCurrency(
       status: doc.status,
       issued_date: doc.issued_date,
       in_force_date: doc.in_force_date,
+      as_of_date: asOfDate,
+      compilation,
+      ...(provisionInForce !== undefined ? { provision_in_force: provisionInForce } : {}),
+      ...(provision ? { provision } : {}),
+      ...(commencement ? { commencement } : {}),
       warnings,
     },
-    _metadata: generateResponseMetadata(db),
+    _metadata: { ...generateResponseMetadata(db), as_of_date: asOfDate },
   };
 }
+
+/**
+ * Currency and commencement of a provision, as at a date (today, or the
+ * as_of date of a point-in-time check); warnings are added to the list.
+ */
+function provisionStatus(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  date: string,
+  warnings: string[],
+): { provision: ProvisionCurrency | null; commencement: CommencementItem | null } {
+  const label = provisionLabel(provisionRef);
+  const provision = getProvisionCurrency(db, documentId, provisionRef);
+  if (!provision) {
+    warnings.push(`The status of ${provisionRef} is not recorded in this database; status reflects the statute as a whole.`);
+  }
+  warnings.push(...currencyWarnings(label, provision, date));
+
+  const commencement = getProvisionCommencement(db, documentId, provisionRef);
+  if (commencement?.commencement_date && commencement.commencement_date > date) {
+    warnings.push(`${label} commences on ${commencement.commencement_date}.`);
+  } else if (commencement && !commencement.commencement_date) {
+    warnings.push(`No commencement date is recorded for ${label}: ${commencement.commencement}`);
+  }
+
+  return { provision, commencement };
+}
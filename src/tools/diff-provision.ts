@@ -0,0 +1,270 @@
+/**
+ * diff_provision — Compare a provision (or a whole statute) between two compilations.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { cursorKey, decodeCursor, encodeCursor, INVALID_CURSOR_NOTE } from '../utils/cursor.js';
+import { findProvisionRef, provisionRefCandidates } from '../utils/pinpoint.js';
+import { diffWords, MAX_EDIT_DISTANCE, type DiffSegment } from '../utils/word-diff.js';
+import {
+  findCompilationAsOf,
+  getDocumentAsOf,
+  getProvisionAsOf,
+  hasVersionHistory,
+  listCompilations,
+  type VersionedProvision,
+} from '../utils/versions.js';
+
+export interface DiffProvisionInput {
+  document_id: string;
+  provision_ref?: string;
+  from_date?: string;
+  to_date?: string;
+  from_compilation?: string;
+  to_compilation?: string;
+  /** Act-level mode: changed sections per page */
+  page_size?: number;
+  cursor?: string;
+}
+
+export interface DiffEndpoint {
+  as_of_date: string;
+  compilation_number: string | null;
+}
+
+export interface ProvisionDiffResult {
+  mode: 'provision';
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  from: DiffEndpoint & { exists: boolean; valid_from: string | null };
+  to: DiffEndpoint & { exists: boolean; valid_from: string | null };
+  changed: boolean;
+  inserted_words: number;
+  deleted_words: number;
+  /** Set when the two texts differ too much for a word-level diff */
+  replaced?: true;
+  segments: DiffSegment[];
+}
+
+export interface ChangedSection {
+  provision_ref: string;
+  title: string | null;
+}
+
+export interface DocumentDiffResult {
+  mode: 'document';
+  document_id: string;
+  document_title: string;
+  from: DiffEndpoint;
+  to: DiffEndpoint;
+  added: ChangedSection[];
+  removed: ChangedSection[];
+  changed: Array<ChangedSection & { inserted_words: number; deleted_words: number; replaced?: true }>;
+  /** Sections added, removed or changed, on every page */
+  total_changes: number;
+  unchanged_count: number;
+}
+
+export type DiffProvisionResult = ProvisionDiffResult | DocumentDiffResult;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+/**
+ * Turn a date or compilation number into a concrete as-of date.
+ * Compilation numbers map to the start date of that compilation.
+ */
+function resolveEndpoint(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  date: string | undefined,
+  compilationNumber: string | undefined,
+  fallback: string,
+): DiffEndpoint | string {
+  if (compilationNumber) {
+    const compilation = listCompilations(db, documentId)
+      .find(c => c.compilation_number === String(compilationNumber).trim());
+    if (!compilation) return `Compilation ${compilationNumber} is not held for "${documentId}"`;
+    return { as_of_date: compilation.start_date, compilation_number: compilation.compilation_number };
+  }
+
+  const asOfDate = date ? normalizeAsOfDate(date) : fallback;
+  if (!asOfDate) return `Invalid date "${date}". Use ISO 8601 format (YYYY-MM-DD).`;
+  return {
+    as_of_date: asOfDate,
+    compilation_number: findCompilationAsOf(db, documentId, asOfDate)?.compilation_number ?? null,
+  };
+}
+
+export async function diffProvision(
+  db: InstanceType<typeof Database>,
+  input: DiffProvisionInput,
+): Promise<ToolResponse<DiffProvisionResult | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  if (!hasVersionHistory(db, resolvedId)) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No historical compilations are held for "${resolvedId}"; nothing to compare.`,
+      },
+    };
+  }
+
+  const docRow = db.prepare(
+    'SELECT id, title FROM legal_documents WHERE id = ?'
+  ).get(resolvedId) as { id: string; title: string };
+
+  // Defaults: from = the previous compilation, to = the current one
+  const compilations = listCompilations(db, resolvedId);
+  const latest = compilations[compilations.length - 1];
+  const previous = compilations[compilations.length - 2] ?? latest;
+
+  const from = resolveEndpoint(db, resolvedId, input.from_date, input.from_compilation, previous.start_date);
+  const to = resolveEndpoint(db, resolvedId, input.to_date, input.to_compilation, latest.start_date);
+  for (const endpoint of [from, to]) {
+    if (typeof endpoint === 'string') {
+      return { results: null, _metadata: { ...generateResponseMetadata(db), note: endpoint } };
+    }
+  }
+  const fromEndpoint = from as DiffEndpoint;
+  const toEndpoint = to as DiffEndpoint;
+
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+    // A section may have been inserted or removed between the two dates
+    const provisionRef = findProvisionRef(db, resolvedId, ref)
+      ?? provisionRefCandidates(ref).find(candidate =>
+        [fromEndpoint, toEndpoint].some(e => getProvisionAsOf(db, resolvedId, candidate, e.as_of_date) !== null))
+      ?? null;
+    const before = provisionRef ? getProvisionAsOf(db, resolvedId, provisionRef, fromEndpoint.as_of_date) : null;
+    const after = provisionRef ? getProvisionAsOf(db, resolvedId, provisionRef, toEndpoint.as_of_date) : null;
+    if (!before && !after) {
+      return {
+        results: null,
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `Provision "${ref}" not found in "${resolvedId}" at either date`,
+        },
+      };
+    }
+
+    const diff = diffWords(before?.content ?? '', after?.content ?? '');
+    return {
+      results: {
+        mode: 'provision',
+        document_id: resolvedId,
+        document_title: docRow.title,
+        provision_ref: (after ?? before)!.provision_ref,
+        from: { ...fromEndpoint, exists: before !== null, valid_from: before?.valid_from ?? null },
+        to: { ...toEndpoint, exists: after !== null, valid_from: after?.valid_from ?? null },
+        changed: diff.inserted_words > 0 || diff.deleted_words > 0,
+        inserted_words: diff.inserted_words,
+        deleted_words: diff.deleted_words,
+        ...(diff.replaced ? { replaced: true as const } : {}),
+        segments: diff.segments,
+      },
+      _metadata: {
+        ...generateResponseMetadata(db),
+        ...(diff.replaced
+          ? { note: `The text was substantially rewritten (over ${MAX_EDIT_DISTANCE} words changed); it is shown as deleted and inserted as a whole.` }
+          : {}),
+      },
+    };
+  }
+
+  // Act-level mode: list sections added, removed, or changed, page_size at a time
+  const key = cursorKey(db, 'diff_provision', {
+    document_id: resolvedId, from: fromEndpoint.as_of_date, to: toEndpoint.as_of_date,
+  });
+  const position = input.cursor ? decodeCursor(input.cursor, key) : { offset: 0 };
+  if (!position) {
+    return { results: null, _metadata: { ...generateResponseMetadata(db), note: INVALID_CURSOR_NOTE } };
+  }
+  const pageSize = Math.min(Math.max(Math.floor(input.page_size ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+  const beforeByRef = new Map(getDocumentAsOf(db, resolvedId, fromEndpoint.as_of_date).map(p => [p.provision_ref, p]));
+  const afterProvisions = getDocumentAsOf(db, resolvedId, toEndpoint.as_of_date);
+  const afterRefs = new Set(afterProvisions.map(p => p.provision_ref));
+
+  // Changes in document order, then sections removed. Texts that differ
+  // only in whitespace have no word-level change; only the page returned
+  // is diffed.
+  const changes: Array<{ before: VersionedProvision | null; after: VersionedProvision | null }> = [];
+  let unchangedCount = 0;
+  for (const after of afterProvisions) {
+    const before = beforeByRef.get(after.provision_ref) ?? null;
+    if (before && sameWords(before.content, after.content)) {
+      unchangedCount++;
+    } else {
+      changes.push({ before, after });
+    }
+  }
+  for (const [ref, before] of beforeByRef) {
+    if (!afterRefs.has(ref)) changes.push({ before, after: null });
+  }
+
+  const result: DocumentDiffResult = {
+    mode: 'document',
+    document_id: resolvedId,
+    document_title: docRow.title,
+    from: fromEndpoint,
+    to: toEndpoint,
+    added: [],
+    removed: [],
+    changed: [],
+    total_changes: changes.length,
+    unchanged_count: unchangedCount,
+  };
+
+  const end = Math.min(position.offset + pageSize, changes.length);
+  for (const { before, after } of changes.slice(position.offset, end)) {
+    if (!before) {
+      result.added.push({ provision_ref: after!.provision_ref, title: after!.title });
+    } else if (!after) {
+      result.removed.push({ provision_ref: before.provision_ref, title: before.title });
+    } else {
+      const diff = diffWords(before.content, after.content);
+      result.changed.push({
+        provision_ref: after.provision_ref,
+        title: after.title,
+        inserted_words: diff.inserted_words,
+        deleted_words: diff.deleted_words,
+        ...(diff.replaced ? { replaced: true as const } : {}),
+      });
+    }
+  }
+
+  if (position.offset === 0 && end === changes.length) {
+    return { results: result, _metadata: generateResponseMetadata(db) };
+  }
+  const note = position.offset < changes.length
+    ? (end === position.offset + 1 ? `Change ${end} of ${changes.length}.` : `Changes ${position.offset + 1}\u2013${end} of ${changes.length}.`)
+    : `No changes after the ${changes.length} already returned.`;
+  return {
+    results: result,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      note,
+      ...(end < changes.length ? { next_cursor: encodeCursor(key, { offset: end }) } : {}),
+    },
+  };
+}
+
+function sameWords(a: string, b: string): boolean {
+  return a === b || a.split(/\s+/).filter(Boolean).join(' ') === b.split(/\s+/).filter(Boolean).join(' ');
+}
@@ -4,6 +4,7 @@
 
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
 import type Database from '@ansvar/mcp-sqlite';
+import { SECTION_PINPOINT_PATTERN } from '../utils/pinpoint.js';
 
 export interface FormatCitationInput {
   citation: string;
@@ -23,9 +24,9 @@ export async function formatCitationTool(
   const trimmed = input.citation.trim();
 
   // Parse "Section N <Act>" or "Section N, <Act>"
-  const sectionFirst = trimmed.match(/^Section\s+(\d+[A-Za-z]*(?:\(\d+\))?)\s*[,;]?\s+(.+)$/i);
+  const sectionFirst = trimmed.match(new RegExp(String.raw`^Section\s+(${SECTION_PINPOINT_PATTERN})\s*[,;]?\s+(.+)$`, 'i'));
   // Parse "<Act> s N" or "<Act>, s N" or "<Act> Section N"
-  const sectionLast = trimmed.match(/^(.+?)\s*[,;]?\s+(?:s\.?\s+|Section\s+)(\d+[A-Za-z]*(?:\(\d+\))?)$/i);
+  const sectionLast = trimmed.match(new RegExp(String.raw`^(.+?)\s*[,;]?\s+(?:s\.?\s+|Section\s+)(${SECTION_PINPOINT_PATTERN})$`, 'i'));
 
   const section = sectionFirst?.[1] ?? sectionLast?.[2];
   const act = sectionFirst?.[2] ?? sectionLast?.[1] ?? trimmed;
@@ -0,0 +1,97 @@
+/**
+ * get_amendment_history — How a statute or one of its provisions has been
+ * amended, from the amendment history endnote of the current compilation.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { parsePinpoint } from '../utils/pinpoint.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetAmendmentHistoryInput {
+  document_id: string;
+  provision_ref?: string;
+  limit?: number;
+}
+
+export type AmendmentAction = 'ad' | 'am' | 'rs' | 'rep' | 'renum' | 'exp';
+
+export interface AmendmentEvent {
+  document_id: string;
+  provision_ref: string | null;
+  provision_label: string;
+  action: AmendmentAction;
+  action_description: string;
+  amending_act: string;
+  amending_title: string | null;
+  assent_date: string | null;
+  commencement_date: string | null;
+}
+
+// Abbreviations used in the endnotes ("Endnote 2—Abbreviation key")
+const ACTION_DESCRIPTIONS: Record<AmendmentAction, string> = {
+  ad: 'added or inserted',
+  am: 'amended',
+  rs: 'repealed and substituted',
+  rep: 'repealed',
+  renum: 'renumbered',
+  exp: 'expired',
+};
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export async function getAmendmentHistory(
+  db: InstanceType<typeof Database>,
+  input: GetAmendmentHistoryInput,
+): Promise<ToolResponse<AmendmentEvent[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  let sql = `
+    SELECT document_id, provision_ref, provision_label, action, amending_act,
+           amending_title, assent_date, commencement_date
+    FROM amendment_events
+    WHERE document_id = ?
+  `;
+  const params: (string | number)[] = [resolvedId];
+
+  if (input.provision_ref) {
+    // Sections by ref ("s 6", "6", "Sch 1 cl 3"); Parts and Divisions by label ("Part IIIC")
+    const parsed = parsePinpoint(input.provision_ref);
+    if (parsed) {
+      const refs = [parsed.sectionRef, `s${parsed.sectionRef}`, ...(parsed.alternatives ?? [])];
+      sql += ` AND provision_ref IN (${refs.map(() => '?').join(', ')})`;
+      params.push(...refs);
+    } else {
+      sql += ' AND provision_ref IS NULL AND lower(provision_label) = lower(?)';
+      params.push(input.provision_ref.trim());
+    }
+  }
+
+  sql += ' ORDER BY id LIMIT ?';
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as Omit<AmendmentEvent, 'action_description'>[];
+  const results = rows.map(row => ({ ...row, action_description: ACTION_DESCRIPTIONS[row.action] }));
+
+  const subject = input.provision_ref ? `"${input.provision_ref}" in "${resolvedId}"` : `"${resolvedId}"`;
+  return {
+    results,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(results.length === 0
+        ? { note: `No amendments are recorded for ${subject}. It may be unamended, or its compilation has no amendment history endnote.` }
+        : {}),
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * get_case — Retrieve a judgment by medium-neutral citation, with its paragraphs
+ * and the statutory provisions it cites.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveCaseId } from '../utils/case-id.js';
+import { generateCaseLawMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCaseInput {
+  case_id: string;
+  paragraph_from?: number;
+  paragraph_to?: number;
+  include_paragraphs?: boolean;
+}
+
+export interface CitedProvision {
+  document_id: string;
+  document_title: string;
+  provision_ref: string | null;
+  paragraphs: number[];
+}
+
+export interface CaseResult {
+  case_id: string;
+  citation: string;
+  case_name: string;
+  court: string;
+  court_code: string | null;
+  decision_date: string | null;
+  catchwords: string | null;
+  url: string | null;
+  paragraph_count: number;
+  paragraphs?: Array<{ paragraph_number: number; text: string }>;
+  cited_provisions: CitedProvision[];
+}
+
+export async function getCase(
+  db: InstanceType<typeof Database>,
+  input: GetCaseInput,
+): Promise<ToolResponse<CaseResult | null>> {
+  const caseId = resolveCaseId(db, input.case_id);
+  if (!caseId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateCaseLawMetadata(db),
+        note: `No judgment found matching "${input.case_id}"`,
+      },
+    };
+  }
+
+  const row = db.prepare(`
+    SELECT id as case_id, citation, case_name, court, court_code, decision_date, catchwords, url,
+      (SELECT COUNT(*) FROM case_law_paragraphs WHERE case_id = case_law.id) as paragraph_count
+    FROM case_law
+    WHERE id = ?
+  `).get(caseId) as Omit<CaseResult, 'paragraphs' | 'cited_provisions'>;
+
+  const citations = db.prepare(`
+    SELECT cc.document_id, ld.title as document_title, cc.provision_ref,
+      GROUP_CONCAT(DISTINCT cc.paragraph_number) as paragraphs
+    FROM case_law_citations cc
+    JOIN legal_documents ld ON ld.id = cc.document_id
+    WHERE cc.case_id = ?
+    GROUP BY cc.document_id, cc.provision_ref
+    ORDER BY MIN(cc.paragraph_number), cc.document_id
+  `).all(caseId) as Array<Omit<CitedProvision, 'paragraphs'> & { paragraphs: string | null }>;
+
+  const result: CaseResult = {
+    ...row,
+    cited_provisions: citations.map(c => ({
+      ...c,
+      paragraphs: c.paragraphs ? c.paragraphs.split(',').map(Number).sort((a, b) => a - b) : [],
+    })),
+  };
+
+  if (input.include_paragraphs !== false) {
+    let sql = 'SELECT paragraph_number, text FROM case_law_paragraphs WHERE case_id = ?';
+    const params: (string | number)[] = [caseId];
+    if (input.paragraph_from !== undefined) {
+      sql += ' AND paragraph_number >= ?';
+      params.push(input.paragraph_from);
+    }
+    if (input.paragraph_to !== undefined) {
+      sql += ' AND paragraph_number <= ?';
+      params.push(input.paragraph_to);
+    }
+    sql += ' ORDER BY paragraph_number';
+    result.paragraphs = db.prepare(sql).all(...params) as Array<{ paragraph_number: number; text: string }>;
+  }
+
+  return { results: result, _metadata: generateCaseLawMetadata(db) };
+}
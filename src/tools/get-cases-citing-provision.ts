@@ -0,0 +1,100 @@
+/**
+ * get_cases_citing_provision — Judgments that cite a given statute or provision.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateCaseLawMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetCasesCitingProvisionInput {
+  document_id: string;
+  provision_ref?: string;
+  court?: string;
+  limit?: number;
+}
+
+export interface CitingCaseResult {
+  case_id: string;
+  citation: string;
+  case_name: string;
+  court: string;
+  decision_date: string | null;
+  provision_ref: string | null;
+  citation_text: string | null;
+  paragraphs: number[];
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+export async function getCasesCitingProvision(
+  db: InstanceType<typeof Database>,
+  input: GetCasesCitingProvisionInput,
+): Promise<ToolResponse<CitingCaseResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateCaseLawMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let sql = `
+    SELECT
+      c.id as case_id,
+      c.citation,
+      c.case_name,
+      c.court,
+      c.decision_date,
+      cc.provision_ref,
+      MIN(cc.citation_text) as citation_text,
+      GROUP_CONCAT(DISTINCT cc.paragraph_number) as paragraphs
+    FROM case_law_citations cc
+    JOIN case_law c ON c.id = cc.case_id
+    WHERE cc.document_id = ?
+  `;
+  const params: (string | number)[] = [resolvedId];
+
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+    const provision = db.prepare(
+      'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ?)'
+    ).get(resolvedId, ref, `s${ref}`, ref) as { provision_ref: string } | undefined;
+
+    if (!provision) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateCaseLawMetadata(db),
+          note: `Provision "${ref}" not found in document "${resolvedId}"`,
+        },
+      };
+    }
+
+    sql += ' AND cc.provision_ref = ?';
+    params.push(provision.provision_ref);
+  }
+
+  if (input.court) {
+    sql += ' AND (c.court_code = ? COLLATE NOCASE OR c.court LIKE ?)';
+    params.push(input.court.trim(), `%${input.court.trim()}%`);
+  }
+
+  // Most recent judgments first
+  sql += ' GROUP BY c.id, cc.provision_ref ORDER BY c.decision_date DESC, c.id LIMIT ?';
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as Array<Omit<CitingCaseResult, 'paragraphs'> & { paragraphs: string | null }>;
+  return {
+    results: rows.map(r => ({
+      ...r,
+      paragraphs: r.paragraphs ? r.paragraphs.split(',').map(Number).sort((a, b) => a - b) : [],
+    })),
+    _metadata: generateCaseLawMetadata(db),
+  };
+}
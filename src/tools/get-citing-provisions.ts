@@ -0,0 +1,132 @@
+/**
+ * get_citing_provisions — Reverse citation lookup: which provisions cite a given provision or statute.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { findProvisionRef } from '../utils/pinpoint.js';
+import { resolveHeading } from '../utils/headings.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+
+export interface GetCitingProvisionsInput {
+  document_id: string;
+  provision_ref?: string;
+  ref_type?: 'references' | 'amended_by' | 'implements' | 'see_also';
+  limit?: number;
+}
+
+export interface CitingProvisionResult {
+  source_document_id: string;
+  source_document_title: string;
+  source_provision_ref: string | null;
+  source_title: string | null;
+  target_provision_ref: string | null;
+  /** The cited Part ("ptiiic"); null when a provision or the whole Act is cited */
+  target_heading_ref: string | null;
+  ref_type: string;
+  reference_text: string | null;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export async function getCitingProvisions(
+  db: InstanceType<typeof Database>,
+  input: GetCitingProvisionsInput,
+): Promise<ToolResponse<CitingProvisionResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  try {
+    db.prepare('SELECT 1 FROM cross_references LIMIT 1').get();
+  } catch {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'Cross-references not available in this database',
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  // Databases before schema version 4 record cited Parts by their text only
+  const headingRefs = detectCapabilities(db).has('heading_cross_references');
+  let sql = `
+    SELECT
+      xr.source_document_id,
+      ld.title as source_document_title,
+      xr.source_provision_ref,
+      lp.title as source_title,
+      xr.target_provision_ref,
+      ${headingRefs ? 'xr.target_heading_ref' : 'NULL'} as target_heading_ref,
+      xr.ref_type,
+      xr.reference_text
+    FROM cross_references xr
+    JOIN legal_documents ld ON ld.id = xr.source_document_id
+    LEFT JOIN legal_provisions lp
+      ON lp.document_id = xr.source_document_id AND lp.provision_ref = xr.source_provision_ref
+    WHERE xr.target_document_id = ?
+  `;
+  const params: (string | number)[] = [resolvedId];
+
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+
+    // Structural units ("Part IIIC") are not provisions; citations of them store the heading ref.
+    if (/^Part\s+\S+$/i.test(ref)) {
+      if (!headingRefs) {
+        return {
+          results: [],
+          _metadata: {
+            ...generateResponseMetadata(db),
+            note: 'Citations of Parts are not available in this database; rebuild it to record them',
+          },
+        };
+      }
+      const { heading, note } = resolveHeading(db, resolvedId, { part: ref });
+      if (!heading) {
+        return { results: [], _metadata: { ...generateResponseMetadata(db), note } };
+      }
+      sql += ' AND xr.target_heading_ref = ?';
+      params.push(heading.heading_ref);
+    } else {
+      const provisionRef = findProvisionRef(db, resolvedId, ref);
+
+      if (!provisionRef) {
+        return {
+          results: [],
+          _metadata: {
+            ...generateResponseMetadata(db),
+            note: `Provision "${ref}" not found in document "${resolvedId}"`,
+          },
+        };
+      }
+
+      sql += ' AND xr.target_provision_ref = ?';
+      params.push(provisionRef);
+    }
+  }
+
+  if (input.ref_type) {
+    sql += ' AND xr.ref_type = ?';
+    params.push(input.ref_type);
+  }
+
+  // Citations from within the same Act first, then other Acts
+  sql += ' ORDER BY (xr.source_document_id != xr.target_document_id), xr.id LIMIT ?';
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as CitingProvisionResult[];
+  return { results: rows, _metadata: generateResponseMetadata(db) };
+}
@@ -0,0 +1,95 @@
+/**
+ * get_commencement — When an Act, or one of its provisions, commenced, from
+ * the commencement table in section 2 of the Act.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { findProvisionRef } from '../utils/pinpoint.js';
+import { provisionLabel } from '../utils/currency.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import {
+  getProvisionCommencement,
+  listCommencementItems,
+  type CommencementItem,
+} from '../utils/commencement.js';
+
+export interface GetCommencementInput {
+  document_id: string;
+  provision_ref?: string;
+}
+
+export interface CommencementResult {
+  document_id: string;
+  title: string;
+  in_force_date: string | null;
+  provision_ref?: string;
+  items: CommencementItem[];
+}
+
+export async function getCommencement(
+  db: InstanceType<typeof Database>,
+  input: GetCommencementInput,
+): Promise<ToolResponse<CommencementResult | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const doc = db.prepare('SELECT id, title, in_force_date FROM legal_documents WHERE id = ?')
+    .get(resolvedId) as { id: string; title: string; in_force_date: string | null };
+
+  const notes: string[] = [];
+  let items: CommencementItem[];
+  let provisionRef: string | null = null;
+
+  if (input.provision_ref) {
+    provisionRef = findProvisionRef(db, doc.id, input.provision_ref);
+    const item = provisionRef ? getProvisionCommencement(db, doc.id, provisionRef) : null;
+    items = item ? [item] : [];
+    if (!provisionRef) {
+      notes.push(`Provision "${input.provision_ref}" not found in ${doc.title}.`);
+    } else if (!item) {
+      notes.push(
+        `The commencement table does not name ${provisionLabel(provisionRef)}. ` +
+        'It may have been inserted by an amending Act (see get_amendment_history), or the Act has no commencement table.',
+      );
+    }
+  } else {
+    items = listCommencementItems(db, doc.id);
+    if (items.length === 0) {
+      notes.push(`No commencement table is recorded for ${doc.title}.`);
+    }
+  }
+
+  const undated = items.filter(item => !item.commencement_date);
+  if (undated.length > 0) {
+    notes.push(
+      `No single commencement date is recorded for item${undated.length > 1 ? 's' : ''} ` +
+      `${undated.map(item => item.item).join(', ')}; see the commencement column for how it commences.`,
+    );
+  }
+  if (!doc.in_force_date) {
+    notes.push(`The register gives no in-force date for ${doc.title}.`);
+  }
+
+  return {
+    results: {
+      document_id: doc.id,
+      title: doc.title,
+      in_force_date: doc.in_force_date,
+      ...(provisionRef ? { provision_ref: provisionRef } : {}),
+      items,
+    },
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(notes.length > 0 ? { note: notes.join(' ') } : {}),
+    },
+  };
+}
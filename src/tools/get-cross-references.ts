@@ -0,0 +1,112 @@
+/**
+ * get_cross_references — List what a provision (or a whole statute) cites.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { findProvisionRef } from '../utils/pinpoint.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+
+export interface GetCrossReferencesInput {
+  document_id: string;
+  provision_ref?: string;
+  ref_type?: 'references' | 'amended_by' | 'implements' | 'see_also';
+  limit?: number;
+}
+
+export interface CrossReferenceResult {
+  source_provision_ref: string | null;
+  target_document_id: string;
+  target_document_title: string;
+  target_provision_ref: string | null;
+  /** A cited Part ("ptiiic"); null when a provision or the whole Act is cited */
+  target_heading_ref: string | null;
+  target_title: string | null;
+  ref_type: string;
+  reference_text: string | null;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export async function getCrossReferences(
+  db: InstanceType<typeof Database>,
+  input: GetCrossReferencesInput,
+): Promise<ToolResponse<CrossReferenceResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  try {
+    db.prepare('SELECT 1 FROM cross_references LIMIT 1').get();
+  } catch {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'Cross-references not available in this database',
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  // Databases before schema version 4 record cited Parts by their text only
+  const headingRefs = detectCapabilities(db).has('heading_cross_references');
+  let sql = `
+    SELECT
+      xr.source_provision_ref,
+      xr.target_document_id,
+      ld.title as target_document_title,
+      xr.target_provision_ref,
+      ${headingRefs ? 'xr.target_heading_ref' : 'NULL'} as target_heading_ref,
+      ${headingRefs ? 'COALESCE(lp.title, dh.title)' : 'lp.title'} as target_title,
+      xr.ref_type,
+      xr.reference_text
+    FROM cross_references xr
+    JOIN legal_documents ld ON ld.id = xr.target_document_id
+    LEFT JOIN legal_provisions lp
+      ON lp.document_id = xr.target_document_id AND lp.provision_ref = xr.target_provision_ref
+    ${headingRefs ? `LEFT JOIN document_headings dh
+      ON dh.document_id = xr.target_document_id AND dh.heading_ref = xr.target_heading_ref` : ''}
+    WHERE xr.source_document_id = ?
+  `;
+  const params: (string | number)[] = [resolvedId];
+
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+    const provisionRef = findProvisionRef(db, resolvedId, ref);
+
+    if (!provisionRef) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `Provision "${ref}" not found in document "${resolvedId}"`,
+        },
+      };
+    }
+
+    sql += ' AND xr.source_provision_ref = ?';
+    params.push(provisionRef);
+  }
+
+  if (input.ref_type) {
+    sql += ' AND xr.ref_type = ?';
+    params.push(input.ref_type);
+  }
+
+  sql += ' ORDER BY xr.id LIMIT ?';
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as CrossReferenceResult[];
+  return { results: rows, _metadata: generateResponseMetadata(db) };
+}
@@ -0,0 +1,150 @@
+/**
+ * get_definitions — Look up statutory definitions of a term across Australian Acts.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetDefinitionsInput {
+  term: string;
+  document_id?: string;
+  limit?: number;
+}
+
+export interface DefinitionResult {
+  document_id: string;
+  document_title: string;
+  term: string;
+  definition: string;
+  source_provision: string | null;
+  relevance: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function getDefinitions(
+  db: InstanceType<typeof Database>,
+  input: GetDefinitionsInput,
+): Promise<ToolResponse<DefinitionResult[]>> {
+  if (!input.term || input.term.trim().length === 0) {
+    return { results: [], _metadata: generateResponseMetadata(db) };
+  }
+
+  try {
+    db.prepare('SELECT 1 FROM definitions_fts LIMIT 1').get();
+  } catch {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'Definitions not available in this database',
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.term));
+
+  let resolvedDocId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    resolvedDocId = resolved;
+  }
+
+  for (const { query: ftsQuery } of queryVariants) {
+    // Weight the term column well above the definition body so that the
+    // defining entry outranks definitions that merely use the term.
+    let sql = `
+      SELECT
+        d.document_id,
+        ld.title as document_title,
+        d.term,
+        d.definition,
+        d.source_provision,
+        bm25(definitions_fts, 10.0, 1.0) as relevance
+      FROM definitions_fts
+      JOIN definitions d ON d.id = definitions_fts.rowid
+      JOIN legal_documents ld ON ld.id = d.document_id
+      WHERE definitions_fts MATCH ?
+    `;
+    const params: (string | number)[] = [ftsQuery];
+
+    if (resolvedDocId) {
+      sql += ' AND d.document_id = ?';
+      params.push(resolvedDocId);
+    }
+
+    sql += ' ORDER BY relevance LIMIT ?';
+    params.push(limit);
+
+    try {
+      const rows = db.prepare(sql).all(...params) as DefinitionResult[];
+      if (rows.length > 0) {
+        return {
+          results: rows,
+          _metadata: {
+            ...generateResponseMetadata(db),
+            ...(ftsQuery !== queryVariants[0].query ? { query_strategy: 'broadened' } : {}),
+          },
+        };
+      }
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  // LIKE fallback on the term itself
+  {
+    let likeSql = `
+      SELECT
+        d.document_id,
+        ld.title as document_title,
+        d.term,
+        d.definition,
+        d.source_provision,
+        0 as relevance
+      FROM definitions d
+      JOIN legal_documents ld ON ld.id = d.document_id
+      WHERE d.term LIKE ?
+    `;
+    const likeParams: (string | number)[] = [buildLikePattern(sanitizeFtsInput(input.term))];
+
+    if (resolvedDocId) {
+      likeSql += ' AND d.document_id = ?';
+      likeParams.push(resolvedDocId);
+    }
+
+    likeSql += ' ORDER BY length(d.term) LIMIT ?';
+    likeParams.push(limit);
+
+    try {
+      const rows = db.prepare(likeSql).all(...likeParams) as DefinitionResult[];
+      if (rows.length > 0) {
+        return {
+          results: rows,
+          _metadata: {
+            ...generateResponseMetadata(db),
+            query_strategy: 'like_fallback',
+          },
+        };
+      }
+    } catch {
+      // LIKE query failed
+    }
+  }
+
+  return { results: [], _metadata: generateResponseMetadata(db) };
+}
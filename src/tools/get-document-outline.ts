@@ -0,0 +1,115 @@
+/**
+ * get_document_outline — Table of contents of a statute: its Chapter, Part,
+ * Division and Subdivision headings with the sections under each.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { headingLabel, type DocumentHeading, type HeadingLevel } from '../utils/headings.js';
+
+export interface GetDocumentOutlineInput {
+  document_id: string;
+  max_depth?: number;
+}
+
+export interface OutlineNode {
+  heading_ref: string;
+  level: HeadingLevel;
+  label: string;
+  title: string;
+  first_section: string | null;
+  last_section: string | null;
+  provision_count: number;
+  children?: OutlineNode[];
+}
+
+export interface DocumentOutline {
+  document_id: string;
+  title: string;
+  provision_count: number;
+  headings: OutlineNode[];
+}
+
+export async function getDocumentOutline(
+  db: InstanceType<typeof Database>,
+  input: GetDocumentOutlineInput,
+): Promise<ToolResponse<DocumentOutline | null>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: null,
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const doc = db.prepare('SELECT id, title FROM legal_documents WHERE id = ?').get(resolvedId) as { id: string; title: string };
+
+  const headings = db.prepare(`
+    SELECT heading_ref, parent_ref, level, number, title
+    FROM document_headings WHERE document_id = ? ORDER BY id
+  `).all(resolvedId) as DocumentHeading[];
+
+  const provisions = db.prepare(
+    'SELECT heading_ref, section FROM legal_provisions WHERE document_id = ? ORDER BY id'
+  ).all(resolvedId) as { heading_ref: string | null; section: string }[];
+
+  const nodes = new Map<string, OutlineNode>();
+  const parents = new Map<string, string | null>();
+  for (const h of headings) {
+    nodes.set(h.heading_ref, {
+      heading_ref: h.heading_ref,
+      level: h.level,
+      label: headingLabel(h),
+      title: h.title,
+      first_section: null,
+      last_section: null,
+      provision_count: 0,
+    });
+    parents.set(h.heading_ref, h.parent_ref);
+  }
+
+  // A section counts towards its heading and every heading above it
+  for (const p of provisions) {
+    let ref = p.heading_ref;
+    while (ref && nodes.has(ref)) {
+      const node = nodes.get(ref)!;
+      node.provision_count++;
+      node.first_section ??= p.section;
+      node.last_section = p.section;
+      ref = parents.get(ref) ?? null;
+    }
+  }
+
+  const maxDepth = input.max_depth !== undefined ? Math.max(input.max_depth, 1) : Infinity;
+  const roots: OutlineNode[] = [];
+  const depths = new Map<string, number>();
+  for (const h of headings) {
+    const node = nodes.get(h.heading_ref)!;
+    const parent = h.parent_ref ? nodes.get(h.parent_ref) : undefined;
+    const depth = parent ? depths.get(h.parent_ref!)! + 1 : 1;
+    depths.set(h.heading_ref, depth);
+    if (depth > maxDepth) continue;
+    if (parent) {
+      (parent.children ??= []).push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return {
+    results: {
+      document_id: doc.id,
+      title: doc.title,
+      provision_count: provisions.length,
+      headings: roots,
+    },
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(headings.length === 0 ? { note: `No Chapter, Part or Division headings are recorded for ${doc.title}` } : {}),
+    },
+  };
+}
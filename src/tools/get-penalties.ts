@@ -0,0 +1,163 @@
+/**
+ * get_penalties — Offence and civil penalty provisions, with penalty units
+ * converted to dollars at the value in force on a date.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import {
+  buildFtsQueryVariants,
+  buildLikePattern,
+  PROVISION_FTS_TABLES,
+  provisionBm25,
+  sanitizeFtsInput,
+} from '../utils/fts-query.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { penaltyAmounts, penaltyUnitValueAsOf } from '../utils/penalty-units.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { detectCapabilities } from '../capabilities.js';
+
+export interface GetPenaltiesInput {
+  document_id?: string;
+  query?: string;
+  penalty_type?: 'offence' | 'civil_penalty';
+  as_of_date?: string;
+  limit?: number;
+}
+
+export interface PenaltyResult {
+  document_id: string;
+  document_title: string;
+  provision_ref: string;
+  unit_ref: string | null;
+  title: string | null;
+  penalty_type: 'offence' | 'civil_penalty';
+  penalty_units: number | null;
+  imprisonment_months: number | null;
+  body_corporate_penalty_units: number | null;
+  body_corporate_multiplier: number | null;
+  max_amount_individual: number | null;
+  max_amount_body_corporate: number | null;
+  text: string;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export async function getPenalties(
+  db: InstanceType<typeof Database>,
+  input: GetPenaltiesInput,
+): Promise<ToolResponse<PenaltyResult[]>> {
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let resolvedDocId: string | undefined;
+  if (input.document_id) {
+    const resolved = resolveDocumentId(db, input.document_id);
+    if (!resolved) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `No document found matching "${input.document_id}"`,
+        },
+      };
+    }
+    resolvedDocId = resolved;
+  }
+
+  // Dollar amounts use the penalty unit value on this date (default: today)
+  const asOfDate = input.as_of_date ? normalizeAsOfDate(input.as_of_date) : new Date().toISOString().slice(0, 10);
+  if (!asOfDate) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `Invalid as_of_date "${input.as_of_date}". Use ISO 8601 format (YYYY-MM-DD).`,
+      },
+    };
+  }
+  const unitValue = penaltyUnitValueAsOf(asOfDate);
+
+  const selectSql = (ftsJoin = '') => `
+    SELECT
+      p.document_id,
+      ld.title as document_title,
+      p.provision_ref,
+      p.unit_ref,
+      lp.title,
+      p.penalty_type,
+      p.penalty_units,
+      p.imprisonment_months,
+      p.body_corporate_penalty_units,
+      p.body_corporate_multiplier,
+      p.text
+    FROM penalties p
+    JOIN legal_documents ld ON ld.id = p.document_id
+    JOIN legal_provisions lp ON lp.document_id = p.document_id AND lp.provision_ref = p.provision_ref
+    ${ftsJoin}
+    WHERE 1 = 1
+  `;
+  const filters: string[] = [];
+  const filterParams: (string | number)[] = [];
+
+  if (resolvedDocId) {
+    filters.push('p.document_id = ?');
+    filterParams.push(resolvedDocId);
+  }
+
+  if (input.penalty_type) {
+    filters.push('p.penalty_type = ?');
+    filterParams.push(input.penalty_type);
+  }
+
+  const filterSql = filters.map(f => ` AND ${f}`).join('');
+  type PenaltyRow = Omit<PenaltyResult, 'max_amount_individual' | 'max_amount_body_corporate'>;
+  let rows: PenaltyRow[] = [];
+
+  if (input.query && input.query.trim().length > 0) {
+    // Keyword: rank penalty provisions by how well the provision text matches
+    const variants = buildFtsQueryVariants(sanitizeFtsInput(input.query), {
+      stemmedIndex: detectCapabilities(db).has('stemmed_search'),
+    });
+    for (const variant of variants) {
+      const ftsTable = PROVISION_FTS_TABLES[variant.index];
+      try {
+        rows = db.prepare(`
+          ${selectSql(`JOIN ${ftsTable} ON ${ftsTable}.rowid = lp.id`)}${filterSql}
+            AND ${ftsTable} MATCH ?
+          ORDER BY ${provisionBm25(ftsTable)}, p.id
+          LIMIT ?
+        `).all(...filterParams, variant.query, limit) as PenaltyRow[];
+      } catch {
+        // FTS query syntax error — try next variant
+        continue;
+      }
+      if (rows.length > 0) break;
+    }
+
+    if (rows.length === 0) {
+      const likePattern = buildLikePattern(sanitizeFtsInput(input.query));
+      rows = db.prepare(`
+        ${selectSql()}${filterSql}
+          AND (lp.content LIKE ? OR lp.title LIKE ?)
+        ORDER BY p.id
+        LIMIT ?
+      `).all(...filterParams, likePattern, likePattern, limit) as PenaltyRow[];
+    }
+  } else {
+    rows = db.prepare(`${selectSql()}${filterSql} ORDER BY p.id LIMIT ?`).all(...filterParams, limit) as PenaltyRow[];
+  }
+
+  const results = rows.map(row => ({ ...row, ...penaltyAmounts(row, unitValue) }));
+
+  return {
+    results,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      as_of_date: asOfDate,
+      ...(unitValue
+        ? { penalty_unit: { amount: unitValue.amount, from: unitValue.from } }
+        : { note: `No penalty unit value is held for ${asOfDate}; amounts are given in penalty units only.` }),
+    },
+  };
+}
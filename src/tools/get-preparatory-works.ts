@@ -0,0 +1,115 @@
+/**
+ * get_preparatory_works — Explanatory memoranda, explanatory statements and
+ * second reading speeches for a statute, or the clause note for one provision.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export type PreparatoryWorkType = 'explanatory_memorandum' | 'explanatory_statement' | 'second_reading_speech';
+
+export interface GetPreparatoryWorksInput {
+  document_id: string;
+  provision_ref?: string;
+  work_type?: PreparatoryWorkType;
+  limit?: number;
+}
+
+export interface PreparatoryWorkResult {
+  document_id: string;
+  document_title: string;
+  work_type: PreparatoryWorkType;
+  title: string;
+  date: string | null;
+  url: string | null;
+  clause_ref: string | null;
+  provision_ref: string | null;
+  heading: string | null;
+  content: string;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export async function getPreparatoryWorks(
+  db: InstanceType<typeof Database>,
+  input: GetPreparatoryWorksInput,
+): Promise<ToolResponse<PreparatoryWorkResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  let sql = `
+    SELECT
+      pw.document_id,
+      ld.title as document_title,
+      pw.work_type,
+      pw.title,
+      pw.date,
+      pw.url,
+      pw.clause_ref,
+      pw.provision_ref,
+      pw.heading,
+      pw.content
+    FROM preparatory_works pw
+    JOIN legal_documents ld ON ld.id = pw.document_id
+    WHERE pw.document_id = ?
+  `;
+  const params: (string | number)[] = [resolvedId];
+
+  if (input.provision_ref) {
+    const ref = input.provision_ref.trim();
+    const provision = db.prepare(
+      'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ?)'
+    ).get(resolvedId, ref, `s${ref}`, ref) as { provision_ref: string } | undefined;
+
+    if (!provision) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateResponseMetadata(db),
+          note: `Provision "${ref}" not found in document "${resolvedId}"`,
+        },
+      };
+    }
+
+    sql += ' AND pw.provision_ref = ?';
+    params.push(provision.provision_ref);
+  } else {
+    // Statute level: the general part of each work, not every clause note
+    sql += ' AND pw.clause_ref IS NULL';
+  }
+
+  if (input.work_type) {
+    sql += ' AND pw.work_type = ?';
+    params.push(input.work_type);
+  }
+
+  // Oldest material first: the original EM and speech precede amending Bills
+  sql += ' ORDER BY pw.date IS NULL, pw.date, pw.id LIMIT ?';
+  params.push(limit);
+
+  const rows = db.prepare(sql).all(...params) as PreparatoryWorkResult[];
+
+  if (rows.length === 0 && input.provision_ref) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No clause note is held for "${input.provision_ref}". Call without provision_ref for the general explanatory material.`,
+      },
+    };
+  }
+
+  return { results: rows, _metadata: generateResponseMetadata(db) };
+}
@@ -5,13 +5,35 @@
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { getProvisionUnit, getUnitParentChain, parsePinpoint, sectionNumber, type ProvisionUnitContext } from '../utils/pinpoint.js';
+import { getHeadingProvisions, getHeadingSpan, hasHeadingSelector, headingLabel, resolveHeading, type DocumentHeading } from '../utils/headings.js';
+import { parseLayout, PROVISION_FORMATS, renderLayout, type ProvisionFormat } from '../utils/provision-layout.js';
+import { currencyWarnings, getProvisionCurrency, provisionLabel } from '../utils/currency.js';
+import { cursorKey, decodeCursor, encodeCursor, INVALID_CURSOR_NOTE, type PageWindow } from '../utils/cursor.js';
+import { detectCapabilities } from '../capabilities.js';
+import {
+  findCompilationAsOf,
+  getDocumentAsOf,
+  getProvisionAsOf,
+  hasVersionHistory,
+  type VersionedProvision,
+} from '../utils/versions.js';
 
 export interface GetProvisionInput {
   document_id: string;
   section?: string;
   article?: string;
   provision_ref?: string;
+  part?: string;
+  division?: string;
+  heading_ref?: string;
   as_of_date?: string;
+  format?: ProvisionFormat;
+  offset?: number;
+  max_chars?: number;
+  page_size?: number;
+  cursor?: string;
 }
 
 export interface ProvisionResult {
@@ -24,12 +46,135 @@ export interface ProvisionResult {
   content: string;
   section_number?: string;
   url?: string;
+  valid_from?: string | null;
+  valid_to?: string | null;
+  level?: string;
+  parent_chain?: ProvisionUnitContext[];
+  content_length?: number;
+  truncated?: boolean;
+  next_offset?: number;
+  notes?: ProvisionNote[];
 }
 
+/**
+ * A Note, Example or editorial note. It explains the provision but is not
+ * part of the law, so it is returned apart from content.
+ */
+export interface ProvisionNote {
+  unit_ref: string | null;
+  kind: 'note' | 'example' | 'editorial';
+  text: string;
+  non_operative: true;
+}
+
+/** Provisions found, with how many there are in all when only a window of them was read */
+interface FoundProvisions extends ToolResponse<ProvisionResult[]> {
+  total?: number;
+}
+
+const DEFAULT_MAX_CHARS = 20000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 export async function getProvision(
   db: InstanceType<typeof Database>,
   input: GetProvisionInput,
 ): Promise<ToolResponse<ProvisionResult[]>> {
+  if (input.format && !PROVISION_FORMATS.includes(input.format)) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `Unknown format "${input.format}". Use one of: ${PROVISION_FORMATS.join(', ')}.`,
+      },
+    };
+  }
+
+  // A whole Act or Part comes back page_size provisions at a time, in document order
+  const key = cursorKey(db, 'get_provision', {
+    ...input, format: undefined, offset: undefined, max_chars: undefined, page_size: undefined, cursor: undefined,
+  });
+  const position = input.cursor ? decodeCursor(input.cursor, key) : { offset: 0 };
+  if (!position) {
+    return { results: [], _metadata: { ...generateResponseMetadata(db), note: INVALID_CURSOR_NOTE } };
+  }
+  const pageSize = Math.min(Math.max(Math.floor(input.page_size ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+
+  const { total: windowTotal, ...found } = await findProvisions(db, input, { offset: position.offset, limit: pageSize });
+  const total = windowTotal ?? found.results.length;
+  const page = attachNotes(db, {
+    ...found,
+    results: windowTotal === undefined ? found.results.slice(position.offset, position.offset + pageSize) : found.results,
+  });
+  const response = input.format ? formatProvisions(db, page, input.format) : page;
+
+  // One provision is paged by character offset; a list of provisions shares max_chars across the page
+  const maxChars = Math.max(Math.floor(input.max_chars ?? DEFAULT_MAX_CHARS), 1);
+  const listing = hasHeadingSelector(input) || !(input.provision_ref ?? input.section ?? input.article);
+  if (!listing) {
+    return { ...response, results: clipContent(response.results, Math.max(Math.floor(input.offset ?? 0), 0), maxChars) };
+  }
+
+  const results = fitToBudget(response.results, maxChars);
+  const notes = [response._metadata.note];
+  if (input.offset) {
+    notes.push('offset applies when a single provision is requested; use cursor to page through provisions.');
+  }
+  const cut = results.find(r => r.truncated);
+  if (cut) {
+    notes.push(
+      `${provisionLabel(cut.provision_ref)} is longer than max_chars; ` +
+      `request it by section with offset ${cut.next_offset} for the rest.`,
+    );
+  }
+  const note = notes.filter(Boolean).join(' ');
+  return pageMetadata({ results, _metadata: { ...response._metadata, ...(note ? { note } : {}) } }, position.offset, total, key);
+}
+
+/**
+ * Cut each provision's content to max_chars from a character offset, and
+ * say so, so that a long provision can be read in parts.
+ */
+function clipContent(results: ProvisionResult[], offset: number, maxChars: number): ProvisionResult[] {
+  return results.map(r => {
+    const end = offset + maxChars;
+    const truncated = end < r.content.length;
+    return {
+      ...r,
+      content: r.content.slice(offset, end),
+      content_length: r.content.length,
+      truncated,
+      ...(truncated ? { next_offset: end } : {}),
+    };
+  });
+}
+
+/**
+ * The provisions of a page that fit within max_chars together. The page
+ * ends before the provision that would overrun it, except that the first
+ * provision is always returned, cut to max_chars if need be.
+ */
+function fitToBudget(results: ProvisionResult[], maxChars: number): ProvisionResult[] {
+  const fitted: ProvisionResult[] = [];
+  let used = 0;
+  for (const r of results) {
+    if (fitted.length > 0 && used + r.content.length > maxChars) break;
+    fitted.push(...clipContent([r], 0, maxChars));
+    used += r.content.length;
+  }
+  return fitted;
+}
+
+/**
+ * The provisions asked for. A whole Act or heading of the current text is
+ * read only within the page window, with its total; other selections are
+ * returned whole.
+ */
+async function findProvisions(
+  db: InstanceType<typeof Database>,
+  input: GetProvisionInput,
+  window: PageWindow,
+): Promise<FoundProvisions> {
   const resolvedId = resolveDocumentId(db, input.document_id);
   if (!resolvedId) {
     return {
@@ -48,10 +193,39 @@ export async function getProvision(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
+  if (input.as_of_date) {
+    return getProvisionAsOfDate(db, input, resolvedId, docRow);
+  }
+
+  // Whole Part or Division
+  if (hasHeadingSelector(input)) {
+    const selected = selectHeading(db, input, resolvedId, window);
+    if (!selected.heading) {
+      return { results: [], _metadata: { ...generateResponseMetadata(db), note: selected.note } };
+    }
+    return {
+      total: selected.total,
+      results: selected.provisions.map(p => ({
+        document_id: resolvedId,
+        document_title: docRow.title,
+        provision_ref: String(p.provision_ref),
+        chapter: p.chapter as string | null,
+        section: String(p.section),
+        title: p.title as string | null,
+        content: String(p.content),
+        section_number: sectionNumber(String(p.provision_ref)),
+        url: docRow.url ?? undefined,
+      })),
+      _metadata: { ...generateResponseMetadata(db), note: selected.note },
+    };
+  }
+
   // Specific provision lookup
-  const ref = input.provision_ref ?? input.section ?? (input as any).article;
+  const ref = input.provision_ref ?? input.section ?? input.article;
   if (ref) {
-    const refTrimmed = ref.trim();
+    // "s 26WE(2)(b)": look up the section, then the unit within it
+    const parsedRef = parsePinpoint(ref);
+    const refTrimmed = parsedRef ? parsedRef.sectionRef : ref.trim();
 
     // Try direct provision_ref match
     let provision = db.prepare(
@@ -69,7 +243,15 @@ export async function getProvision(
     if (!provision) {
       provision = db.prepare(
         'SELECT * FROM legal_provisions WHERE document_id = ? AND section = ?'
-      ).get(resolvedId, refTrimmed) as Record<string, unknown> | undefined;
+      ).get(resolvedId, parsedRef?.section ?? refTrimmed) as Record<string, unknown> | undefined;
+    }
+
+    // Try the schedule's other numbering styles ("Sch 1 cl 1" is stored as APP 1)
+    for (const alternative of parsedRef?.alternatives ?? []) {
+      if (provision) break;
+      provision = db.prepare(
+        'SELECT * FROM legal_provisions WHERE document_id = ? AND provision_ref = ?'
+      ).get(resolvedId, alternative) as Record<string, unknown> | undefined;
     }
 
     // Try LIKE match for flexible input
@@ -79,8 +261,15 @@ export async function getProvision(
       ).get(resolvedId, `%${refTrimmed}%`, `%${refTrimmed}%`) as Record<string, unknown> | undefined;
     }
 
+    if (provision && parsedRef?.pinpoint) {
+      return withCurrencyNote(
+        db, getProvisionUnitResult(db, resolvedId, docRow, provision, parsedRef.pinpoint),
+        resolvedId, String(provision.provision_ref),
+      );
+    }
+
     if (provision) {
-      return {
+      return withCurrencyNote(db, {
         results: [{
           document_id: resolvedId,
           document_title: docRow.title,
@@ -89,11 +278,11 @@ export async function getProvision(
           section: String(provision.section),
           title: provision.title as string | null,
           content: String(provision.content),
-          section_number: String(provision.provision_ref).replace(/^s/, ''),
+          section_number: sectionNumber(String(provision.provision_ref)),
           url: docRow.url ?? undefined,
         }],
         _metadata: generateResponseMetadata(db),
-      };
+      }, resolvedId, String(provision.provision_ref));
     }
 
     return {
@@ -105,12 +294,16 @@ export async function getProvision(
     };
   }
 
-  // Return all provisions for the document
+  // Return all provisions for the document, a page at a time
+  const { total } = db.prepare(
+    'SELECT COUNT(*) as total FROM legal_provisions WHERE document_id = ?'
+  ).get(resolvedId) as { total: number };
   const provisions = db.prepare(
-    'SELECT * FROM legal_provisions WHERE document_id = ? ORDER BY id'
-  ).all(resolvedId) as Record<string, unknown>[];
+    'SELECT * FROM legal_provisions WHERE document_id = ? ORDER BY id LIMIT ? OFFSET ?'
+  ).all(resolvedId, window.limit, window.offset) as Record<string, unknown>[];
 
   return {
+    total,
     results: provisions.map(p => ({
       document_id: resolvedId,
       document_title: docRow.title,
@@ -119,9 +312,324 @@ export async function getProvision(
       section: String(p.section),
       title: p.title as string | null,
       content: String(p.content),
-      section_number: String(p.provision_ref).replace(/^s/, ''),
+      section_number: sectionNumber(String(p.provision_ref)),
       url: docRow.url ?? undefined,
     })),
     _metadata: generateResponseMetadata(db),
   };
 }
+
+/**
+ * Note the range of a page starting at offset, and set the cursor for the
+ * next, whenever the provisions run to more than one page.
+ */
+function pageMetadata(
+  response: ToolResponse<ProvisionResult[]>,
+  offset: number,
+  total: number,
+  key: string,
+): ToolResponse<ProvisionResult[]> {
+  const end = Math.min(offset + response.results.length, total);
+  if (offset === 0 && end === total) return response;
+
+  const range = offset < total
+    ? (end === offset + 1 ? `Provision ${end} of ${total}.` : `Provisions ${offset + 1}\u2013${end} of ${total}.`)
+    : `No provisions after the ${total} already returned.`;
+  const note = [response._metadata.note, range].filter(Boolean).join(' ');
+  return {
+    ...response,
+    _metadata: {
+      ...response._metadata,
+      note,
+      ...(end < total ? { next_cursor: encodeCursor(key, { offset: end }) } : {}),
+    },
+  };
+}
+
+/**
+ * Add a note when the provision asked for has been repealed, has not
+ * commenced, or has an amendment pending.
+ */
+function withCurrencyNote(
+  db: InstanceType<typeof Database>,
+  response: ToolResponse<ProvisionResult[]>,
+  documentId: string,
+  provisionRef: string,
+): ToolResponse<ProvisionResult[]> {
+  const warnings = currencyWarnings(
+    provisionLabel(provisionRef), getProvisionCurrency(db, documentId, provisionRef), new Date().toISOString().slice(0, 10),
+  );
+  if (warnings.length === 0) return response;
+
+  const note = [response._metadata.note, ...warnings].filter(Boolean).join(' ');
+  return { ...response, _metadata: { ...response._metadata, note } };
+}
+
+/**
+ * Add the notes of each current provision; a pinpointed unit gets the notes
+ * of the subsection it is in. Superseded text has none stored.
+ */
+function attachNotes(
+  db: InstanceType<typeof Database>,
+  response: ToolResponse<ProvisionResult[]>,
+): ToolResponse<ProvisionResult[]> {
+  if (!detectCapabilities(db).has('provision_notes')) return response;
+
+  const stmt = db.prepare(`
+    SELECT unit_ref, kind, text FROM provision_notes
+    WHERE document_id = ? AND (provision_ref = ? OR substr(?, 1, length(unit_ref)) = unit_ref)
+    ORDER BY id
+  `);
+
+  return {
+    ...response,
+    results: response.results.map(r => {
+      if (r.valid_to) return r;
+      const notes = stmt.all(r.document_id, r.provision_ref, r.provision_ref) as Omit<ProvisionNote, 'non_operative'>[];
+      if (notes.length === 0) return r;
+      return { ...r, notes: notes.map(n => ({ ...n, non_operative: true as const })) };
+    }),
+  };
+}
+
+/**
+ * Render each result from its stored layout. Layout is held for current
+ * provisions only, so superseded text and pinpointed units stay as they are.
+ */
+function formatProvisions(
+  db: InstanceType<typeof Database>,
+  response: ToolResponse<ProvisionResult[]>,
+  format: ProvisionFormat,
+): ToolResponse<ProvisionResult[]> {
+  let hasLayout = true;
+  try {
+    db.prepare('SELECT layout FROM legal_provisions LIMIT 1').get();
+  } catch {
+    // layout column doesn't exist in this database
+    hasLayout = false;
+  }
+  const layoutStmt = hasLayout
+    ? db.prepare('SELECT content, layout FROM legal_provisions WHERE document_id = ? AND provision_ref = ?')
+    : null;
+
+  let unformatted = 0;
+  const results = response.results.map(r => {
+    const row = layoutStmt?.get(r.document_id, r.provision_ref) as { content: string; layout: string | null } | undefined;
+    const layout = row && row.content === r.content ? parseLayout(row.layout) : null;
+    if (!layout) {
+      unformatted++;
+      return r;
+    }
+    return { ...r, content: renderLayout(layout, format) };
+  });
+
+  const notes = [
+    response._metadata.note,
+    unformatted > 0 ? `Layout is not available for ${unformatted} of ${results.length} results; their content is unformatted.` : undefined,
+  ].filter(Boolean);
+  return {
+    results,
+    _metadata: { ...response._metadata, ...(notes.length > 0 ? { note: notes.join(' ') } : {}) },
+  };
+}
+
+/**
+ * A subsection, paragraph or subparagraph of a current provision, with the
+ * units enclosing it so that the pinpointed text can be read in context.
+ */
+function getProvisionUnitResult(
+  db: InstanceType<typeof Database>,
+  resolvedId: string,
+  docRow: { id: string; title: string; url: string | null },
+  provision: Record<string, unknown>,
+  pinpoint: string,
+): ToolResponse<ProvisionResult[]> {
+  const provisionRef = String(provision.provision_ref);
+  const section = {
+    document_id: resolvedId,
+    document_title: docRow.title,
+    provision_ref: provisionRef,
+    chapter: provision.chapter as string | null,
+    section: String(provision.section),
+    title: provision.title as string | null,
+    content: String(provision.content),
+    section_number: sectionNumber(provisionRef),
+    url: docRow.url ?? undefined,
+  };
+
+  if (!detectCapabilities(db).has('provision_units')) {
+    return {
+      results: [section],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `Subsection-level text is not available in this database; returning the whole of ${provisionRef}.`,
+      },
+    };
+  }
+
+  const unitRef = `${provisionRef}${pinpoint}`;
+  const unit = getProvisionUnit(db, resolvedId, unitRef);
+  if (!unit) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `Provision "${unitRef}" not found in document "${resolvedId}". Call without the pinpoint for the whole of ${provisionRef}.`,
+      },
+    };
+  }
+
+  return {
+    results: [{
+      ...section,
+      provision_ref: unit.unit_ref,
+      content: unit.content,
+      section_number: sectionNumber(unit.unit_ref),
+      level: unit.level,
+      parent_chain: getUnitParentChain(db, resolvedId, section, unit),
+    }],
+    _metadata: generateResponseMetadata(db),
+  };
+}
+
+/**
+ * Point-in-time variant of getProvision: returns the text in force on as_of_date.
+ */
+function getProvisionAsOfDate(
+  db: InstanceType<typeof Database>,
+  input: GetProvisionInput,
+  resolvedId: string,
+  docRow: { id: string; title: string; url: string | null },
+): ToolResponse<ProvisionResult[]> {
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (!asOfDate) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `Invalid as_of_date "${input.as_of_date}". Use ISO 8601 format (YYYY-MM-DD).`,
+      },
+    };
+  }
+
+  const toResult = (p: VersionedProvision): ProvisionResult => ({
+    document_id: resolvedId,
+    document_title: docRow.title,
+    provision_ref: p.provision_ref,
+    chapter: p.chapter,
+    section: p.section,
+    title: p.title,
+    content: p.content,
+    section_number: sectionNumber(p.provision_ref),
+    url: docRow.url ?? undefined,
+    valid_from: p.valid_from,
+    valid_to: p.valid_to,
+  });
+
+  const notes: string[] = [];
+  if (!hasVersionHistory(db, resolvedId)) {
+    notes.push(`No historical compilations are held for "${resolvedId}"; returning the current text.`);
+  } else {
+    const compilation = findCompilationAsOf(db, resolvedId, asOfDate);
+    if (compilation) {
+      notes.push(
+        `Text as at ${asOfDate} (compilation ${compilation.compilation_number ?? 'unknown'}, ` +
+        `in force from ${compilation.start_date}${compilation.end_date ? ` to ${compilation.end_date}` : ''}).`
+      );
+    } else {
+      notes.push(`No compilation held for "${resolvedId}" covers ${asOfDate}.`);
+    }
+  }
+
+  // Sections of a Part or Division as currently structured, in their text on that date
+  if (hasHeadingSelector(input)) {
+    const selected = selectHeading(db, input, resolvedId);
+    if (!selected.heading) {
+      return { results: [], _metadata: { ...generateResponseMetadata(db), as_of_date: asOfDate, note: selected.note } };
+    }
+    const refs = new Set(selected.provisions.map(p => String(p.provision_ref)));
+    notes.push(`${selected.note} Sections are selected by the current structure of the Act.`);
+    return {
+      results: getDocumentAsOf(db, resolvedId, asOfDate).filter(p => refs.has(p.provision_ref)).map(toResult),
+      _metadata: { ...generateResponseMetadata(db), as_of_date: asOfDate, note: notes.join(' ') },
+    };
+  }
+
+  const ref = input.provision_ref ?? input.section ?? input.article;
+  if (ref) {
+    const parsedRef = parsePinpoint(ref);
+    if (parsedRef?.pinpoint) {
+      notes.push(`Pinpoint retrieval covers the current text only; returning the whole section.`);
+    }
+    const provisionRef = resolveVersionedProvisionRef(db, resolvedId, parsedRef ? parsedRef.sectionRef : ref.trim());
+    const provision = provisionRef ? getProvisionAsOf(db, resolvedId, provisionRef, asOfDate) : null;
+    if (!provision) {
+      notes.push(`Provision "${ref}" not found in document "${resolvedId}" as at ${asOfDate}`);
+    }
+    return {
+      results: provision ? [toResult(provision)] : [],
+      _metadata: { ...generateResponseMetadata(db), as_of_date: asOfDate, note: notes.join(' ') },
+    };
+  }
+
+  return {
+    results: getDocumentAsOf(db, resolvedId, asOfDate).map(toResult),
+    _metadata: { ...generateResponseMetadata(db), as_of_date: asOfDate, note: notes.join(' ') },
+  };
+}
+
+/**
+ * The Part, Division or heading_ref named in the input and the provisions
+ * under it, or the window of them asked for, with their total. The note
+ * describes the selection, or why nothing was selected.
+ */
+function selectHeading(
+  db: InstanceType<typeof Database>,
+  input: GetProvisionInput,
+  resolvedId: string,
+  window?: PageWindow,
+): { heading: DocumentHeading | null; provisions: Record<string, unknown>[]; total: number; note: string } {
+  if (!detectCapabilities(db).has('document_outline')) {
+    return { heading: null, provisions: [], total: 0, note: 'Part and Division structure is not available in this database.' };
+  }
+
+  const { heading, note } = resolveHeading(db, resolvedId, input);
+  if (!heading) {
+    return { heading: null, provisions: [], total: 0, note: note ?? `No matching heading in document "${resolvedId}"` };
+  }
+
+  const provisions = getHeadingProvisions(db, resolvedId, heading.heading_ref, window);
+  const { count, first, last } = getHeadingSpan(db, resolvedId, heading.heading_ref);
+  const range = first === null ? '' : first === last ? ` (${first})` : ` (${first}\u2013${last})`;
+  return {
+    heading,
+    provisions,
+    total: count,
+    note: `${headingLabel(heading)}${heading.title ? `\u2014${heading.title}` : ''}: ` +
+      `${count} ${count === 1 ? 'provision' : 'provisions'}${range}.`,
+  };
+}
+
+/**
+ * Resolve user input to a provision_ref, looking at current provisions first
+ * and then at superseded ones (sections since repealed exist only there).
+ */
+function resolveVersionedProvisionRef(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  ref: string,
+): string | null {
+  const current = db.prepare(
+    'SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ?)'
+  ).get(documentId, ref, `s${ref}`, ref) as { provision_ref: string } | undefined;
+  if (current) return current.provision_ref;
+
+  try {
+    const superseded = db.prepare(
+      'SELECT provision_ref FROM provision_versions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ?) LIMIT 1'
+    ).get(documentId, ref, `s${ref}`, ref) as { provision_ref: string } | undefined;
+    return superseded?.provision_ref ?? null;
+  } catch {
+    return null;
+  }
+}
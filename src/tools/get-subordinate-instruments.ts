@@ -0,0 +1,98 @@
+/**
+ * get_subordinate_instruments — Legislative instruments made under an Act.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { resolveDocumentId } from '../utils/statute-id.js';
+import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface GetSubordinateInstrumentsInput {
+  document_id: string;
+  status?: string;
+}
+
+export interface SubordinateInstrumentResult {
+  document_id: string;
+  title: string;
+  status: string;
+  issued_date: string | null;
+  in_force_date: string | null;
+  url: string | null;
+  provision_count: number;
+}
+
+export async function getSubordinateInstruments(
+  db: InstanceType<typeof Database>,
+  input: GetSubordinateInstrumentsInput,
+): Promise<ToolResponse<SubordinateInstrumentResult[]>> {
+  const resolvedId = resolveDocumentId(db, input.document_id);
+  if (!resolvedId) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `No document found matching "${input.document_id}"`,
+      },
+    };
+  }
+
+  let doc: { id: string; title: string; type: string; enabling_document_id: string | null };
+  try {
+    doc = db.prepare(
+      'SELECT id, title, type, enabling_document_id FROM legal_documents WHERE id = ?'
+    ).get(resolvedId) as typeof doc;
+  } catch {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'Enabling Act links are not available in this database',
+      },
+    };
+  }
+
+  if (doc.type === 'legislative_instrument') {
+    const enabling = doc.enabling_document_id
+      ? db.prepare('SELECT title FROM legal_documents WHERE id = ?').get(doc.enabling_document_id) as { title: string } | undefined
+      : undefined;
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: enabling
+          ? `"${doc.title}" is a legislative instrument made under ${enabling.title} (${doc.enabling_document_id}).`
+          : `"${doc.title}" is a legislative instrument; its enabling Act is not held in this database.`,
+      },
+    };
+  }
+
+  let sql = `
+    SELECT
+      ld.id as document_id,
+      ld.title,
+      ld.status,
+      ld.issued_date,
+      ld.in_force_date,
+      ld.url,
+      (SELECT COUNT(*) FROM legal_provisions lp WHERE lp.document_id = ld.id) as provision_count
+    FROM legal_documents ld
+    WHERE ld.enabling_document_id = ? AND ld.type = 'legislative_instrument'
+  `;
+  const params: string[] = [resolvedId];
+
+  if (input.status) {
+    sql += ' AND ld.status = ?';
+    params.push(input.status);
+  }
+
+  sql += ' ORDER BY ld.title';
+
+  const rows = db.prepare(sql).all(...params) as SubordinateInstrumentResult[];
+  return {
+    results: rows,
+    _metadata: {
+      ...generateResponseMetadata(db),
+      ...(rows.length === 0 ? { note: `No legislative instruments made under ${doc.title} are held in this database` } : {}),
+    },
+  };
+}
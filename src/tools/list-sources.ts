@@ -39,6 +39,7 @@ export async function listSources(
   db: InstanceType<typeof Database>,
 ): Promise<ToolResponse<ListSourcesResult>> {
   const meta = readDbMetadata(db);
+  const caseCount = safeCount(db, 'SELECT COUNT(*) as count FROM case_law');
 
   return {
     results: {
@@ -54,6 +55,14 @@ export async function listSources(
             'corporations, consumer, telecommunications, and criminal law',
           languages: ['en'],
         },
+        ...(caseCount > 0 ? [{
+          name: 'Australian court judgments',
+          authority: 'Issuing courts and tribunals (imported from locally saved AustLII-style HTML)',
+          url: 'https://www.austlii.edu.au',
+          license: 'Subject to the terms of the court or publisher the judgments were obtained from',
+          coverage: `${caseCount} judgments imported into this database; not a complete case law collection`,
+          languages: ['en'],
+        }] : []),
       ],
       database: {
         tier: meta.tier,
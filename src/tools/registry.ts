@@ -13,6 +13,7 @@ import type Database from '@ansvar/mcp-sqlite';
 
 import { searchLegislation, type SearchLegislationInput } from './search-legislation.js';
 import { getProvision, type GetProvisionInput } from './get-provision.js';
+import { diffProvision, type DiffProvisionInput } from './diff-provision.js';
 import { validateCitationTool, type ValidateCitationInput } from './validate-citation.js';
 import { buildLegalStance, type BuildLegalStanceInput } from './build-legal-stance.js';
 import { formatCitationTool, type FormatCitationInput } from './format-citation.js';
@@ -22,9 +23,21 @@ import { getAustralianImplementations, type GetAustralianImplementationsInput }
 import { searchEUImplementations, type SearchEUImplementationsInput } from './search-eu-implementations.js';
 import { getProvisionEUBasis, type GetProvisionEUBasisInput } from './get-provision-eu-basis.js';
 import { validateEUCompliance, type ValidateEUComplianceInput } from './validate-eu-compliance.js';
+import { getDefinitions, type GetDefinitionsInput } from './get-definitions.js';
+import { getCrossReferences, type GetCrossReferencesInput } from './get-cross-references.js';
+import { getCitingProvisions, type GetCitingProvisionsInput } from './get-citing-provisions.js';
+import { getSubordinateInstruments, type GetSubordinateInstrumentsInput } from './get-subordinate-instruments.js';
+import { searchCaseLaw, type SearchCaseLawInput } from './search-case-law.js';
+import { getCase, type GetCaseInput } from './get-case.js';
+import { getCasesCitingProvision, type GetCasesCitingProvisionInput } from './get-cases-citing-provision.js';
+import { getPreparatoryWorks, type GetPreparatoryWorksInput } from './get-preparatory-works.js';
+import { getPenalties, type GetPenaltiesInput } from './get-penalties.js';
+import { getDocumentOutline, type GetDocumentOutlineInput } from './get-document-outline.js';
+import { getAmendmentHistory, type GetAmendmentHistoryInput } from './get-amendment-history.js';
+import { getCommencement, type GetCommencementInput } from './get-commencement.js';
 import { listSources } from './list-sources.js';
 import { getAbout, type AboutContext } from './about.js';
-import { detectCapabilities, upgradeMessage } from '../capabilities.js';
+import { detectCapabilities, upgradeMessage, type Capability } from '../capabilities.js';
 export type { AboutContext } from './about.js';
 
 const ABOUT_TOOL: Tool = {
@@ -46,14 +59,444 @@ const LIST_SOURCES_TOOL: Tool = {
   inputSchema: { type: 'object', properties: {} },
 };
 
+const GET_DEFINITIONS_TOOL: Tool = {
+  name: 'get_definitions',
+  description:
+    'Look up the statutory definition of a term (e.g., "personal information", "critical infrastructure asset") ' +
+    'across all Australian Acts, or within one Act. Searches the interpretation/definition sections ' +
+    'using FTS5 with BM25 ranking, weighting matches on the defined term above matches in the definition body. ' +
+    'Returns the term, full definition text, source provision, and Act title. ' +
+    'Use this to compare how different Acts define the same term.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      term: {
+        type: 'string',
+        description: 'Term to look up (e.g., "personal information", "eligible data breach").',
+      },
+      document_id: {
+        type: 'string',
+        description: 'Optional: limit to one statute (Act title, abbreviation, or internal ID).',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum definitions to return (default: 10, max: 50).',
+        default: 10,
+      },
+    },
+    required: ['term'],
+  },
+};
+
+// Judgment tools (case_law capability)
+const CASE_LAW_TOOLS: Tool[] = [
+  {
+    name: 'search_case_law',
+    description:
+      'Full-text search across Australian court judgments held in this database. ' +
+      'Searches numbered judgment paragraphs and catchwords using FTS5 with BM25 ranking. ' +
+      'Returns one hit per judgment with its medium-neutral citation (e.g., "[2023] HCA 12"), court, decision date, ' +
+      'the matching paragraph number for pinpointing, and a snippet with >>> <<< markers around matched terms.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (e.g., "eligible data breach", "unconscionable conduct").',
+        },
+        court: {
+          type: 'string',
+          description: 'Optional: court code from the citation (e.g., "HCA", "FCAFC") or part of the court name.',
+        },
+        date_from: {
+          type: 'string',
+          description: 'Optional: earliest decision date (ISO 8601, YYYY-MM-DD).',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Optional: latest decision date (ISO 8601, YYYY-MM-DD).',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum judgments to return (default: 10, max: 50).',
+          default: 10,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_case',
+    description:
+      'Retrieve a judgment by medium-neutral citation (e.g., "[2023] HCA 12"), case ID ("2023-hca-12"), or case name. ' +
+      'Returns court, decision date, catchwords, numbered paragraphs (optionally a range), ' +
+      'and the statutory provisions the judgment cites with the paragraphs citing them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        case_id: {
+          type: 'string',
+          description: 'Medium-neutral citation, case ID, or case name.',
+        },
+        paragraph_from: {
+          type: 'number',
+          description: 'Optional: first paragraph number to return.',
+        },
+        paragraph_to: {
+          type: 'number',
+          description: 'Optional: last paragraph number to return.',
+        },
+        include_paragraphs: {
+          type: 'boolean',
+          description: 'Return paragraph text (default: true). Set false for metadata and citations only.',
+          default: true,
+        },
+      },
+      required: ['case_id'],
+    },
+  },
+  {
+    name: 'get_cases_citing_provision',
+    description:
+      'Find judgments that cite an Australian statute or a specific provision of it ' +
+      '(e.g., Privacy Act 1988 s 6). Citations are extracted from judgment text at build time. ' +
+      'Returns each judgment with the citation as written and the paragraphs citing the provision, most recent first. ' +
+      'Short-form references such as "the Act" are not resolved.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (Act title, abbreviation, or internal ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: provision reference (e.g., "s6" or "6"). Omit to return every citation of the Act, including citations of the Act as a whole.',
+        },
+        court: {
+          type: 'string',
+          description: 'Optional: court code (e.g., "HCA") or part of the court name.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 20, max: 200).',
+          default: 20,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+];
+
+const GET_PREPARATORY_WORKS_TOOL: Tool = {
+  name: 'get_preparatory_works',
+  description:
+    'Retrieve extrinsic material for an Australian statute: explanatory memoranda, explanatory statements ' +
+    'and second reading speeches. With provision_ref, returns the clause-by-clause note(s) explaining that section ' +
+    '(including notes on later amending Bills), for use in purposive interpretation under s 15AB of the ' +
+    'Acts Interpretation Act 1901. Without provision_ref, returns the general part of each work ' +
+    '(outline, second reading speech text). Only material imported into this database is covered.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier (Act title, abbreviation, or internal ID).',
+      },
+      provision_ref: {
+        type: 'string',
+        description: 'Optional: provision reference (e.g., "s13" or "13") to get its clause note.',
+      },
+      work_type: {
+        type: 'string',
+        enum: ['explanatory_memorandum', 'explanatory_statement', 'second_reading_speech'],
+        description: 'Optional: restrict to one kind of material.',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum segments to return (default: 20, max: 100).',
+        default: 20,
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const GET_PENALTIES_TOOL: Tool = {
+  name: 'get_penalties',
+  description:
+    'List offence and civil penalty provisions in Australian statutes with structured penalty data: ' +
+    'penalty units, maximum imprisonment, and the body corporate amount or multiplier where the provision states one. ' +
+    'Penalty units are converted to dollars at the Commonwealth penalty unit value (Crimes Act 1914 s 4AA) ' +
+    'in force on as_of_date (default: today). Filter by Act, by keyword (e.g., "data breach"), or by penalty type. ' +
+    'Where no body corporate amount is stated, Crimes Act 1914 s 4B(3) generally allows a court to impose up to ' +
+    '5 times the individual maximum for an offence; this is not applied to the figures returned.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Optional: statute identifier (Act title, abbreviation, or internal ID).',
+      },
+      query: {
+        type: 'string',
+        description: 'Optional: keywords matched against the provision text (e.g., "unauthorised disclosure").',
+      },
+      penalty_type: {
+        type: 'string',
+        enum: ['offence', 'civil_penalty'],
+        description: 'Optional: criminal offences or civil penalty provisions only.',
+      },
+      as_of_date: {
+        type: 'string',
+        description: 'Optional: ISO date (YYYY-MM-DD) whose penalty unit value is used for dollar amounts.',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum penalties to return (default: 20, max: 100).',
+        default: 20,
+      },
+    },
+  },
+};
+
+const GET_DOCUMENT_OUTLINE_TOOL: Tool = {
+  name: 'get_document_outline',
+  description:
+    'Get the table of contents of an Australian statute or instrument: its Schedule, Chapter, Part, Division and ' +
+    'Subdivision headings as a tree, each with its first and last section and the number of sections under it. ' +
+    'Use this to orient yourself in a large Act (e.g., the Corporations Act 2001) before retrieving sections with get_provision.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier (Act title, abbreviation, or internal ID).',
+      },
+      max_depth: {
+        type: 'number',
+        description: 'Optional: heading levels to return (1 = top level only). Counts always include the whole subtree.',
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const GET_AMENDMENT_HISTORY_TOOL: Tool = {
+  name: 'get_amendment_history',
+  description:
+    'Get the amendment history of an Australian statute or one of its provisions, from the endnotes of the current compilation. ' +
+    'Each event gives the action (ad = added, am = amended, rs = repealed and substituted, rep = repealed), ' +
+    'the amending Act (e.g., "No 197, 2012") with its title, assent date and, where a single date applies, its commencement date. ' +
+    'Repealed provisions keep their history. Use this to find which Act changed a provision and when; ' +
+    'use diff_provision to compare the text itself.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier (Act title, abbreviation, or internal ID).',
+      },
+      provision_ref: {
+        type: 'string',
+        description: 'Optional: provision (e.g., "s 6", "26WE", "Sch 1 cl 3") or heading (e.g., "Part IIIC"). Omit for the whole statute.',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum events to return (default: 100, max: 500).',
+        default: 100,
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const GET_COMMENCEMENT_TOOL: Tool = {
+  name: 'get_commencement',
+  description:
+    'Get when an Australian Act, or one of its provisions, commenced, from the commencement table in section 2 of the Act. ' +
+    'Each item gives the provisions it covers, how they commence (e.g., "The day after this Act receives the Royal Assent.") ' +
+    'and the date, where the table records a single date; otherwise commencement_date is null and a note says so. ' +
+    'With provision_ref, returns the item covering that provision. Provisions inserted by amending Acts are not in the table; ' +
+    'use get_amendment_history for those.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier (Act title, abbreviation, or internal ID).',
+      },
+      provision_ref: {
+        type: 'string',
+        description: 'Optional: provision reference (e.g., "s 6", "26WE", "Sch 1 cl 3"). Omit for the whole table.',
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const GET_SUBORDINATE_INSTRUMENTS_TOOL: Tool = {
+  name: 'get_subordinate_instruments',
+  description:
+    'List the legislative instruments (regulations, rules, determinations) made under an Australian Act, ' +
+    'e.g. every instrument made under the Security of Critical Infrastructure Act 2018. ' +
+    'The enabling Act is taken from the instrument\'s authority provision ("This instrument is made under ..."). ' +
+    'Given an instrument instead of an Act, returns its enabling Act in the metadata note.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Enabling Act identifier (Act title, abbreviation, or internal ID).',
+      },
+      status: {
+        type: 'string',
+        enum: ['in_force', 'amended', 'repealed'],
+        description: 'Optional: filter instruments by status.',
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const DIFF_PROVISION_TOOL: Tool = {
+  name: 'diff_provision',
+  description:
+    'Compare an Australian statute provision between two compilations (point-in-time versions). ' +
+    'Returns a word-level diff as inserted, deleted, and unchanged segments. ' +
+    'Each side is given as a date (from_date/to_date) or a compilation number (from_compilation/to_compilation); ' +
+    'by default compares the previous compilation with the current one. ' +
+    'Omit provision_ref for an Act-level summary listing sections added, removed, or changed, ' +
+    'page_size sections at a time; when more changed, _metadata.next_cursor fetches the next page. ' +
+    'Requires historical compilations in the database.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Statute identifier (Act title, abbreviation, or ID).',
+      },
+      provision_ref: {
+        type: 'string',
+        description: 'Optional: provision to diff (e.g., "s 30", "30", "Sch 1 cl 3"). Omit for an Act-level summary.',
+      },
+      from_date: { type: 'string', description: 'Optional: earlier date (YYYY-MM-DD).' },
+      to_date: { type: 'string', description: 'Optional: later date (YYYY-MM-DD).' },
+      from_compilation: { type: 'string', description: 'Optional: earlier compilation number (alternative to from_date).' },
+      to_compilation: { type: 'string', description: 'Optional: later compilation number (alternative to to_date).' },
+      page_size: {
+        type: 'number',
+        description: 'Act-level summary: sections added, removed or changed per page (default: 50, max: 500).',
+        default: 50,
+      },
+      cursor: {
+        type: 'string',
+        description: 'Act-level summary: _metadata.next_cursor from the previous page, to fetch the next one.',
+      },
+    },
+    required: ['document_id'],
+  },
+};
+
+const CROSS_REFERENCE_TOOLS: Tool[] = [
+  {
+    name: 'get_cross_references',
+    description:
+      'List what an Australian statute provision cites: other sections of the same Act ' +
+      '(e.g., "section 13", "subsection 6(1)", "Part IIIC") and other Acts ("the Corporations Act 2001"). ' +
+      'References are extracted from provision text at build time and resolved to document IDs and provision refs. ' +
+      'Omit provision_ref to list every outgoing reference in the statute. ' +
+      'For the reverse direction (what cites a provision), use get_citing_provisions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Statute identifier (Act title, abbreviation, or ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: citing provision (e.g., "s 13", "13", "Sch 1 cl 3").',
+        },
+        ref_type: {
+          type: 'string',
+          enum: ['references', 'amended_by', 'implements', 'see_also'],
+          description: 'Optional: filter by reference type.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 50, max: 500).',
+          default: 50,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+  {
+    name: 'get_citing_provisions',
+    description:
+      'Reverse citation lookup: find every provision that cites a given provision or statute, ' +
+      'both within the same Act and from other Acts. ' +
+      'Use this to answer "what else relies on s 6 of the Privacy Act?". ' +
+      'Accepts a provision ("s 6", "6", "r 5") or a Part ("Part IIIC") as provision_ref; omit it to find all citations of the statute.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        document_id: {
+          type: 'string',
+          description: 'Cited statute identifier (Act title, abbreviation, or ID).',
+        },
+        provision_ref: {
+          type: 'string',
+          description: 'Optional: cited provision (e.g., "s 6", "6", "APP 6") or Part (e.g., "Part IIIC").',
+        },
+        ref_type: {
+          type: 'string',
+          enum: ['references', 'amended_by', 'implements', 'see_also'],
+          description: 'Optional: filter by reference type.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results (default: 50, max: 500).',
+          default: 50,
+        },
+      },
+      required: ['document_id'],
+    },
+  },
+];
+
+// Tools backed by optional tables; registered only when the database provides the capability
+const CAPABILITY_TOOLS: Array<{ capability: Capability; tools: Tool[] }> = [
+  { capability: 'case_law', tools: CASE_LAW_TOOLS },
+  { capability: 'preparatory_works', tools: [GET_PREPARATORY_WORKS_TOOL] },
+  { capability: 'penalties', tools: [GET_PENALTIES_TOOL] },
+  { capability: 'document_outline', tools: [GET_DOCUMENT_OUTLINE_TOOL] },
+  { capability: 'amendment_history', tools: [GET_AMENDMENT_HISTORY_TOOL] },
+  { capability: 'commencement', tools: [GET_COMMENCEMENT_TOOL] },
+  { capability: 'subordinate_instruments', tools: [GET_SUBORDINATE_INSTRUMENTS_TOOL] },
+  { capability: 'historical_versions', tools: [DIFF_PROVISION_TOOL] },
+  { capability: 'cross_references', tools: CROSS_REFERENCE_TOOLS },
+];
+
 export const TOOLS: Tool[] = [
   {
     name: 'search_legislation',
     description:
       'Search Australian statutes and regulations by keyword using full-text search (FTS5 with BM25 ranking). ' +
       'Returns matching provisions with document context, snippets with >>> <<< markers around matched terms, and relevance scores. ' +
-      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), and prefix wildcards (term*). ' +
-      'Results are in English. Default limit is 10 results. For broad topics, increase the limit. ' +
+      'Supports FTS5 syntax: quoted phrases ("exact match"), boolean operators (AND, OR, NOT), prefix wildcards (term*) ' +
+      'and proximity (NEAR(breach notify, 10)). Terms can be scoped to a field: title:breach (section title), ' +
+      'act:"Privacy Act" (Act title) or text:consent (provision text). ' +
+      'Ranking weights section-title matches above matches in the text; field_weights adjusts this. ' +
+      'For broad queries, set facets to get hit counts by Act, status, decade and Part, then narrow with ' +
+      'document_id, status, year_from/year_to or chapter. ' +
+      'Results are in English. Default page_size is 10 results (max 50); when more match, _metadata.next_cursor ' +
+      'is returned; pass it as cursor with the same query for the next page. ' +
+      'Acronyms, US spellings and everyday terms are searched together with the statutory wording ("NDB" with "notifiable data breach", ' +
+      '"organization" with "organisation"); _metadata.expanded_terms lists any expansion behind the hits. ' +
+      'When the words find nothing, other forms of the words are matched (e.g., "penalties" finds "penalty"). ' +
+      'Notes, Examples and editorial notes are not operative law and are not searched unless include_notes is set. ' +
       'Do NOT use this for retrieving a known provision — use get_provision instead.',
     inputSchema: {
       type: 'object',
@@ -62,7 +505,8 @@ export const TOOLS: Tool[] = [
           type: 'string',
           description:
             'Search query in English. Supports FTS5 syntax: ' +
-            '"personal information" for exact phrase, privacy* for prefix.',
+            '"personal information" for exact phrase, privacy* for prefix, NEAR(data breach, 5) for proximity, ' +
+            'and title:, act: and text: field scopes (e.g., title:breach act:"Privacy Act").',
         },
         document_id: {
           type: 'string',
@@ -73,11 +517,70 @@ export const TOOLS: Tool[] = [
           enum: ['in_force', 'amended', 'repealed'],
           description: 'Optional: filter by legislative status.',
         },
-        limit: {
+        document_type: {
+          type: 'string',
+          enum: ['statute', 'legislative_instrument'],
+          description:
+            'Optional: "statute" for Acts only, "legislative_instrument" for regulations, rules and determinations only.',
+        },
+        as_of_date: {
+          type: 'string',
+          description:
+            'Optional: ISO date (YYYY-MM-DD). Search the text in force on that date, ' +
+            'including provisions since amended or repealed.',
+        },
+        include_notes: {
+          type: 'boolean',
+          description:
+            'Optional: also search Notes, Examples and editorial notes. Matches in them are marked ' +
+            'non_operative with their note_kind (default: false).',
+          default: false,
+        },
+        year_from: {
+          type: 'number',
+          description: 'Optional: only Acts and instruments of this year or later (the year in the title, e.g., 1988).',
+        },
+        year_to: {
           type: 'number',
-          description: 'Maximum results to return (default: 10, max: 50).',
+          description: 'Optional: only Acts and instruments of this year or earlier.',
+        },
+        chapter: {
+          type: 'string',
+          description:
+            'Optional: only provisions under this Chapter, Part, Division or Schedule ' +
+            '(e.g., "Part IIIC", or a heading as returned in the chapters facet).',
+        },
+        facets: {
+          type: 'boolean',
+          description:
+            'Optional: also return _metadata.facets, hit counts grouped by Act, status, decade of the Act ' +
+            'and top-level Chapter, Part or Schedule (default: false).',
+          default: false,
+        },
+        field_weights: {
+          type: 'object',
+          description:
+            'Optional: bm25 weights per field, 0 to 100 (default: content 1, title 4, act_title 1.5). ' +
+            'Raise act_title to favour provisions of Acts whose title matches.',
+          properties: {
+            content: { type: 'number' },
+            title: { type: 'number' },
+            act_title: { type: 'number' },
+          },
+        },
+        page_size: {
+          type: 'number',
+          description: 'Results per page (default: 10, max: 50).',
           default: 10,
         },
+        cursor: {
+          type: 'string',
+          description: 'Optional: _metadata.next_cursor from the previous page of the same search.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Deprecated alias for page_size.',
+        },
       },
       required: ['query'],
     },
@@ -87,8 +590,23 @@ export const TOOLS: Tool[] = [
     description:
       'Retrieve the full text of a specific provision (section) from an Australian statute. ' +
       'Specify a document_id (Act title, abbreviation, or internal ID) and optionally a section or provision_ref. ' +
-      'Omit section/provision_ref to get ALL provisions in the statute (use sparingly — can be large). ' +
+      'Omit section/provision_ref to read the whole statute in document order, page_size provisions at a time ' +
+      '(default 20, max 100); pass _metadata.next_cursor back as cursor for the next page. ' +
+      'To read a whole Part or Division in order, pass part (e.g., "IIIC"), division (e.g., "2 of Part IIIC") ' +
+      'or a heading_ref from get_document_outline instead of a section. ' +
       'Returns provision text, chapter, section number, and metadata. ' +
+      'Content is the operative text only; Notes, Examples and editorial notes are returned in a separate notes array, ' +
+      'each marked non_operative. ' +
+      'A pinpoint such as "s 26WE(2)(b)" returns just that subsection, paragraph or subparagraph, ' +
+      'with its parent chain (section heading and enclosing lead-in text) for context. ' +
+      'Schedule provisions are addressed as "APP 1", "Sch 1 cl 3" or "Sch 2 s 18" (Australian Consumer Law). ' +
+      'Pass as_of_date to get the text in force on a past date (point-in-time compilations). ' +
+      'A note warns when the section asked for has been repealed, has not commenced, or has an amendment pending. ' +
+      'Each result gives content_length. For a single provision, content longer than max_chars (default 20000) ' +
+      'is cut and marked truncated, with next_offset to pass as offset (a character offset) for the rest; ' +
+      'a page of several provisions shares max_chars and ends before the provision that would overrun it. ' +
+      'Set format to "plain", "markdown" or "html" to keep the layout of the Act (numbered subsections and paragraphs ' +
+      'on their own indented lines, notes, examples and tables); by default content is a single line. ' +
       'Supports Act title references (e.g., "Privacy Act 1988"), abbreviations, and full titles. ' +
       'Use this when you know WHICH provision you want. For discovery, use search_legislation instead.',
     inputSchema: {
@@ -102,11 +620,55 @@ export const TOOLS: Tool[] = [
         },
         section: {
           type: 'string',
-          description: 'Section number (e.g., "13", "8"). Omit to get all provisions.',
+          description: 'Section number or pinpoint (e.g., "13", "26WE(2)(b)", "APP 1", "Sch 2 s 18"). Omit to get all provisions.',
         },
         provision_ref: {
           type: 'string',
-          description: 'Direct provision reference (e.g., "s13"). Alternative to section parameter.',
+          description: 'Direct provision reference (e.g., "s13", "s 26WE(2)(b)", "sch1-app1"). Alternative to section parameter.',
+        },
+        part: {
+          type: 'string',
+          description: 'Optional: return every section in this Part (e.g., "IIIC", "Part 5"). Arabic numbers also match roman-numbered Parts.',
+        },
+        division: {
+          type: 'string',
+          description: 'Optional: return every section in this Division (e.g., "2", or "2 of Part IIIC" where Division numbers repeat).',
+        },
+        heading_ref: {
+          type: 'string',
+          description: 'Optional: heading reference from get_document_outline (e.g., "ptiiic/div2").',
+        },
+        as_of_date: {
+          type: 'string',
+          description:
+            'Optional: ISO date (YYYY-MM-DD). Return the text as it stood on that date ' +
+            '(e.g., the date of an incident) instead of the current compilation.',
+        },
+        format: {
+          type: 'string',
+          enum: ['plain', 'markdown', 'html'],
+          description: 'Optional: render content with its layout (indentation, notes, examples, tables) as plain text, Markdown or HTML.',
+        },
+        offset: {
+          type: 'number',
+          description:
+            'Optional: character offset into the content of a single requested provision, for reading a long provision in parts ' +
+            '(default: 0). Not the same as cursor, which pages through provisions.',
+          default: 0,
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional: maximum characters of content for a single provision, or for a whole page of provisions (default: 20000).',
+          default: 20000,
+        },
+        page_size: {
+          type: 'number',
+          description: 'Optional: provisions per page when reading a whole statute, Part or Division (default: 20, max: 100).',
+          default: 20,
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: _metadata.next_cursor from the previous page of the same request.',
         },
       },
       required: ['document_id'],
@@ -117,14 +679,17 @@ export const TOOLS: Tool[] = [
     description:
       'Validate an Australian legal citation against the database — zero-hallucination check. ' +
       'Parses the citation, checks that the document and provision exist, and returns warnings about status ' +
-      '(repealed, amended). Use this to verify any citation BEFORE including it in a legal analysis. ' +
-      'Supports formats: "Section 13 Privacy Act 1988", "Privacy Act 1988 s 13", "s 13".',
+      '(repealed, amended), including a cited section that has been repealed or has an amendment pending. Use this to verify any citation BEFORE including it in a legal analysis. ' +
+      'Supports formats: "Section 13 Privacy Act 1988", "Privacy Act 1988 s 13", "s 13", ' +
+      'pinpoints below section level such as "Privacy Act 1988 s 26WE(2)(b)", ' +
+      'dotted and hyphenated section numbers such as "Criminal Code s 476.2" or "Income Tax Assessment Act 1997 s 995-1", ' +
+      'and schedule provisions such as "Privacy Act 1988 Sch 1 cl 1" or "APP 1".',
     inputSchema: {
       type: 'object',
       properties: {
         citation: {
           type: 'string',
-          description: 'Citation string to validate. Examples: "Section 13 Privacy Act 1988", "Privacy Act 1988 s 13".',
+          description: 'Citation string to validate. Examples: "Section 13 Privacy Act 1988", "Privacy Act 1988 s 26WE(2)(b)".',
         },
       },
       required: ['citation'],
@@ -136,7 +701,8 @@ export const TOOLS: Tool[] = [
       'Build a comprehensive set of citations for a legal question by searching across all Australian statutes simultaneously. ' +
       'Returns aggregated results from multiple relevant provisions, useful for legal research on a topic. ' +
       'Use this for broad legal questions like "What are the penalties for data breaches in Australia?" ' +
-      'rather than looking up a specific known provision.',
+      'rather than looking up a specific known provision. ' +
+      'Provisions that state a penalty include it (penalty units, imprisonment, dollar amounts at today\'s penalty unit value).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -182,6 +748,9 @@ export const TOOLS: Tool[] = [
     description:
       'Check whether an Australian statute or provision is currently in force, amended, repealed, or not yet in force. ' +
       'Returns the document status, issued date, in-force date, and warnings. ' +
+      'With provision_ref, also the provision\'s own status: repealed sections ("6A Repealed"), sections not yet commenced, ' +
+      'and amendments listed in the endnotes that take effect after the compilation date, and the commencement table item covering it. ' +
+      'in_force_date is null, with a warning, where the register gives no date. ' +
       'Essential before citing any provision — always verify currency.',
     inputSchema: {
       type: 'object',
@@ -192,7 +761,13 @@ export const TOOLS: Tool[] = [
         },
         provision_ref: {
           type: 'string',
-          description: 'Optional: provision reference to check a specific section.',
+          description: 'Optional: provision reference to check a specific section (e.g., "s 6A", "26WE(2)").',
+        },
+        as_of_date: {
+          type: 'string',
+          description:
+            'Optional: ISO date (YYYY-MM-DD). Report the compilation in force on that date ' +
+            'and whether the provision was in force then, with its warnings as at that date.',
         },
       },
       required: ['document_id'],
@@ -308,10 +883,15 @@ export function buildTools(
   if (db) {
     try {
       db.prepare('SELECT 1 FROM definitions LIMIT 1').get();
-      // Could add a get_definitions tool here when definitions table exists
+      tools.push(GET_DEFINITIONS_TOOL);
     } catch {
       // definitions table doesn't exist
     }
+
+    const caps = detectCapabilities(db);
+    for (const { capability, tools: capabilityTools } of CAPABILITY_TOOLS) {
+      if (caps.has(capability)) tools.push(...capabilityTools);
+    }
   }
 
   if (context) {
@@ -327,6 +907,7 @@ export function registerTools(
   context?: AboutContext,
 ): void {
   const allTools = buildTools(db, context);
+  const caps = detectCapabilities(db);
 
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return { tools: allTools };
@@ -335,6 +916,14 @@ export function registerTools(
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
 
+    const gated = CAPABILITY_TOOLS.find(entry => entry.tools.some(t => t.name === name));
+    if (gated && !caps.has(gated.capability)) {
+      return {
+        content: [{ type: 'text' as const, text: upgradeMessage(name) }],
+        isError: true,
+      };
+    }
+
     try {
       let result: unknown;
 
@@ -345,6 +934,9 @@ export function registerTools(
         case 'get_provision':
           result = await getProvision(db, args as unknown as GetProvisionInput);
           break;
+        case 'diff_provision':
+          result = await diffProvision(db, args as unknown as DiffProvisionInput);
+          break;
         case 'validate_citation':
           result = await validateCitationTool(db, args as unknown as ValidateCitationInput);
           break;
@@ -357,6 +949,15 @@ export function registerTools(
         case 'check_currency':
           result = await checkCurrency(db, args as unknown as CheckCurrencyInput);
           break;
+        case 'get_cross_references':
+          result = await getCrossReferences(db, args as unknown as GetCrossReferencesInput);
+          break;
+        case 'get_citing_provisions':
+          result = await getCitingProvisions(db, args as unknown as GetCitingProvisionsInput);
+          break;
+        case 'get_subordinate_instruments':
+          result = await getSubordinateInstruments(db, args as unknown as GetSubordinateInstrumentsInput);
+          break;
         case 'get_eu_basis':
           result = await getEUBasis(db, args as unknown as GetEUBasisInput);
           break;
@@ -372,6 +973,33 @@ export function registerTools(
         case 'validate_eu_compliance':
           result = await validateEUCompliance(db, args as unknown as ValidateEUComplianceInput);
           break;
+        case 'search_case_law':
+          result = await searchCaseLaw(db, args as unknown as SearchCaseLawInput);
+          break;
+        case 'get_case':
+          result = await getCase(db, args as unknown as GetCaseInput);
+          break;
+        case 'get_cases_citing_provision':
+          result = await getCasesCitingProvision(db, args as unknown as GetCasesCitingProvisionInput);
+          break;
+        case 'get_preparatory_works':
+          result = await getPreparatoryWorks(db, args as unknown as GetPreparatoryWorksInput);
+          break;
+        case 'get_document_outline':
+          result = await getDocumentOutline(db, args as unknown as GetDocumentOutlineInput);
+          break;
+        case 'get_penalties':
+          result = await getPenalties(db, args as unknown as GetPenaltiesInput);
+          break;
+        case 'get_amendment_history':
+          result = await getAmendmentHistory(db, args as unknown as GetAmendmentHistoryInput);
+          break;
+        case 'get_commencement':
+          result = await getCommencement(db, args as unknown as GetCommencementInput);
+          break;
+        case 'get_definitions':
+          result = await getDefinitions(db, args as unknown as GetDefinitionsInput);
+          break;
         case 'list_sources':
           result = await listSources(db);
           break;
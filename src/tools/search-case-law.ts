@@ -0,0 +1,137 @@
+/**
+ * search_case_law — Full-text search across judgment paragraphs and catchwords.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import { buildFtsQueryVariants, sanitizeFtsInput } from '../utils/fts-query.js';
+import { normalizeAsOfDate } from '../utils/as-of-date.js';
+import { generateCaseLawMetadata, type ToolResponse } from '../utils/metadata.js';
+
+export interface SearchCaseLawInput {
+  query: string;
+  court?: string;
+  date_from?: string;
+  date_to?: string;
+  limit?: number;
+}
+
+export interface CaseSearchResult {
+  case_id: string;
+  citation: string;
+  case_name: string;
+  court: string;
+  decision_date: string | null;
+  paragraph_number: number | null;
+  snippet: string;
+  relevance: number;
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+export async function searchCaseLaw(
+  db: InstanceType<typeof Database>,
+  input: SearchCaseLawInput,
+): Promise<ToolResponse<CaseSearchResult[]>> {
+  if (!input.query || input.query.trim().length === 0) {
+    return { results: [], _metadata: generateCaseLawMetadata(db) };
+  }
+
+  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+
+  const filters: string[] = [];
+  const filterParams: string[] = [];
+  if (input.court) {
+    // Court code ("HCA") or part of the court name ("High Court")
+    filters.push('(c.court_code = ? COLLATE NOCASE OR c.court LIKE ?)');
+    filterParams.push(input.court.trim(), `%${input.court.trim()}%`);
+  }
+  for (const [value, op] of [[input.date_from, '>='], [input.date_to, '<=']] as const) {
+    if (!value) continue;
+    const date = normalizeAsOfDate(value);
+    if (!date) {
+      return {
+        results: [],
+        _metadata: {
+          ...generateCaseLawMetadata(db),
+          note: `Invalid date "${value}". Use ISO 8601 format (YYYY-MM-DD).`,
+        },
+      };
+    }
+    filters.push(`c.decision_date ${op} ?`);
+    filterParams.push(date);
+  }
+  const filterSql = filters.map(f => ` AND ${f}`).join('');
+
+  for (const { query: ftsQuery } of queryVariants) {
+    // Paragraph hits carry a pinpoint; catchword hits describe the case as a
+    // whole and are weighted up so that on-topic cases outrank passing mentions.
+    const sql = `
+      SELECT * FROM (
+        SELECT
+          c.id as case_id,
+          c.citation,
+          c.case_name,
+          c.court,
+          c.decision_date,
+          p.paragraph_number,
+          snippet(case_law_paragraphs_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+          bm25(case_law_paragraphs_fts) as relevance
+        FROM case_law_paragraphs_fts
+        JOIN case_law_paragraphs p ON p.id = case_law_paragraphs_fts.rowid
+        JOIN case_law c ON c.id = p.case_id
+        WHERE case_law_paragraphs_fts MATCH ?${filterSql}
+        UNION ALL
+        SELECT
+          c.id as case_id,
+          c.citation,
+          c.case_name,
+          c.court,
+          c.decision_date,
+          NULL as paragraph_number,
+          snippet(case_law_fts, 2, '>>>', '<<<', '...', 32) as snippet,
+          bm25(case_law_fts, 0.0, 10.0, 5.0) as relevance
+        FROM case_law_fts
+        JOIN case_law c ON c.id = case_law_fts.case_id
+        WHERE case_law_fts MATCH ?${filterSql}
+      )
+      ORDER BY relevance
+      LIMIT ?
+    `;
+
+    try {
+      const rows = db.prepare(sql).all(
+        ftsQuery, ...filterParams, ftsQuery, ...filterParams, limit * 5,
+      ) as CaseSearchResult[];
+      if (rows.length > 0) {
+        return {
+          results: bestPerCase(rows).slice(0, limit),
+          _metadata: {
+            ...generateCaseLawMetadata(db),
+            ...(ftsQuery !== queryVariants[0].query ? { query_strategy: 'broadened' } : {}),
+          },
+        };
+      }
+    } catch {
+      // FTS query syntax error — try next variant
+      continue;
+    }
+  }
+
+  return { results: [], _metadata: generateCaseLawMetadata(db) };
+}
+
+/**
+ * Keep the best-ranked hit for each judgment (rows arrive sorted by relevance).
+ */
+function bestPerCase(rows: CaseSearchResult[]): CaseSearchResult[] {
+  const seen = new Set<string>();
+  const results: CaseSearchResult[] = [];
+  for (const row of rows) {
+    if (seen.has(row.case_id)) continue;
+    seen.add(row.case_id);
+    results.push(row);
+  }
+  return results;
+}
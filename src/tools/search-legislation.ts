@@ -1,30 +1,61 @@
 /**
- * search_legislation — Full-text search across Australian statute provisions.
+ * search_legislation — Full-text search across provisions of Australian Acts and legislative instruments.
  */
 
 import type Database from '@ansvar/mcp-sqlite';
-import { buildFtsQueryVariants, buildLikePattern, sanitizeFtsInput } from '../utils/fts-query.js';
+import {
+  buildFtsQueryVariants,
+  buildLikePattern,
+  parseFieldScopes,
+  PROVISION_FTS_TABLES,
+  provisionBm25,
+  sanitizeFtsInput,
+  type FieldWeights,
+} from '../utils/fts-query.js';
 import { normalizeAsOfDate } from '../utils/as-of-date.js';
 import { resolveDocumentId } from '../utils/statute-id.js';
+import { findQueryExpansions } from '../utils/thesaurus.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import {
+  ACT_YEAR_SQL,
+  aggregateFacets,
+  chapterFilter,
+  FACET_SCAN_LIMIT,
+  type FacetRow,
+} from '../utils/search-facets.js';
+import { cursorKey, decodeCursor, encodeCursor, INVALID_CURSOR_NOTE } from '../utils/cursor.js';
+import { detectCapabilities } from '../capabilities.js';
 
 export interface SearchLegislationInput {
   query: string;
   document_id?: string;
   status?: string;
+  document_type?: 'statute' | 'legislative_instrument';
   as_of_date?: string;
+  include_notes?: boolean;
+  field_weights?: Partial<FieldWeights>;
+  year_from?: number;
+  year_to?: number;
+  chapter?: string;
+  facets?: boolean;
   limit?: number;
+  page_size?: number;
+  cursor?: string;
 }
 
 export interface SearchLegislationResult {
   document_id: string;
   document_title: string;
+  document_type: string;
   provision_ref: string;
   chapter: string | null;
   section: string;
   title: string | null;
   snippet: string;
   relevance: number;
+  /** Set on matches in a Note, Example or editorial note rather than the provision text */
+  note_kind?: 'note' | 'example' | 'editorial';
+  non_operative?: true;
 }
 
 const DEFAULT_LIMIT = 10;
@@ -38,10 +69,37 @@ export async function searchLegislation(
     return { results: [], _metadata: generateResponseMetadata(db) };
   }
 
-  const limit = Math.min(Math.max(input.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
-  // Fetch extra rows to account for deduplication
-  const fetchLimit = limit * 2;
-  const queryVariants = buildFtsQueryVariants(sanitizeFtsInput(input.query));
+  const pageSize = Math.min(Math.max(Math.floor(input.page_size ?? input.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+  const capabilities = detectCapabilities(db);
+  // title:, act: and text: scope terms to the section title, the Act title or the text
+  const { text, scopes } = parseFieldScopes(input.query);
+  const sanitized = sanitizeFtsInput(text);
+  const expansions = findQueryExpansions(db, sanitized);
+  const queryVariants = buildFtsQueryVariants(sanitized, {
+    stemmedIndex: capabilities.has('stemmed_search'),
+    expansions,
+    scopes,
+  });
+  const scoped = scopes.length > 0;
+  if (scopes.some(scope => scope.field === 'act') && !capabilities.has('act_title_search')) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'act: scopes need Act titles in the search index, which this database (built before schema version 3) lacks. ' +
+          'Use document_id to search one Act instead.',
+      },
+    };
+  }
+  if (scoped && queryVariants.length === 0) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: 'A field scope after NOT only excludes provisions; add other search terms for it to exclude from.',
+      },
+    };
+  }
 
   // Resolve document_id from title if provided (same resolution as get_provision)
   let resolvedDocId: string | undefined;
@@ -59,64 +117,225 @@ export async function searchLegislation(
     }
   }
 
+  // Point-in-time search: current texts already in force on the date, plus
+  // superseded texts whose validity range covers it.
+  const asOfDate = normalizeAsOfDate(input.as_of_date);
+  if (input.as_of_date && !asOfDate) {
+    return {
+      results: [],
+      _metadata: {
+        ...generateResponseMetadata(db),
+        note: `Invalid as_of_date "${input.as_of_date}". Use ISO 8601 format (YYYY-MM-DD).`,
+      },
+    };
+  }
+  for (const [name, year] of [['year_from', input.year_from], ['year_to', input.year_to]] as const) {
+    if (year !== undefined && !Number.isInteger(year)) {
+      return {
+        results: [],
+        _metadata: { ...generateResponseMetadata(db), note: `Invalid ${name} "${year}". Use a four-digit year.` },
+      };
+    }
+  }
+
+  // Later pages repeat the search in the same tier and order as the first,
+  // reading on from the row after the last one returned
+  const key = cursorKey(db, 'search_legislation', {
+    ...input, limit: undefined, page_size: undefined, cursor: undefined, facets: undefined,
+  });
+  const position = input.cursor ? decodeCursor(input.cursor, key) : { offset: 0 };
+  if (!position) {
+    return { results: [], _metadata: { ...generateResponseMetadata(db), note: INVALID_CURSOR_NOTE } };
+  }
+  // Filters on the document and its headings, shared by every branch; alias
+  // is the table holding document_id and the chapter breadcrumb
+  const documentFilters = (alias: string): { sql: string; params: (string | number)[] } => {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+    if (resolvedDocId) {
+      clauses.push(`${alias}.document_id = ?`);
+      params.push(resolvedDocId);
+    }
+    if (input.status) {
+      clauses.push('ld.status = ?');
+      params.push(input.status);
+    }
+    if (input.document_type) {
+      clauses.push('ld.type = ?');
+      params.push(input.document_type);
+    }
+    if (input.year_from !== undefined) {
+      clauses.push(`${ACT_YEAR_SQL} >= ?`);
+      params.push(input.year_from);
+    }
+    if (input.year_to !== undefined) {
+      clauses.push(`${ACT_YEAR_SQL} <= ?`);
+      params.push(input.year_to);
+    }
+    if (input.chapter) {
+      const filter = chapterFilter(`${alias}.chapter`, input.chapter);
+      clauses.push(filter.sql);
+      params.push(...filter.params);
+    }
+    return { sql: clauses.map(clause => ` AND ${clause}`).join(''), params };
+  };
+
+  // Superseded texts and notes have no title columns, so field-scoped searches leave them out
+  const searchHistory = asOfDate !== null && !scoped && capabilities.has('historical_versions');
+  const asOfMetadata = asOfDate ? { as_of_date: asOfDate } : {};
+
+  // Notes are kept out of the provision index; include_notes searches them as well
+  const searchNotes = input.include_notes === true && !scoped && capabilities.has('provision_notes');
+  const notes: string[] = [];
+  if (input.include_notes && !capabilities.has('provision_notes')) {
+    notes.push('Notes are not stored separately in this database; they are searched as part of the provision text.');
+  }
+  if (scoped && (input.include_notes || (asOfDate && capabilities.has('historical_versions')))) {
+    notes.push('Field-scoped searches cover the current provision text only; notes and superseded texts are not searched.');
+  }
+  const notesMetadata = notes.length > 0 ? { note: notes.join(' ') } : {};
+  const noteColumn = searchNotes ? ', NULL as note_kind' : '';
+
   let queryStrategy = 'none';
-  for (const ftsQuery of queryVariants) {
+  let syntaxErrors = 0;
+  for (const [tier, variant] of queryVariants.entries()) {
+    if (position.tier !== undefined && position.tier !== tier) continue;
+    const ftsQuery = variant.query;
+    const ftsTable = PROVISION_FTS_TABLES[variant.index];
     let sql = `
       SELECT
         lp.document_id,
         ld.title as document_title,
+        ld.type as document_type,
         lp.provision_ref,
         lp.chapter,
         lp.section,
         lp.title,
-        snippet(provisions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
-        bm25(provisions_fts) as relevance
-      FROM provisions_fts
-      JOIN legal_provisions lp ON lp.id = provisions_fts.rowid
+        snippet(${ftsTable}, 0, '>>>', '<<<', '...', 32) as snippet,
+        ${provisionBm25(ftsTable, input.field_weights)} as relevance${noteColumn}
+      FROM ${ftsTable}
+      JOIN legal_provisions lp ON lp.id = ${ftsTable}.rowid
       JOIN legal_documents ld ON ld.id = lp.document_id
-      WHERE provisions_fts MATCH ?
+      WHERE ${ftsTable} MATCH ?
     `;
     const params: (string | number)[] = [ftsQuery];
 
-    if (resolvedDocId) {
-      sql += ' AND lp.document_id = ?';
-      params.push(resolvedDocId);
+    const provisionFilters = documentFilters('lp');
+    if (asOfDate) {
+      provisionFilters.sql += ' AND (lp.valid_from IS NULL OR lp.valid_from <= ?)';
+      provisionFilters.params.push(asOfDate);
     }
+    sql += provisionFilters.sql;
+    params.push(...provisionFilters.params);
 
-    if (input.status) {
-      sql += ' AND ld.status = ?';
-      params.push(input.status);
+    if (searchHistory) {
+      sql += `
+        UNION ALL
+        SELECT
+          pv.document_id,
+          ld.title as document_title,
+          ld.type as document_type,
+          pv.provision_ref,
+          pv.chapter,
+          pv.section,
+          pv.title,
+          snippet(provision_versions_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+          bm25(provision_versions_fts) as relevance${noteColumn}
+        FROM provision_versions_fts
+        JOIN provision_versions pv ON pv.id = provision_versions_fts.rowid
+        JOIN legal_documents ld ON ld.id = pv.document_id
+        WHERE provision_versions_fts MATCH ? AND pv.valid_from <= ? AND pv.valid_to > ?
+      `;
+      params.push(ftsQuery, asOfDate, asOfDate);
+
+      const versionFilters = documentFilters('pv');
+      sql += versionFilters.sql;
+      params.push(...versionFilters.params);
+    }
+
+    if (searchNotes) {
+      sql += `
+        UNION ALL
+        SELECT
+          pn.document_id,
+          ld.title as document_title,
+          ld.type as document_type,
+          pn.provision_ref,
+          lp.chapter,
+          lp.section,
+          lp.title,
+          snippet(provision_notes_fts, 0, '>>>', '<<<', '...', 32) as snippet,
+          bm25(provision_notes_fts) as relevance,
+          pn.kind as note_kind
+        FROM provision_notes_fts
+        JOIN provision_notes pn ON pn.id = provision_notes_fts.rowid
+        JOIN legal_provisions lp ON lp.document_id = pn.document_id AND lp.provision_ref = pn.provision_ref
+        JOIN legal_documents ld ON ld.id = pn.document_id
+        WHERE provision_notes_fts MATCH ?
+      `;
+      params.push(ftsQuery);
+
+      // The note's provision carries its chapter
+      const noteFilters = documentFilters('lp');
+      sql += noteFilters.sql;
+      params.push(...noteFilters.params);
+
+      if (asOfDate) {
+        sql += ' AND (lp.valid_from IS NULL OR lp.valid_from <= ?)';
+        params.push(asOfDate);
+      }
     }
 
-    sql += ' ORDER BY relevance LIMIT ?';
-    params.push(fetchLimit);
+    sql += ` ORDER BY relevance, document_id, provision_ref${searchNotes ? ', note_kind' : ''} LIMIT ? OFFSET ?`;
 
     try {
-      const rows = db.prepare(sql).all(...params) as SearchLegislationResult[];
-      if (rows.length > 0) {
-        queryStrategy = ftsQuery === queryVariants[0] ? 'exact' : 'fallback';
-        const deduped = deduplicateResults(rows, limit);
+      const statement = db.prepare(sql);
+      const page = readPage(
+        (limit, offset) => (statement.all(...params, limit, offset) as SearchLegislationResult[]).map(markNonOperative),
+        position.offset, pageSize, key, tier,
+      );
+      if (page.results.length > 0) {
+        queryStrategy = tier === 0 ? 'exact' : 'fallback';
+        const facets = input.facets
+          ? aggregateFacets(db.prepare(`
+              SELECT lp.document_id, ld.title as document_title, ld.status, ${ACT_YEAR_SQL} as year, lp.chapter
+              FROM ${ftsTable}
+              JOIN legal_provisions lp ON lp.id = ${ftsTable}.rowid
+              JOIN legal_documents ld ON ld.id = lp.document_id
+              WHERE ${ftsTable} MATCH ?${provisionFilters.sql}
+              LIMIT ?
+            `).all(ftsQuery, ...provisionFilters.params, FACET_SCAN_LIMIT + 1) as FacetRow[])
+          : undefined;
         return {
-          results: deduped,
+          results: page.results,
           _metadata: {
             ...generateResponseMetadata(db),
+            ...asOfMetadata,
+            ...notesMetadata,
+            ...(page.next_cursor ? { next_cursor: page.next_cursor } : {}),
+            ...(facets ? { facets } : {}),
+            fts_index: ftsTable,
             ...(queryStrategy === 'fallback' ? { query_strategy: 'broadened' } : {}),
+            ...(variant.expanded ? { expanded_terms: expansions } : {}),
           },
         };
       }
     } catch {
       // FTS query syntax error — try next variant
+      syntaxErrors++;
       continue;
     }
   }
 
-  // LIKE fallback — final tier when FTS5 returns no results
-  {
-    const likePattern = buildLikePattern(sanitizeFtsInput(input.query));
+  // LIKE fallback — final tier when FTS5 returns no results (field scopes need the index)
+  const likeTier = queryVariants.length;
+  if (!scoped && (position.tier === undefined || position.tier === likeTier)) {
+    const likePattern = buildLikePattern(sanitized);
     let likeSql = `
       SELECT
         lp.document_id,
         ld.title as document_title,
+        ld.type as document_type,
         lp.provision_ref,
         lp.chapter,
         lp.section,
@@ -129,26 +348,31 @@ export async function searchLegislation(
     `;
     const likeParams: (string | number)[] = [likePattern];
 
-    if (resolvedDocId) {
-      likeSql += ' AND lp.document_id = ?';
-      likeParams.push(resolvedDocId);
-    }
+    const likeFilters = documentFilters('lp');
+    likeSql += likeFilters.sql;
+    likeParams.push(...likeFilters.params);
 
-    if (input.status) {
-      likeSql += ' AND ld.status = ?';
-      likeParams.push(input.status);
+    if (asOfDate) {
+      likeSql += ' AND (lp.valid_from IS NULL OR lp.valid_from <= ?)';
+      likeParams.push(asOfDate);
     }
 
-    likeSql += ' LIMIT ?';
-    likeParams.push(fetchLimit);
+    likeSql += ' ORDER BY lp.id LIMIT ? OFFSET ?';
 
     try {
-      const rows = db.prepare(likeSql).all(...likeParams) as SearchLegislationResult[];
-      if (rows.length > 0) {
+      const statement = db.prepare(likeSql);
+      const page = readPage(
+        (limit, offset) => statement.all(...likeParams, limit, offset) as SearchLegislationResult[],
+        position.offset, pageSize, key, likeTier,
+      );
+      if (page.results.length > 0) {
         return {
-          results: deduplicateResults(rows, limit),
+          results: page.results,
           _metadata: {
             ...generateResponseMetadata(db),
+            ...asOfMetadata,
+            ...notesMetadata,
+            ...(page.next_cursor ? { next_cursor: page.next_cursor } : {}),
             query_strategy: 'like_fallback',
           },
         };
@@ -158,26 +382,62 @@ export async function searchLegislation(
     }
   }
 
-  return { results: [], _metadata: generateResponseMetadata(db) };
+  if (queryVariants.length > 0 && syntaxErrors === queryVariants.length) {
+    notes.push(
+      'The query is not valid FTS5 syntax (check quotes, parentheses and that AND, OR, NOT and NEAR have terms on both sides); ' +
+      'no provisions were searched with it.',
+    );
+  }
+  const noteMetadata = notes.length > 0 ? { note: notes.join(' ') } : {};
+  return { results: [], _metadata: { ...generateResponseMetadata(db), ...asOfMetadata, ...noteMetadata } };
 }
 
 /**
- * Deduplicate search results by document_title + provision_ref.
- * Duplicate document IDs (numeric vs slug) cause the same provision to appear twice.
- * Keeps the first (highest-ranked) occurrence.
+ * The page of deduplicated results starting at row offset of a tier's
+ * ordered rows, and the cursor for the page after it when there are more.
+ * Rows are read in batches until the page is full and one more distinct
+ * result is found, so duplicates never cut a page short or hide the next
+ * one. The cursor holds the row offset, so later pages do not re-read the
+ * rows before them.
  */
-function deduplicateResults(
-  rows: SearchLegislationResult[],
-  limit: number,
-): SearchLegislationResult[] {
+function readPage(
+  fetchRows: (limit: number, offset: number) => SearchLegislationResult[],
+  offset: number,
+  pageSize: number,
+  key: string,
+  tier: number,
+): { results: SearchLegislationResult[]; next_cursor?: string } {
   const seen = new Set<string>();
-  const deduped: SearchLegislationResult[] = [];
-  for (const row of rows) {
-    const key = `${row.document_title}::${row.provision_ref}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    deduped.push(row);
-    if (deduped.length >= limit) break;
+  const results: SearchLegislationResult[] = [];
+  const batchSize = pageSize * 2;
+  for (let rowOffset = offset; ; rowOffset += batchSize) {
+    const rows = fetchRows(batchSize, rowOffset);
+    for (const [i, row] of rows.entries()) {
+      const resultKey = dedupKey(row);
+      if (seen.has(resultKey)) continue;
+      if (results.length === pageSize) {
+        return { results, next_cursor: encodeCursor(key, { offset: rowOffset + i, tier }) };
+      }
+      seen.add(resultKey);
+      results.push(row);
+    }
+    if (rows.length < batchSize) return { results };
   }
-  return deduped;
+}
+
+/**
+ * Flag matches found in a note; provision matches carry no note columns.
+ */
+function markNonOperative(row: SearchLegislationResult): SearchLegislationResult {
+  const { note_kind, ...result } = row;
+  return note_kind ? { ...result, note_kind, non_operative: true } : result;
+}
+
+/**
+ * Search results are deduplicated by document_title + provision_ref (and note kind).
+ * Duplicate document IDs (numeric vs slug) cause the same provision to appear twice;
+ * the first (highest-ranked) occurrence on a page is kept.
+ */
+function dedupKey(row: SearchLegislationResult): string {
+  return `${row.document_title}::${row.provision_ref}${row.note_kind ? `::${row.note_kind}` : ''}`;
 }
@@ -5,6 +5,15 @@
 import type Database from '@ansvar/mcp-sqlite';
 import { resolveDocumentId } from '../utils/statute-id.js';
 import { generateResponseMetadata, type ToolResponse } from '../utils/metadata.js';
+import {
+  SCHEDULE_PINPOINT_PATTERN,
+  SECTION_PINPOINT_PATTERN,
+  findProvisionRef,
+  getProvisionUnit,
+  parsePinpoint,
+} from '../utils/pinpoint.js';
+import { currencyWarnings, getProvisionCurrency, type ProvisionCurrency } from '../utils/currency.js';
+import { detectCapabilities } from '../capabilities.js';
 
 export interface ValidateCitationInput {
   citation: string;
@@ -18,6 +27,7 @@ export interface ValidateCitationResult {
   document_title?: string;
   provision_ref?: string;
   status?: string;
+  provision_status?: ProvisionCurrency['status'];
   warnings: string[];
 }
 
@@ -26,16 +36,39 @@ export interface ValidateCitationResult {
  * Supports:
  * - "Section 13 Privacy Act 1988" / "Section 13, Privacy Act 1988"
  * - "Privacy Act 1988 s 13" / "Privacy Act 1988, s 13"
+ * - Pinpoints below section level: "Privacy Act 1988 s 26WE(2)(b)"
+ * - Schedule provisions: "Privacy Act 1988 Sch 1 cl 1", "APP 1 Privacy Act 1988", "APP 11.1"
  * - "[Act Title Year] s N"
  * - "s 13" (section only, no document)
  * - Plain document reference (e.g., "Privacy Act 1988")
  */
-function parseCitation(citation: string): { documentRef: string; sectionRef?: string } | null {
+function parseCitation(citation: string): { documentRef: string; sectionRef?: string; inSchedule?: boolean } | null {
   const trimmed = citation.trim();
 
+  // "APP N" on its own: the Australian Privacy Principles are Schedule 1 to the Privacy Act
+  if (new RegExp(String.raw`^(?:APP|Australian\s+Privacy\s+Principle)\s*${SECTION_PINPOINT_PATTERN}$`, 'i').test(trimmed)) {
+    return { documentRef: 'Privacy Act 1988', sectionRef: trimmed, inSchedule: true };
+  }
+
+  // "Sch 1 cl N <Act>" or "APP N, <Act>"
+  const scheduleFirst = trimmed.match(
+    new RegExp(String.raw`^(${SCHEDULE_PINPOINT_PATTERN})\s*[,;]?\s+(.+)$`, 'i')
+  );
+  if (scheduleFirst) {
+    return { documentRef: scheduleFirst[2].trim(), sectionRef: scheduleFirst[1], inSchedule: true };
+  }
+
+  // "<Act> Sch 1 cl N" or "<Act>, APP N" (before "<Act> s N", which would take "Sch 2 s 18" apart)
+  const scheduleLast = trimmed.match(
+    new RegExp(String.raw`^(.+?)\s*[,;]?\s+(${SCHEDULE_PINPOINT_PATTERN})$`, 'i')
+  );
+  if (scheduleLast) {
+    return { documentRef: scheduleLast[1].trim(), sectionRef: scheduleLast[2], inSchedule: true };
+  }
+
   // "Section N <Act>" or "Section N, <Act>"
   const sectionFirst = trimmed.match(
-    /^Section\s+(\d+[A-Za-z]*(?:\(\d+\))?)\s*[,;]?\s+(.+)$/i
+    new RegExp(String.raw`^Section\s+(${SECTION_PINPOINT_PATTERN})\s*[,;]?\s+(.+)$`, 'i')
   );
   if (sectionFirst) {
     return { documentRef: sectionFirst[2].trim(), sectionRef: sectionFirst[1] };
@@ -43,7 +76,7 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
 
   // "<Act> s N" or "<Act>, s N" or "<Act> s. N"
   const sectionLast = trimmed.match(
-    /^(.+?)\s*[,;]?\s+s\.?\s+(\d+[A-Za-z]*(?:\(\d+\))?)$/i
+    new RegExp(String.raw`^(.+?)\s*[,;]?\s+s\.?\s+(${SECTION_PINPOINT_PATTERN})$`, 'i')
   );
   if (sectionLast) {
     return { documentRef: sectionLast[1].trim(), sectionRef: sectionLast[2] };
@@ -51,7 +84,7 @@ function parseCitation(citation: string): { documentRef: string; sectionRef?: st
 
   // "<Act> Section N" or "<Act>, Section N"
   const sectionWordLast = trimmed.match(
-    /^(.+?)\s*[,;]?\s+Section\s+(\d+[A-Za-z]*(?:\(\d+\))?)$/i
+    new RegExp(String.raw`^(.+?)\s*[,;]?\s+Section\s+(${SECTION_PINPOINT_PATTERN})$`, 'i')
   );
   if (sectionWordLast) {
     return { documentRef: sectionWordLast[1].trim(), sectionRef: sectionWordLast[2] };
@@ -102,32 +135,59 @@ export async function validateCitationTool(
   }
 
   if (parsed.sectionRef) {
-    const provision = db.prepare(
-      "SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref = ? OR provision_ref = ? OR section = ?)"
-    ).get(docId, parsed.sectionRef, `s${parsed.sectionRef}`, parsed.sectionRef) as { provision_ref: string } | undefined;
+    const citedAs = parsed.inSchedule ? parsed.sectionRef : `Section ${parsed.sectionRef}`;
+    const pinpoint = parsePinpoint(parsed.sectionRef)?.pinpoint ?? '';
+    const sectionRef = findProvisionRef(db, docId, parsed.sectionRef);
 
-    if (!provision) {
+    if (!sectionRef) {
       return {
         results: {
           valid: false,
           citation: input.citation,
           document_id: docId,
           document_title: doc.title,
-          warnings: [...warnings, `Provision "Section ${parsed.sectionRef}" not found in ${doc.title}`],
+          warnings: [...warnings, `Provision "${citedAs}" not found in ${doc.title}`],
         },
         _metadata: generateResponseMetadata(db),
       };
     }
 
+    let provisionRef = sectionRef;
+    if (pinpoint) {
+      if (!detectCapabilities(db).has('provision_units')) {
+        warnings.push(`${sectionRef} exists, but subsection-level text is not available to verify "${pinpoint}".`);
+      } else {
+        const unit = getProvisionUnit(db, docId, `${sectionRef}${pinpoint}`);
+        if (!unit) {
+          return {
+            results: {
+              valid: false,
+              citation: input.citation,
+              document_id: docId,
+              document_title: doc.title,
+              warnings: [...warnings, `Provision "${citedAs}" not found in ${doc.title} (${sectionRef} exists)`],
+            },
+            _metadata: generateResponseMetadata(db),
+          };
+        }
+        provisionRef = unit.unit_ref;
+      }
+    }
+
+    // A repealed section is still a valid citation, but not of law in force
+    const currency = getProvisionCurrency(db, docId, sectionRef);
+    warnings.push(...currencyWarnings(citedAs, currency, new Date().toISOString().slice(0, 10)).map(w => `WARNING: ${w}`));
+
     return {
       results: {
         valid: true,
         citation: input.citation,
-        normalized: `Section ${parsed.sectionRef}, ${doc.title}`,
+        normalized: `${citedAs}, ${doc.title}`,
         document_id: docId,
         document_title: doc.title,
-        provision_ref: provision.provision_ref,
+        provision_ref: provisionRef,
         status: doc.status,
+        ...(currency ? { provision_status: currency.status } : {}),
         warnings,
       },
       _metadata: generateResponseMetadata(db),
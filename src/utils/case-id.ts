@@ -0,0 +1,44 @@
+/**
+ * Case ID resolution for Australian Law MCP.
+ *
+ * Judgments are identified by their medium-neutral citation ("[2023] HCA 12"),
+ * stored as a slug ID ("2023-hca-12").
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+/**
+ * Resolve a case reference to a database case ID.
+ * Supports:
+ * - Direct ID match (e.g., "2023-hca-12")
+ * - Medium-neutral citation, with or without brackets (e.g., "[2023] HCA 12", "2023 HCA 12")
+ * - Case name substring match (e.g., "Smith v Jones")
+ */
+export function resolveCaseId(
+  db: InstanceType<typeof Database>,
+  input: string,
+): string | null {
+  if (!input || typeof input !== 'string') return null;
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const directMatch = db.prepare(
+    'SELECT id FROM case_law WHERE id = ?'
+  ).get(trimmed.toLowerCase()) as { id: string } | undefined;
+  if (directMatch) return directMatch.id;
+
+  const mnc = trimmed.match(/\[?(\d{4})\]?\s+([A-Za-z0-9]+)\s+(\d+)/);
+  if (mnc) {
+    const citationMatch = db.prepare(
+      'SELECT id FROM case_law WHERE citation = ? COLLATE NOCASE'
+    ).get(`[${mnc[1]}] ${mnc[2]} ${mnc[3]}`) as { id: string } | undefined;
+    if (citationMatch) return citationMatch.id;
+  }
+
+  const nameMatch = db.prepare(
+    'SELECT id FROM case_law WHERE case_name LIKE ? ORDER BY decision_date DESC LIMIT 1'
+  ).get(`%${trimmed}%`) as { id: string } | undefined;
+  if (nameMatch) return nameMatch.id;
+
+  return null;
+}
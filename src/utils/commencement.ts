@@ -0,0 +1,55 @@
+/**
+ * Commencement of Australian Acts.
+ *
+ * commencement_items holds the commencement table in section 2 of an Act
+ * ("Sections 1 and 2 | The day this Act receives the Royal Assent. |
+ * 12 December 2012"); commencement_provisions maps each current provision
+ * to the item that covers it.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface CommencementItem {
+  item: string;
+  provisions: string;
+  commencement: string;
+  commencement_date: string | null;
+  details: string | null;
+}
+
+export function listCommencementItems(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+): CommencementItem[] {
+  try {
+    return db.prepare(`
+      SELECT item, provisions, commencement, commencement_date, details
+      FROM commencement_items WHERE document_id = ? ORDER BY id
+    `).all(documentId) as CommencementItem[];
+  } catch {
+    // commencement_items table doesn't exist in this database
+    return [];
+  }
+}
+
+/**
+ * The commencement item covering a provision; null when the table does not
+ * cover it or is not recorded.
+ */
+export function getProvisionCommencement(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+): CommencementItem | null {
+  try {
+    const row = db.prepare(`
+      SELECT ci.item, ci.provisions, ci.commencement, ci.commencement_date, ci.details
+      FROM commencement_provisions cp
+      JOIN commencement_items ci ON ci.document_id = cp.document_id AND ci.item = cp.item
+      WHERE cp.document_id = ? AND cp.provision_ref = ?
+    `).get(documentId, provisionRef) as CommencementItem | undefined;
+    return row ?? null;
+  } catch {
+    return null;
+  }
+}
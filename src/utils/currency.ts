@@ -0,0 +1,93 @@
+/**
+ * Provision-level currency for Australian Law MCP.
+ *
+ * provision_currency records, for each current provision, whether it is in
+ * force, repealed ("6A Repealed") or not yet commenced, and the first
+ * amendment in the amendment history that had not commenced when the
+ * compilation was made.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface ProvisionCurrency {
+  provision_ref: string;
+  status: 'in_force' | 'repealed' | 'not_yet_in_force';
+  effective_date: string | null;
+  pending_action: string | null;
+  pending_date: string | null;
+  pending_act: string | null;
+}
+
+const PENDING_ACTIONS: Record<string, string> = {
+  ad: 'inserted',
+  am: 'amended',
+  rs: 'repealed and substituted',
+  rep: 'repealed',
+  renum: 'renumbered',
+  exp: 'expired',
+};
+
+/**
+ * Currency of a current provision; null when it is not recorded (databases
+ * built without amendment history, or an unknown ref).
+ */
+export function getProvisionCurrency(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+): ProvisionCurrency | null {
+  try {
+    const row = db.prepare(`
+      SELECT provision_ref, status, effective_date, pending_action, pending_date, pending_act
+      FROM provision_currency WHERE document_id = ? AND provision_ref = ?
+    `).get(documentId, provisionRef) as ProvisionCurrency | undefined;
+    return row ?? null;
+  } catch {
+    // provision_currency table doesn't exist in this database
+    return null;
+  }
+}
+
+/**
+ * "s 13" for s13; schedule refs (sch1-app1) are left as stored.
+ */
+export function provisionLabel(provisionRef: string): string {
+  return provisionRef.replace(/^([sr])(?=\d)/, '$1 ');
+}
+
+/**
+ * Warnings for a provision that is repealed, not yet in force, or has an
+ * amendment pending, as at a date (today, or the as_of date of a
+ * point-in-time check). An amendment whose date has passed since the
+ * compilation was made means the text held may be out of date.
+ */
+export function currencyWarnings(label: string, currency: ProvisionCurrency | null, today: string): string[] {
+  if (!currency) return [];
+  const warnings: string[] = [];
+
+  if (currency.status === 'repealed') {
+    if (currency.effective_date && currency.effective_date > today) {
+      warnings.push(`${label} is to be repealed with effect from ${currency.effective_date}.`);
+    } else {
+      warnings.push(`${label} has been repealed${currency.effective_date ? ` (with effect from ${currency.effective_date})` : ''}.`);
+    }
+  } else if (currency.status === 'not_yet_in_force') {
+    if (currency.effective_date && currency.effective_date <= today) {
+      warnings.push(`${label} commenced on ${currency.effective_date}, after the compilation held; the text may be out of date.`);
+    } else {
+      warnings.push(`${label} has not commenced${currency.effective_date ? `; it takes effect on ${currency.effective_date}` : ''}.`);
+    }
+  }
+
+  if (currency.pending_date) {
+    const action = PENDING_ACTIONS[currency.pending_action ?? ''] ?? 'amended';
+    const by = currency.pending_act ? ` by ${currency.pending_act}` : '';
+    warnings.push(
+      currency.pending_date > today
+        ? `${label} is to be ${action}${by} with effect from ${currency.pending_date}.`
+        : `${label} was to be ${action}${by} with effect from ${currency.pending_date}, after the compilation held; the text may be out of date.`,
+    );
+  }
+
+  return warnings;
+}
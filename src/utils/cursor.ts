@@ -0,0 +1,74 @@
+/**
+ * Paging cursors for Australian Law MCP.
+ *
+ * A cursor is opaque to the caller: base64url JSON holding the offset of
+ * the next page and a key made from the request and the database build.
+ * A cursor is accepted only with the same request against the same build,
+ * so a rebuilt database or a changed query cannot silently skip results.
+ */
+
+import { createHash } from 'crypto';
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface CursorPosition {
+  /** Row the next page starts at, in the request's stable order */
+  offset: number;
+  /** Search tier (query variant) that served the first page */
+  tier?: number;
+}
+
+/** Rows to read for one page, in a stable order */
+export interface PageWindow {
+  offset: number;
+  limit: number;
+}
+
+interface CursorPayload extends CursorPosition {
+  key: string;
+}
+
+/**
+ * Key of a request: the tool, the inputs that select the results (not the
+ * page size or cursor) and the database build.
+ */
+export function cursorKey(
+  db: InstanceType<typeof Database>,
+  tool: string,
+  request: Record<string, unknown>,
+): string {
+  let builtAt = '';
+  try {
+    const row = db.prepare("SELECT value FROM db_metadata WHERE key = 'built_at'").get() as { value: string } | undefined;
+    builtAt = row?.value ?? '';
+  } catch {
+    // db_metadata table doesn't exist in this database
+  }
+  const inputs = Object.entries(request)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash('sha256').update(JSON.stringify([tool, builtAt, inputs])).digest('hex').slice(0, 16);
+}
+
+export function encodeCursor(key: string, position: CursorPosition): string {
+  const payload: CursorPayload = { key, ...position };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * The position a cursor points to; null when it is malformed or was issued
+ * for another request or database build.
+ */
+export function decodeCursor(cursor: string, key: string): CursorPosition | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<CursorPayload>;
+    if (payload.key !== key || !Number.isInteger(payload.offset) || payload.offset! < 0) return null;
+    if (payload.tier !== undefined && !Number.isInteger(payload.tier)) return null;
+    return { offset: payload.offset!, ...(payload.tier !== undefined ? { tier: payload.tier } : {}) };
+  } catch {
+    return null;
+  }
+}
+
+export const INVALID_CURSOR_NOTE =
+  'Invalid or expired cursor: it was issued for a different request or before the database was rebuilt. ' +
+  'Repeat the request without cursor to start again.';
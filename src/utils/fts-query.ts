@@ -4,10 +4,12 @@
  * Handles query sanitization and variant generation for SQLite FTS5.
  */
 
-const FTS5_BOOLEAN_OPS = /\b(AND|OR|NOT)\b/;
+import type { QueryExpansion } from './thesaurus.js';
+
+const FTS5_BOOLEAN_OPS = /\b(AND|OR|NOT)\b|\bNEAR\s*\(/;
 
 /**
- * Detect whether input contains FTS5 boolean operators.
+ * Detect whether input contains FTS5 boolean operators or a NEAR() group.
  */
 export function hasBooleanOperators(input: string): boolean {
   return FTS5_BOOLEAN_OPS.test(input);
@@ -15,12 +17,16 @@ export function hasBooleanOperators(input: string): boolean {
 
 /**
  * Sanitize user input for safe FTS5 queries.
- * Preserves boolean operators (AND, OR, NOT) when detected.
+ * Preserves boolean operators (AND, OR, NOT) and NEAR(a b, 10) when detected.
  */
 export function sanitizeFtsInput(input: string): string {
   if (hasBooleanOperators(input)) {
-    // Preserve boolean structure: only strip dangerous chars, keep quotes and parens
-    return input.replace(/[{}[\]^~*:]/g, ' ').replace(/\s+/g, ' ').trim();
+    // Preserve boolean structure: only strip dangerous chars, keep quotes, parens and NEAR distances
+    return input
+      .replace(/[{}[\]^~*:]/g, ' ')
+      .replace(/\bNEAR\s*\(/g, 'NEAR(')
+      .replace(/\s+/g, ' ')
+      .trim();
   }
   // Preserve trailing * on words (FTS5 prefix search) but strip other special chars
   return input
@@ -33,6 +39,7 @@ export function sanitizeFtsInput(input: string): string {
 /**
  * Truncate common English suffixes for stemming fallback.
  * Returns stem + "*" ready string, or null if no stemming possible.
+ * Only used for indexes that have no porter-stemmed counterpart.
  */
 function stemWord(word: string): string | null {
   if (word.length < 5) return null;
@@ -48,44 +55,227 @@ function stemWord(word: string): string | null {
   return null;
 }
 
+/**
+ * Which full-text index a query variant runs against: the exact index
+ * (unicode61) or its porter-stemmed counterpart, where "penalties" and
+ * "penalty" share a stem but "penal" and "penalised" do not.
+ */
+export type FtsIndex = 'exact' | 'stemmed';
+
+export interface FtsQueryVariant {
+  query: string;
+  index: FtsIndex;
+  /** Built from thesaurus expansions of the query */
+  expanded?: true;
+}
+
+/**
+ * Provision index tables by FtsIndex.
+ */
+export const PROVISION_FTS_TABLES: Record<FtsIndex, string> = {
+  exact: 'provisions_fts',
+  stemmed: 'provisions_stem_fts',
+};
+
+/**
+ * Fields that a query can be scoped to ("title:breach", "act:\"Privacy Act\"")
+ * and their columns in the provision indexes.
+ */
+export const SEARCH_FIELDS: Record<string, string> = {
+  title: 'title',
+  act: 'act_title',
+  text: 'content',
+};
+
+export interface FieldScope {
+  field: string;
+  value: string;
+  /** Written after NOT ("notify NOT title:repeal"): provisions matching it are left out */
+  negated?: true;
+}
+
+/**
+ * Take field-scoped terms out of a query: "title:breach notify" gives the
+ * scope title = breach and the remaining text "notify". An AND or OR left
+ * without an operand ("breach AND title:notification") goes with the scope.
+ */
+export function parseFieldScopes(input: string): { text: string; scopes: FieldScope[] } {
+  const scopes: FieldScope[] = [];
+  const fields = Object.keys(SEARCH_FIELDS).join('|');
+  const pattern = new RegExp(`(^|[\\s(])(NOT\\s+)?(${fields}):\\s*("[^"]*"?|[^\\s()]+)`, 'g');
+  const text = input.replace(pattern, (_, lead: string, not: string | undefined, field: string, value: string) => {
+    scopes.push({ field, value: value.replace(/^"|"$/g, ''), ...(not ? { negated: true as const } : {}) });
+    return `${lead} `;
+  });
+  return { text: dropDanglingOperators(text), scopes };
+}
+
+/**
+ * Tidy a boolean query after scopes are taken out of it: an operator at
+ * either end, next to a parenthesis or next to another operator has lost
+ * an operand, and an empty () is dropped.
+ */
+function dropDanglingOperators(text: string): string {
+  const op = '(?:AND|OR|NOT)';
+  let tidied = text.replace(/\s+/g, ' ').trim();
+  for (let previous = ''; previous !== tidied;) {
+    previous = tidied;
+    tidied = tidied
+      .replace(/\(\s*\)/g, ' ')
+      .replace(new RegExp(`^${op}\\b|\\b${op}$`, 'g'), ' ')
+      .replace(new RegExp(`\\(\\s*${op}\\b`, 'g'), '(')
+      .replace(new RegExp(`\\b${op}\\s*\\)`, 'g'), ')')
+      .replace(new RegExp(`\\b${op}\\s+(${op})\\b`, 'g'), '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+  return tidied;
+}
+
+/**
+ * FTS5 column filters for the scopes, joined by AND (or OR):
+ * title : "breach" AND act_title : "privacy act". A trailing * keeps
+ * prefix matching ("title:notif*").
+ */
+function scopeFilter(scopes: FieldScope[], join: 'AND' | 'OR' = 'AND'): string {
+  return scopes
+    .map(scope => {
+      const words = scope.value.replace(/['"(){}[\]^~:*]/g, ' ').replace(/\s+/g, ' ').trim();
+      if (!words) return null;
+      return `${SEARCH_FIELDS[scope.field]} : "${words}"${scope.value.endsWith('*') ? ' *' : ''}`;
+    })
+    .filter((filter): filter is string => filter !== null)
+    .join(` ${join} `);
+}
+
+/**
+ * bm25 column weights for the provision indexes, BM25F-style: a match in
+ * the section title counts for more than one in the body of the text.
+ */
+export interface FieldWeights {
+  content: number;
+  title: number;
+  act_title: number;
+}
+
+export const DEFAULT_FIELD_WEIGHTS: FieldWeights = { content: 1, title: 4, act_title: 1.5 };
+
+const MAX_FIELD_WEIGHT = 100;
+
+/**
+ * bm25() call for a provision index. Weights outside 0..100 or not numbers
+ * fall back to the defaults.
+ */
+export function provisionBm25(table: string, weights: Partial<FieldWeights> = {}): string {
+  const weight = (field: keyof FieldWeights) => {
+    const value = weights[field];
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_FIELD_WEIGHT
+      ? value
+      : DEFAULT_FIELD_WEIGHTS[field];
+  };
+  return `bm25(${table}, ${weight('content')}, ${weight('title')}, ${weight('act_title')})`;
+}
+
 /**
  * Build FTS5 query variants for a search term.
  * Returns variants in order of specificity (most specific first):
  * 1. Exact phrase match
  * 2. All terms required (AND)
  * 3. Prefix AND (last term gets prefix wildcard)
- * 4. Stemmed prefix (suffix-truncated + wildcard)
+ * 4. Stemmed (suffix-truncated + wildcard)
  * 5. Any term matches (OR) — broad fallback
  *
+ * With a stemmed index, the tiers after the exact phrase and AND query run
+ * against it instead (AND, prefix AND, OR), and the suffix-truncation tier
+ * is dropped. With thesaurus expansions, the phrase and AND tiers (exact and
+ * stemmed) let each expanded term match itself or any of its expansions, so
+ * a literal hit does not hide the statutory wording. Field scopes are
+ * required in every variant (or, after NOT, excluded), and on their own
+ * make a query.
  * When boolean operators are detected, passes query through as-is.
  */
-export function buildFtsQueryVariants(sanitized: string): string[] {
+export function buildFtsQueryVariants(
+  sanitized: string,
+  options: { stemmedIndex?: boolean; expansions?: QueryExpansion[]; scopes?: FieldScope[] } = {},
+): FtsQueryVariant[] {
+  const scopes = options.scopes ?? [];
+  const required = scopeFilter(scopes.filter(scope => !scope.negated));
+  const excluded = scopeFilter(scopes.filter(scope => scope.negated), 'OR');
+  const variants = unscopedVariants(sanitized, options);
+  if (!required && !excluded) return variants;
+
+  // FTS5 has no unary NOT, so excluded scopes need other terms to be taken from
+  const scoped = (query: string | null): string | null => {
+    const matched = [query === null ? null : `(${query})`, required || null].filter(Boolean).join(' AND ');
+    if (!matched) return null;
+    return excluded ? `${matched} NOT (${excluded})` : matched;
+  };
+  if (variants.length === 0) {
+    const query = scoped(null);
+    if (query === null) return [];
+    const filtered: FtsQueryVariant[] = [{ query, index: 'exact' }];
+    return options.stemmedIndex ? [...filtered, { query, index: 'stemmed' }] : filtered;
+  }
+  return variants.map(variant => ({ ...variant, query: scoped(variant.query)! }));
+}
+
+function unscopedVariants(
+  sanitized: string,
+  options: { stemmedIndex?: boolean; expansions?: QueryExpansion[] },
+): FtsQueryVariant[] {
   if (!sanitized || sanitized.trim().length === 0) {
     return [];
   }
 
   // Boolean passthrough — user knows what they want
   if (hasBooleanOperators(sanitized)) {
-    return [sanitized];
+    return [{ query: sanitized, index: 'exact' }];
   }
 
   const terms = sanitized.split(/\s+/).filter(t => t.length > 0);
   if (terms.length === 0) return [];
 
-  const variants: string[] = [];
+  const exact = (query: string): FtsQueryVariant => ({ query, index: 'exact' });
+  const stemmed = (query: string): FtsQueryVariant => ({ query, index: 'stemmed' });
+  const prefixAnd = [...terms.slice(0, -1), `${terms[terms.length - 1]}*`].join(' AND ');
+
+  const groups = options.expansions && options.expansions.length > 0 ? expansionGroups(terms, options.expansions) : null;
+  const phrase = (): FtsQueryVariant => groups
+    ? { query: expandedPhrase(groups), index: 'exact', expanded: true }
+    : exact(`"${terms.join(' ')}"`);
+  const allTerms = (index: FtsIndex): FtsQueryVariant => groups
+    ? { query: expandedQuery(groups), index, expanded: true }
+    : { query: terms.join(' AND '), index };
+
+  if (options.stemmedIndex) {
+    if (terms.length > 1) {
+      return [
+        phrase(),
+        allTerms('exact'),
+        allTerms('stemmed'),
+        stemmed(prefixAnd),
+        stemmed(terms.join(' OR ')),
+      ];
+    }
+    return terms[0].length >= 3
+      ? [allTerms('exact'), allTerms('stemmed'), stemmed(`${terms[0]}*`)]
+      : [allTerms('exact'), allTerms('stemmed')];
+  }
+
+  const variants: FtsQueryVariant[] = [];
 
   if (terms.length > 1) {
     // Exact phrase
-    variants.push(`"${terms.join(' ')}"`);
+    variants.push(phrase());
     // AND query
-    variants.push(terms.join(' AND '));
+    variants.push(allTerms('exact'));
     // Prefix AND on last term
-    variants.push([...terms.slice(0, -1), `${terms[terms.length - 1]}*`].join(' AND '));
+    variants.push(exact(prefixAnd));
   } else {
     // Single term
-    variants.push(terms[0]);
+    variants.push(allTerms('exact'));
     if (terms[0].length >= 3) {
-      variants.push(`${terms[0]}*`);
+      variants.push(exact(`${terms[0]}*`));
     }
   }
 
@@ -95,17 +285,66 @@ export function buildFtsQueryVariants(sanitized: string): string[] {
     return stem ? `${stem}*` : t;
   });
   if (stemmedTerms.some((s, i) => s !== terms[i])) {
-    variants.push(stemmedTerms.join(' AND '));
+    variants.push(exact(stemmedTerms.join(' AND ')));
   }
 
   // OR fallback — any term matches (broadest)
   if (terms.length > 1) {
-    variants.push(terms.join(' OR '));
+    variants.push(exact(terms.join(' OR ')));
   }
 
   return variants;
 }
 
+const MAX_PHRASE_ALTERNATIVES = 16;
+
+const quote = (text: string) => `"${text.replace(/"/g, '')}"`;
+
+/**
+ * The query split into its words, with each expanded term grouped with its
+ * expansions: "NDB scheme penalty" -> [["NDB scheme", "eligible data breach"], ["penalty"]].
+ * Null when no term of the query is expanded.
+ */
+function expansionGroups(terms: string[], expansions: QueryExpansion[]): string[][] | null {
+  const groups: string[][] = [];
+  for (let i = 0; i < terms.length;) {
+    const match = expansions.find(e => terms.slice(i, i + e.term.split(' ').length).join(' ') === e.term);
+    if (match) {
+      groups.push([match.term, ...match.expansions]);
+      i += match.term.split(' ').length;
+    } else {
+      groups.push([terms[i]]);
+      i++;
+    }
+  }
+  return groups.some(group => group.length > 1) ? groups : null;
+}
+
+/**
+ * AND query in which each expanded term becomes a group of alternatives:
+ * "NDB scheme" -> ("NDB scheme" OR "eligible data breach").
+ */
+function expandedQuery(groups: string[][]): string {
+  return groups
+    .map(group => (group.length > 1 ? `(${group.map(quote).join(' OR ')})` : group[0]))
+    .join(' AND ');
+}
+
+/**
+ * The phrase with each expanded term swapped for its alternatives in turn:
+ * "NDB penalty" -> "NDB penalty" OR "notifiable data breach penalty" OR ...
+ * The literal phrase comes first; at most MAX_PHRASE_ALTERNATIVES are built.
+ */
+function expandedPhrase(groups: string[][]): string {
+  let phrases = [''];
+  for (const group of groups) {
+    phrases = phrases
+      .flatMap(phrase => group.map(alternative => (phrase ? `${phrase} ${alternative}` : alternative)))
+      .slice(0, MAX_PHRASE_ALTERNATIVES);
+  }
+  return phrases.map(quote).join(' OR ');
+}
+
 /**
  * Build a SQL LIKE pattern from search terms.
  * Used as a final fallback when FTS5 returns no results.
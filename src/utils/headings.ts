@@ -0,0 +1,165 @@
+/**
+ * Structural headings (Schedule, Chapter, Part, Division, Subdivision) for
+ * Australian Law MCP.
+ *
+ * Headings are stored in document_headings with a path-style heading_ref
+ * ("ptiiic/div2"); each provision records its innermost heading, so a Part
+ * holds every provision whose heading_ref is the Part's or starts with it.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+import type { PageWindow } from './cursor.js';
+
+export type HeadingLevel = 'schedule' | 'chapter' | 'part' | 'division' | 'subdivision';
+
+export interface DocumentHeading {
+  heading_ref: string;
+  parent_ref: string | null;
+  level: HeadingLevel;
+  number: string | null;
+  title: string;
+}
+
+export interface HeadingSelector {
+  part?: string;
+  /** "2", or "2 of Part IIIC" */
+  division?: string;
+  heading_ref?: string;
+}
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+/**
+ * "Part IIIC", "Division 2"
+ */
+export function headingLabel(heading: Pick<DocumentHeading, 'level' | 'number'>): string {
+  const name = heading.level.charAt(0).toUpperCase() + heading.level.slice(1);
+  return heading.number ? `${name} ${heading.number}` : name;
+}
+
+export function hasHeadingSelector(selector: HeadingSelector): boolean {
+  return Boolean(selector.part || selector.division || selector.heading_ref);
+}
+
+/**
+ * Find the heading a selector names. Part numbers may be given in arabic
+ * numerals for Acts that number Parts in roman ("Part 3" finds Part III).
+ * Returns a note instead when nothing, or more than one heading, matches.
+ */
+export function resolveHeading(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  selector: HeadingSelector,
+): { heading: DocumentHeading | null; note?: string } {
+  const headings = db.prepare(
+    'SELECT heading_ref, parent_ref, level, number, title FROM document_headings WHERE document_id = ? ORDER BY id'
+  ).all(documentId) as DocumentHeading[];
+
+  if (selector.heading_ref) {
+    const ref = selector.heading_ref.trim().toLowerCase();
+    const heading = headings.find(h => h.heading_ref === ref) ?? null;
+    return heading ? { heading } : { heading: null, note: `No heading "${selector.heading_ref}" in document "${documentId}"` };
+  }
+
+  let division = selector.division ? stripLevel(selector.division, 'division') : undefined;
+  let part = selector.part ? stripLevel(selector.part, 'part') : undefined;
+  const divisionOfPart = division?.match(/^(\S+)\s+of\s+(?:Part\s+)?(\S+)$/i);
+  if (divisionOfPart) {
+    division = divisionOfPart[1];
+    part = divisionOfPart[2];
+  }
+
+  let candidates = part ? headings.filter(h => h.level === 'part' && numberMatches(h.number, part!)) : headings;
+  if (division) {
+    const parts = part ? candidates : null;
+    candidates = headings.filter(h =>
+      h.level === 'division' && numberMatches(h.number, division!)
+      && (!parts || parts.some(p => h.heading_ref.startsWith(`${p.heading_ref}/`))),
+    );
+  }
+
+  const wanted = [division ? `Division ${division}` : null, part ? `Part ${part}` : null].filter(Boolean).join(' of ');
+  if (candidates.length === 0) {
+    return { heading: null, note: `No ${wanted} in document "${documentId}"` };
+  }
+
+  // The body of the Act wins over a schedule with the same numbering
+  if (candidates.length > 1) {
+    const inBody = candidates.filter(h => !h.heading_ref.startsWith('sch'));
+    if (inBody.length === 1) candidates = inBody;
+  }
+  if (candidates.length > 1) {
+    const listed = candidates.map(h => `${headingLabel(h)} (${h.heading_ref})`).join(', ');
+    return {
+      heading: null,
+      note: `"${wanted}" is ambiguous in document "${documentId}": ${listed}. Name the Part ("2 of Part IIIC") or pass heading_ref.`,
+    };
+  }
+
+  return { heading: candidates[0] };
+}
+
+/**
+ * Provisions under a heading, including those in its Divisions and
+ * Subdivisions, in document order.
+ */
+export function getHeadingProvisions(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  headingRef: string,
+  window?: PageWindow,
+): Record<string, unknown>[] {
+  const prefix = `${headingRef}/`;
+  return db.prepare(`
+    SELECT * FROM legal_provisions
+    WHERE document_id = ? AND (heading_ref = ? OR substr(heading_ref, 1, ?) = ?)
+    ORDER BY id LIMIT ? OFFSET ?
+  `).all(documentId, headingRef, prefix.length, prefix, window?.limit ?? -1, window?.offset ?? 0) as Record<string, unknown>[];
+}
+
+/**
+ * How many provisions fall under a heading, and the sections of the first
+ * and last, without reading their text.
+ */
+export function getHeadingSpan(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  headingRef: string,
+): { count: number; first: string | null; last: string | null } {
+  const prefix = `${headingRef}/`;
+  const under = 'document_id = ? AND (heading_ref = ? OR substr(heading_ref, 1, ?) = ?)';
+  const params = [documentId, headingRef, prefix.length, prefix];
+  return db.prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM legal_provisions WHERE ${under}) as count,
+      (SELECT section FROM legal_provisions WHERE ${under} ORDER BY id LIMIT 1) as first,
+      (SELECT section FROM legal_provisions WHERE ${under} ORDER BY id DESC LIMIT 1) as last
+  `).get(...params, ...params, ...params) as { count: number; first: string | null; last: string | null };
+}
+
+function stripLevel(value: string, level: string): string {
+  return value.trim().replace(new RegExp(`^${level}\\s+`, 'i'), '');
+}
+
+function numberMatches(number: string | null, wanted: string): boolean {
+  if (!number) return false;
+  const target = number.toLowerCase();
+  if (target === wanted.toLowerCase()) return true;
+
+  const arabic = wanted.match(/^(\d+)([A-Za-z]*)$/);
+  return arabic !== null && target === `${toRoman(parseInt(arabic[1], 10))}${arabic[2]}`.toLowerCase();
+}
+
+function toRoman(value: number): string {
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
@@ -3,6 +3,8 @@
  */
 
 import type Database from '@ansvar/mcp-sqlite';
+import type { QueryExpansion } from './thesaurus.js';
+import type { SearchFacets } from './search-facets.js';
 
 export interface ResponseMetadata {
   data_source: string;
@@ -11,6 +13,16 @@ export interface ResponseMetadata {
   freshness?: string;
   note?: string;
   query_strategy?: string;
+  /** Full-text index that produced the hits (provisions_fts, or the stemmed provisions_stem_fts) */
+  fts_index?: string;
+  /** Thesaurus expansions used by the query that produced the hits */
+  expanded_terms?: QueryExpansion[];
+  /** Hit counts by Act, status, year and heading (search_legislation with facets) */
+  facets?: SearchFacets;
+  /** Pass back as cursor for the next page; absent on the last page */
+  next_cursor?: string;
+  as_of_date?: string;
+  penalty_unit?: { amount: number; from: string };
 }
 
 export interface ToolResponse<T> {
@@ -41,3 +53,19 @@ export function generateResponseMetadata(
     freshness,
   };
 }
+
+/**
+ * Metadata for case law responses. Judgments are imported from locally saved
+ * copies, so the statute provenance and licence statement do not apply.
+ */
+export function generateCaseLawMetadata(
+  db: InstanceType<typeof Database>,
+): ResponseMetadata {
+  return {
+    ...generateResponseMetadata(db),
+    data_source: 'Australian court judgments imported from locally saved copies (AustLII-style HTML)',
+    disclaimer:
+      'Judgment text is reproduced from the copy imported into this database and may omit headnotes, ' +
+      'annexures or later corrections. Always verify against the authorised report or the court\'s own publication.',
+  };
+}
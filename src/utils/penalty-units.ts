@@ -0,0 +1,62 @@
+/**
+ * Commonwealth penalty unit values (Crimes Act 1914 s 4AA).
+ *
+ * Penalties are stated in penalty units; the dollar value of a unit is set
+ * by s 4AA and has been indexed since 2017. A new value applies to offences
+ * committed on or after the date it takes effect. Add a row when it changes.
+ */
+
+export interface PenaltyUnitValue {
+  /** First day the value applies (ISO 8601) */
+  from: string;
+  /** Dollars per penalty unit */
+  amount: number;
+}
+
+// Oldest first
+export const PENALTY_UNIT_VALUES: PenaltyUnitValue[] = [
+  { from: '2012-12-28', amount: 170 },
+  { from: '2015-07-31', amount: 180 },
+  { from: '2017-07-01', amount: 210 },
+  { from: '2020-07-01', amount: 222 },
+  { from: '2023-01-01', amount: 275 },
+  { from: '2023-07-01', amount: 313 },
+  { from: '2024-11-07', amount: 330 },
+];
+
+/**
+ * The penalty unit value in force on a date, or null before the first held value.
+ */
+export function penaltyUnitValueAsOf(date: string): PenaltyUnitValue | null {
+  let current: PenaltyUnitValue | null = null;
+  for (const value of PENALTY_UNIT_VALUES) {
+    if (value.from > date) break;
+    current = value;
+  }
+  return current;
+}
+
+/**
+ * Maximum amounts in dollars for one penalty. A body corporate amount is only
+ * given when the provision states one, either directly or as a multiple.
+ */
+export function penaltyAmounts(
+  penalty: {
+    penalty_units: number | null;
+    body_corporate_penalty_units: number | null;
+    body_corporate_multiplier: number | null;
+  },
+  unitValue: PenaltyUnitValue | null,
+): { max_amount_individual: number | null; max_amount_body_corporate: number | null } {
+  if (!unitValue) return { max_amount_individual: null, max_amount_body_corporate: null };
+
+  const bodyCorporateUnits = penalty.body_corporate_penalty_units
+    ?? (penalty.penalty_units !== null && penalty.body_corporate_multiplier !== null
+      ? penalty.penalty_units * penalty.body_corporate_multiplier
+      : null);
+
+  return {
+    max_amount_individual: penalty.penalty_units !== null ? penalty.penalty_units * unitValue.amount : null,
+    max_amount_body_corporate: bodyCorporateUnits !== null ? bodyCorporateUnits * unitValue.amount : null,
+  };
+}
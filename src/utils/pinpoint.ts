@@ -0,0 +1,193 @@
+/**
+ * Pinpoint references below section level for Australian Law MCP.
+ *
+ * Sections are stored as provisions ("s26WE"); their subsections, paragraphs
+ * and subparagraphs as units of that provision ("s26WE(2)(b)"). Schedule
+ * provisions have refs of their own ("sch1-app1", "sch2-s18", "sch1-cl3").
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+// Section numbers: plain and inserted (13, 26WE), dotted (Criminal Code 476.2)
+// and hyphenated (ITAA 1997 995-1, Taxation Administration Act Sch 1 284-75)
+export const SECTION_NUMBER_PATTERN = String.raw`\d+[A-Za-z]*(?:[.-]\d+[A-Za-z]*)*`;
+
+// Section number followed by any number of bracketed pinpoints: 26WE(2)(b)(i)
+export const SECTION_PINPOINT_PATTERN = String.raw`${SECTION_NUMBER_PATTERN}(?:\([A-Za-z0-9]+\))*`;
+
+// Schedule provision in citation form: "Sch 1 cl 3(2)", "Schedule 2 s 18", "APP 1.4(a)"
+export const SCHEDULE_PINPOINT_PATTERN =
+  String.raw`(?:Sch(?:edule|\.)?\s*(?:\d+[A-Z]*\s*,?\s*)?(?:cl(?:ause)?|s(?:ection)?|item)\.?\s*|APP\s*|Australian\s+Privacy\s+Principle\s*)` +
+  SECTION_PINPOINT_PATTERN;
+
+const SCHEDULE_UNITS: Record<string, string> = {
+  cl: 'cl', clause: 'cl', s: 's', section: 's', item: 'item',
+};
+
+const PREFIXES: Record<string, string> = {
+  s: 's', ss: 's', sec: 's', sect: 's', section: 's', subsection: 's',
+  r: 'r', reg: 'r', regulation: 'r', subregulation: 'r', rule: 'r', subrule: 'r',
+};
+
+export interface ParsedPinpoint {
+  /** Section part of the reference, with its prefix if one was given ("s26WE", "26WE") */
+  sectionRef: string;
+  /** Section number alone ("26WE") */
+  section: string;
+  /** Bracketed part below section level ("(2)(b)"), empty for a whole section */
+  pinpoint: string;
+  /** Refs the same schedule provision may be stored under ("Sch 1 cl 1" is APP 1) */
+  alternatives?: string[];
+}
+
+/**
+ * Split a provision reference into section and pinpoint.
+ * Accepts "s 26WE(2)(b)", "section 13(1)", "r 5(1)(a)(ii)", "26WE(2) (b)", "s 995-1(1)".
+ * Returns null for references that are not section numbers (e.g. "Part IIIC").
+ */
+export function parsePinpoint(ref: string): ParsedPinpoint | null {
+  const schedule = parseSchedulePinpoint(ref.trim());
+  if (schedule) return schedule;
+
+  const match = ref.trim().match(
+    new RegExp(String.raw`^(?:([A-Za-z]+)\.?\s*)?(${SECTION_NUMBER_PATTERN})((?:\s*\([A-Za-z0-9]+\))*)$`),
+  );
+  if (!match) return null;
+
+  const prefix = match[1] ? PREFIXES[match[1].toLowerCase()] : '';
+  if (prefix === undefined) return null;
+
+  return {
+    sectionRef: `${prefix}${match[2]}`,
+    section: match[2],
+    pinpoint: match[3].replace(/\s+/g, ''),
+  };
+}
+
+/**
+ * Schedule references: "APP 1.4(a)", "Australian Privacy Principle 1",
+ * "Sch 1 cl 3(2)", "Schedule 2 s 18", or a stored ref such as "sch1-app1.4".
+ * The APPs are always Schedule 1 to the Privacy Act. `section` is the label
+ * stored for the provision ("APP 1", "Sch 2 s 18").
+ */
+function parseSchedulePinpoint(ref: string): ParsedPinpoint | null {
+  const pinpointOf = (rest: string) => rest.replace(/\s+/g, '');
+
+  const app = ref.match(/^(?:APP|Australian\s+Privacy\s+Principle)\s*(\d+)((?:\.\d+[A-Za-z]*)?(?:\s*\([A-Za-z0-9]+\))*)$/i);
+  if (app) {
+    return { sectionRef: `sch1-app${app[1]}`, section: `APP ${app[1]}`, pinpoint: pinpointOf(app[2]) };
+  }
+
+  const cited = ref.match(new RegExp(
+    String.raw`^Sch(?:edule|\.)?\s*(?:(\d+[A-Z]*)\s*,?\s*)?(cl(?:ause)?|s(?:ection)?|item)\.?\s*(${SECTION_NUMBER_PATTERN})((?:\s*\([A-Za-z0-9]+\))*)$`,
+    'i',
+  ));
+  if (cited) {
+    const schedule = cited[1] ?? '';
+    const unit = SCHEDULE_UNITS[cited[2].toLowerCase()];
+    return {
+      sectionRef: `sch${schedule}-${unit}${cited[3]}`,
+      section: `Sch${schedule ? ` ${schedule}` : ''} ${unit} ${cited[3]}`,
+      pinpoint: pinpointOf(cited[4]),
+      alternatives: ['cl', 's', 'app']
+        .filter(u => u !== unit)
+        .map(u => `sch${schedule}-${u}${cited[3]}`),
+    };
+  }
+
+  const stored = ref.match(new RegExp(
+    String.raw`^(sch\d*[A-Z]*-(?:app\d+|[a-z]+${SECTION_NUMBER_PATTERN}))((?:\.\d+[A-Za-z]*)?(?:\([A-Za-z0-9]+\))*)$`,
+    'i',
+  ));
+  if (stored) {
+    return { sectionRef: stored[1].toLowerCase(), section: stored[1].toLowerCase(), pinpoint: stored[2] };
+  }
+
+  return null;
+}
+
+export interface ProvisionUnit {
+  unit_ref: string;
+  parent_ref: string;
+  level: string;
+  label: string;
+  lead_in: string;
+  content: string;
+}
+
+export interface ProvisionUnitContext {
+  provision_ref: string;
+  level: string;
+  text: string;
+}
+
+export function getProvisionUnit(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  unitRef: string,
+): ProvisionUnit | null {
+  const unit = db.prepare(
+    'SELECT unit_ref, parent_ref, level, label, lead_in, content FROM provision_units WHERE document_id = ? AND unit_ref = ?'
+  ).get(documentId, unitRef) as ProvisionUnit | undefined;
+  return unit ?? null;
+}
+
+/**
+ * The units enclosing a unit, outermost first, each with its own (lead-in)
+ * text. The section itself comes first, represented by its heading.
+ */
+export function getUnitParentChain(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provision: { provision_ref: string; title: string | null },
+  unit: ProvisionUnit,
+): ProvisionUnitContext[] {
+  const chain: ProvisionUnitContext[] = [];
+  let parentRef = unit.parent_ref;
+
+  while (parentRef !== provision.provision_ref) {
+    const parent = getProvisionUnit(db, documentId, parentRef);
+    if (!parent) break;
+    chain.unshift({ provision_ref: parent.unit_ref, level: parent.level, text: parent.lead_in });
+    parentRef = parent.parent_ref;
+  }
+
+  chain.unshift({ provision_ref: provision.provision_ref, level: 'section', text: provision.title ?? '' });
+  return chain;
+}
+
+/**
+ * Number of a stored section or unit ref as cited: "26WE" for s26WE,
+ * "5(1)" for r5(1); schedule refs (sch1-app1) are left as stored.
+ */
+export function sectionNumber(provisionRef: string): string {
+  return provisionRef.replace(/^[sr](?=\d)/, '');
+}
+
+/**
+ * Refs the section a reference names may be stored under, most likely
+ * first: "r 5(1)" gives r5, 5 and s5; "Sch 1 cl 1" also sch1-app1.
+ */
+export function provisionRefCandidates(ref: string): string[] {
+  const parsed = parsePinpoint(ref);
+  if (!parsed) return [ref.trim(), `s${ref.trim()}`];
+  const { sectionRef, section, alternatives = [] } = parsed;
+  return [...new Set([sectionRef, section, `s${section}`, ...alternatives])];
+}
+
+/**
+ * Stored provision_ref of the section a reference names ("s 13(1)", "13",
+ * "Sch 1 cl 1"), or null when the document has no such section.
+ */
+export function findProvisionRef(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  ref: string,
+): string | null {
+  const refs = provisionRefCandidates(ref);
+  const section = parsePinpoint(ref)?.section ?? ref.trim();
+  const provision = db.prepare(
+    `SELECT provision_ref FROM legal_provisions WHERE document_id = ? AND (provision_ref IN (${refs.map(() => '?').join(', ')}) OR section = ?)`
+  ).get(documentId, ...refs, section) as { provision_ref: string } | undefined;
+  return provision?.provision_ref ?? null;
+}
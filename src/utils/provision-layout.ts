@@ -0,0 +1,85 @@
+/**
+ * Formatted rendering of provision text for Australian Law MCP.
+ *
+ * Provision content is stored as one line for search. The build also stores
+ * the layout of each provision (legal_provisions.layout): its subsections,
+ * paragraphs, notes, examples and tables with their indentation, so that the
+ * text can be rendered as it appears in the Act.
+ */
+
+export type ProvisionFormat = 'plain' | 'markdown' | 'html';
+
+export type LayoutBlock =
+  | { kind: 'text' | 'heading' | 'definition' | 'penalty' | 'note' | 'example'; depth: number; text: string }
+  | { kind: 'table'; rows: string[][] };
+
+export const PROVISION_FORMATS: ProvisionFormat[] = ['plain', 'markdown', 'html'];
+
+/**
+ * Parse the stored layout column; null when absent or unreadable.
+ */
+export function parseLayout(value: unknown): LayoutBlock[] | null {
+  if (typeof value !== 'string' || value.length === 0) return null;
+  try {
+    const blocks = JSON.parse(value) as LayoutBlock[];
+    return Array.isArray(blocks) && blocks.length > 0 ? blocks : null;
+  } catch {
+    return null;
+  }
+}
+
+export function renderLayout(blocks: LayoutBlock[], format: ProvisionFormat): string {
+  switch (format) {
+    case 'markdown':
+      return blocks.map(renderMarkdown).join('\n\n');
+    case 'html':
+      return blocks.map(renderHtml).join('\n');
+    case 'plain':
+    default:
+      return blocks.map(renderPlain).join('\n');
+  }
+}
+
+function renderPlain(block: LayoutBlock): string {
+  if (block.kind === 'table') return block.rows.map(row => row.join('\t')).join('\n');
+  return `${'    '.repeat(block.depth)}${block.text}`;
+}
+
+function renderMarkdown(block: LayoutBlock): string {
+  switch (block.kind) {
+    case 'table': {
+      const width = Math.max(...block.rows.map(row => row.length));
+      const line = (row: string[]) =>
+        `| ${Array.from({ length: width }, (_, i) => (row[i] ?? '').replace(/\|/g, '\\|')).join(' | ')} |`;
+      const [header, ...rows] = block.rows;
+      return [line(header), `|${' --- |'.repeat(width)}`, ...rows.map(line)].join('\n');
+    }
+    case 'heading':
+      return `**${block.text}**`;
+    case 'note':
+    case 'example':
+      return `${'> '.repeat(block.depth + 1)}${block.text}`;
+    default:
+      // Paragraphs become nested list items so that their indentation survives
+      return block.depth > 0 ? `${'  '.repeat(block.depth - 1)}- ${block.text}` : block.text;
+  }
+}
+
+function renderHtml(block: LayoutBlock): string {
+  if (block.kind === 'table') {
+    const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`);
+    return `<table>${rows.join('')}</table>`;
+  }
+  if (block.kind === 'heading') return `<h4>${escapeHtml(block.text)}</h4>`;
+
+  const style = block.depth > 0 ? ` style="margin-left: ${block.depth * 2}em"` : '';
+  return `<p class="${block.kind}"${style}>${escapeHtml(block.text)}</p>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,99 @@
+/**
+ * Facets and drill-down filters for search_legislation.
+ *
+ * Facets count every current provision matched by the query, grouped by
+ * Act, status, the decade of the Act's year and the top-level heading
+ * (Chapter, Part or Schedule) of legal_provisions.chapter, whose breadcrumb
+ * reads "Chapter 1—Introductory > Part 1.2—Interpretation".
+ */
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  total_hits: number;
+  /** Set when more hits matched than were counted */
+  truncated?: true;
+  documents: Array<{ document_id: string; title: string; count: number }>;
+  status: FacetCount[];
+  years: Array<{ from: number; to: number; count: number }>;
+  chapters: Array<{ document_id: string; chapter: string; count: number }>;
+}
+
+export interface FacetRow {
+  document_id: string;
+  document_title: string;
+  status: string;
+  year: number | null;
+  chapter: string | null;
+}
+
+/** Hits counted for facets; beyond this the counts are marked truncated */
+export const FACET_SCAN_LIMIT = 10000;
+
+const FACET_VALUES = 20;
+
+/**
+ * Year of an Act (legal_documents aliased ld): the year in its title
+ * ("Privacy Act 1988"), else the year it was made.
+ */
+export const ACT_YEAR_SQL =
+  "COALESCE(CASE WHEN ld.title GLOB '*[12][0-9][0-9][0-9]' THEN CAST(substr(ld.title, -4) AS INTEGER) END, " +
+  'CAST(substr(ld.issued_date, 1, 4) AS INTEGER))';
+
+/**
+ * Filter on a heading anywhere in the chapter breadcrumb, by its label
+ * ("Part IIIC") or in full ("Part IIIC—Notification of eligible data breaches").
+ */
+export function chapterFilter(column: string, chapter: string): { sql: string; params: string[] } {
+  const value = chapter.trim().replace(/[\\%_]/g, match => `\\${match}`);
+  const breadcrumb = `(' > ' || ${column} || ' > ')`;
+  return {
+    sql: `(${breadcrumb} LIKE ? ESCAPE '\\' OR ${breadcrumb} LIKE ? ESCAPE '\\')`,
+    params: [`% > ${value} > %`, `% > ${value}—%`],
+  };
+}
+
+export function aggregateFacets(rows: FacetRow[]): SearchFacets {
+  const documents = new Map<string, { document_id: string; title: string; count: number }>();
+  const status = new Map<string, number>();
+  const decades = new Map<number, number>();
+  const chapters = new Map<string, { document_id: string; chapter: string; count: number }>();
+
+  for (const row of rows.slice(0, FACET_SCAN_LIMIT)) {
+    const doc = documents.get(row.document_id) ?? { document_id: row.document_id, title: row.document_title, count: 0 };
+    doc.count++;
+    documents.set(row.document_id, doc);
+
+    status.set(row.status, (status.get(row.status) ?? 0) + 1);
+
+    if (row.year !== null) {
+      const decade = Math.floor(row.year / 10) * 10;
+      decades.set(decade, (decades.get(decade) ?? 0) + 1);
+    }
+
+    if (row.chapter) {
+      const top = row.chapter.split(' > ')[0];
+      const key = `${row.document_id}::${top}`;
+      const entry = chapters.get(key) ?? { document_id: row.document_id, chapter: top, count: 0 };
+      entry.count++;
+      chapters.set(key, entry);
+    }
+  }
+
+  const byCount = <T extends { count: number }>(values: Iterable<T>) =>
+    [...values].sort((a, b) => b.count - a.count).slice(0, FACET_VALUES);
+
+  return {
+    total_hits: Math.min(rows.length, FACET_SCAN_LIMIT),
+    ...(rows.length > FACET_SCAN_LIMIT ? { truncated: true as const } : {}),
+    documents: byCount(documents.values()),
+    status: byCount([...status].map(([value, count]) => ({ value, count }))),
+    years: [...decades]
+      .sort(([a], [b]) => a - b)
+      .map(([from, count]) => ({ from, to: from + 9, count })),
+    chapters: byCount(chapters.values()),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Search thesaurus for Australian Law MCP.
+ *
+ * search_thesaurus is built from data/thesaurus.json: acronyms ("NDB"),
+ * US spellings ("organization") and everyday terms ("personal data")
+ * mapped to the wording the legislation uses. Acronyms match only when
+ * written in capitals, so that "art" is not read as "ART".
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export type ThesaurusKind = 'acronym' | 'spelling' | 'synonym';
+
+export interface QueryExpansion {
+  /** The words of the query that were expanded, as written */
+  term: string;
+  expansions: string[];
+  kind: ThesaurusKind;
+}
+
+interface ThesaurusRow {
+  term: string;
+  expansion: string;
+  kind: ThesaurusKind;
+}
+
+function loadThesaurus(db: InstanceType<typeof Database>): ThesaurusRow[] {
+  try {
+    return db.prepare('SELECT term, expansion, kind FROM search_thesaurus ORDER BY id').all() as ThesaurusRow[];
+  } catch {
+    // search_thesaurus table doesn't exist in this database
+    return [];
+  }
+}
+
+/**
+ * Thesaurus terms in a sanitized query, longest first at each position:
+ * "NDB scheme" is one term, not "NDB" followed by "scheme". Prefix
+ * terms (privac*) are not expanded.
+ */
+export function findQueryExpansions(db: InstanceType<typeof Database>, sanitized: string): QueryExpansion[] {
+  const rows = loadThesaurus(db);
+  if (rows.length === 0) return [];
+
+  const entries = new Map<string, QueryExpansion>();
+  for (const row of rows) {
+    const key = row.kind === 'acronym' ? row.term : row.term.toLowerCase();
+    const entry = entries.get(key) ?? { term: row.term, expansions: [], kind: row.kind };
+    entry.expansions.push(row.expansion);
+    entries.set(key, entry);
+  }
+  const maxWords = Math.max(...[...entries.values()].map(e => e.term.split(' ').length));
+
+  const words = sanitized.split(/\s+/).filter(Boolean);
+  const found: QueryExpansion[] = [];
+  for (let i = 0; i < words.length;) {
+    let length = Math.min(maxWords, words.length - i);
+    for (; length > 0; length--) {
+      const phrase = words.slice(i, i + length).join(' ');
+      if (phrase.endsWith('*')) continue;
+      const entry = entries.get(phrase) ?? entries.get(phrase.toLowerCase());
+      if (entry && (entry.kind !== 'acronym' || entry.term === phrase)) {
+        found.push({ term: phrase, expansions: entry.expansions, kind: entry.kind });
+        break;
+      }
+    }
+    i += Math.max(length, 1);
+  }
+  return found;
+}
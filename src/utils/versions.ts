@@ -0,0 +1,163 @@
+/**
+ * Point-in-time helpers for Australian Law MCP.
+ *
+ * The current text of each provision lives in legal_provisions, with
+ * valid_from set to the start of the first compilation carrying that text.
+ * Superseded texts live in provision_versions with a [valid_from, valid_to)
+ * date range. document_versions lists the compilations themselves.
+ */
+
+import type Database from '@ansvar/mcp-sqlite';
+
+export interface CompilationInfo {
+  compilation_number: string | null;
+  register_id: string | null;
+  start_date: string;
+  end_date: string | null;
+}
+
+export interface VersionedProvision {
+  provision_ref: string;
+  chapter: string | null;
+  section: string;
+  title: string | null;
+  content: string;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+/**
+ * Whether the database carries compilation history for a document.
+ * Databases built before versioning (or Acts ingested with a single
+ * compilation and no dates) return false.
+ */
+export function hasVersionHistory(db: InstanceType<typeof Database>, documentId: string): boolean {
+  try {
+    const row = db.prepare(
+      'SELECT 1 FROM document_versions WHERE document_id = ? LIMIT 1'
+    ).get(documentId);
+    return row !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the compilation of a document that was in force on the given date.
+ */
+export function findCompilationAsOf(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  asOfDate: string,
+): CompilationInfo | null {
+  try {
+    const row = db.prepare(`
+      SELECT compilation_number, register_id, start_date, end_date
+      FROM document_versions
+      WHERE document_id = ? AND start_date <= ? AND (end_date IS NULL OR end_date > ?)
+      ORDER BY start_date DESC
+      LIMIT 1
+    `).get(documentId, asOfDate, asOfDate) as CompilationInfo | undefined;
+    return row ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List every compilation of a document, oldest first.
+ */
+export function listCompilations(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+): CompilationInfo[] {
+  try {
+    return db.prepare(`
+      SELECT compilation_number, register_id, start_date, end_date
+      FROM document_versions
+      WHERE document_id = ?
+      ORDER BY start_date
+    `).all(documentId) as CompilationInfo[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Return the text of a provision as it stood on the given date, or null if
+ * the provision did not exist (or was repealed) at that date.
+ */
+export function getProvisionAsOf(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  provisionRef: string,
+  asOfDate: string,
+): VersionedProvision | null {
+  const current = db.prepare(`
+    SELECT provision_ref, chapter, section, title, content, valid_from, NULL as valid_to
+    FROM legal_provisions
+    WHERE document_id = ? AND provision_ref = ? AND (valid_from IS NULL OR valid_from <= ?)
+  `).get(documentId, provisionRef, asOfDate) as VersionedProvision | undefined;
+  if (current) return current;
+
+  try {
+    const superseded = db.prepare(`
+      SELECT provision_ref, chapter, section, title, content, valid_from, valid_to
+      FROM provision_versions
+      WHERE document_id = ? AND provision_ref = ? AND valid_from <= ? AND valid_to > ?
+      ORDER BY valid_from DESC
+      LIMIT 1
+    `).get(documentId, provisionRef, asOfDate, asOfDate) as VersionedProvision | undefined;
+    return superseded ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Return every provision of a document as it stood on the given date,
+ * in document order.
+ */
+export function getDocumentAsOf(
+  db: InstanceType<typeof Database>,
+  documentId: string,
+  asOfDate: string,
+): VersionedProvision[] {
+  const current = db.prepare(`
+    SELECT id, provision_ref, chapter, section, title, content, valid_from, NULL as valid_to
+    FROM legal_provisions
+    WHERE document_id = ? AND (valid_from IS NULL OR valid_from <= ?)
+    ORDER BY id
+  `).all(documentId, asOfDate) as (VersionedProvision & { id: number })[];
+
+  let superseded: (VersionedProvision & { id: number })[] = [];
+  try {
+    superseded = db.prepare(`
+      SELECT id, provision_ref, chapter, section, title, content, valid_from, valid_to
+      FROM provision_versions
+      WHERE document_id = ? AND valid_from <= ? AND valid_to > ?
+      ORDER BY id
+    `).all(documentId, asOfDate, asOfDate) as (VersionedProvision & { id: number })[];
+  } catch {
+    // provision_versions table may not exist
+  }
+
+  if (superseded.length === 0) {
+    return current.map(({ id: _id, ...p }) => p);
+  }
+
+  // Slot superseded texts back in at the position of their current counterpart;
+  // provisions that were later repealed have none and go last.
+  const positionByRef = new Map<string, number>();
+  const allRefs = db.prepare(
+    'SELECT id, provision_ref FROM legal_provisions WHERE document_id = ?'
+  ).all(documentId) as { id: number; provision_ref: string }[];
+  for (const row of allRefs) positionByRef.set(row.provision_ref, row.id);
+
+  return [
+    ...current.map(p => ({ p, pos: p.id })),
+    ...superseded.map(p => ({ p, pos: positionByRef.get(p.provision_ref) ?? Number.MAX_SAFE_INTEGER })),
+  ]
+    .sort((a, b) => a.pos - b.pos)
+    .map(({ p: { id: _id, ...p } }) => p);
+}
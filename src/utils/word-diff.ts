@@ -0,0 +1,154 @@
+/**
+ * Word-level text diff for comparing provision versions.
+ *
+ * Uses the Myers O((N+M)D) algorithm over whitespace-separated tokens, so
+ * long provisions with few changes diff quickly.
+ */
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface WordDiff {
+  segments: DiffSegment[];
+  inserted_words: number;
+  deleted_words: number;
+  /** Set when the texts differ too much to diff; the changed span is one delete and one insert */
+  replaced?: true;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(t => t.length > 0);
+}
+
+/**
+ * Edits beyond which the texts are treated as replaced rather than diffed.
+ * The trace grows with the square of the edit distance, and a diff this
+ * far apart says little a reader could use.
+ */
+export const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two token arrays (Myers, greedy forward pass
+ * with a saved trace for backtracking); null when the edit distance exceeds
+ * MAX_EDIT_DISTANCE. Each step saves only the diagonals it can reach, so
+ * the trace holds O(D²) entries rather than O(D·(N+M)).
+ */
+function myersDiff(a: string[], b: string[]): Array<{ type: DiffSegmentType; token: string }> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for diagonals -(d+1)..d+1 as it stood before step d
+  const trace: Int32Array[] = [];
+  let done = false;
+
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+  if (!done) return null;
+
+  // Backtrack through the trace to recover the edit script
+  const ops: Array<{ type: DiffSegmentType; token: string }> = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && at(k - 1) < at(k + 1))) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', token: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', token: b[y - 1] });
+      } else {
+        ops.push({ type: 'delete', token: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Diff two texts word by word. Consecutive tokens of the same kind are
+ * merged into one segment; whitespace is normalised to single spaces.
+ */
+export function diffWords(before: string, after: string): WordDiff {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // Strip the common prefix and suffix; most amendments touch a few words.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const removed = a.slice(prefix, a.length - suffix);
+  const added = b.slice(prefix, b.length - suffix);
+  const edits = myersDiff(removed, added);
+  const ops: Array<{ type: DiffSegmentType; token: string }> = [
+    ...a.slice(0, prefix).map(token => ({ type: 'equal' as const, token })),
+    ...(edits ?? [
+      ...removed.map(token => ({ type: 'delete' as const, token })),
+      ...added.map(token => ({ type: 'insert' as const, token })),
+    ]),
+    ...a.slice(a.length - suffix).map(token => ({ type: 'equal' as const, token })),
+  ];
+
+  const segments: DiffSegment[] = [];
+  let inserted = 0;
+  let deleted = 0;
+  for (const op of ops) {
+    if (op.type === 'insert') inserted++;
+    if (op.type === 'delete') deleted++;
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += ` ${op.token}`;
+    } else {
+      segments.push({ type: op.type, text: op.token });
+    }
+  }
+
+  return { segments, inserted_words: inserted, deleted_words: deleted, ...(edits ? {} : { replaced: true as const }) };
+}